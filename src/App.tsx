@@ -5,8 +5,14 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "./hooks/useAuth";
 import Index from "./pages/Index";
+import AdminPanel from "./components/AdminPanel";
+import ReferrerDashboard from "./components/ReferrerDashboard";
+import RequireRole from "./components/RequireRole";
+import RoleHomeRedirect from "./components/RoleHomeRedirect";
+import { STAFF_ROLES } from "./lib/userAccounts";
 import Auth from "./pages/Auth";
 import ResetPassword from "./pages/ResetPassword";
+import Refer from "./pages/Refer";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -19,9 +25,28 @@ const App = () => (
         <Sonner />
         <BrowserRouter>
           <Routes>
-            <Route path="/" element={<Index />} />
+            <Route path="/" element={<Index />}>
+              <Route index element={<RoleHomeRedirect />} />
+              <Route
+                path="admin"
+                element={
+                  <RequireRole roles={STAFF_ROLES}>
+                    <AdminPanel />
+                  </RequireRole>
+                }
+              />
+              <Route
+                path="dashboard"
+                element={
+                  <RequireRole roles={['referrer']}>
+                    <ReferrerDashboard />
+                  </RequireRole>
+                }
+              />
+            </Route>
             <Route path="/auth" element={<Auth />} />
             <Route path="/reset-password" element={<ResetPassword />} />
+            <Route path="/refer/:code" element={<Refer />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
@@ -0,0 +1,83 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { AuditAction, AppRole, auditActionLabels, roleLabels } from '@/lib/userAccounts';
+
+interface AdminAuditLogProps {
+  users: { id: string; name: string }[];
+}
+
+const describeDetails = (entry: Tables<'admin_audit_log'>) => {
+  const details = entry.details as Record<string, string>;
+  if (details.role) return roleLabels[details.role as AppRole] || details.role;
+  if (details.reason) return details.reason;
+  if (details.method === 'recovery_code') return 'Used a recovery code';
+  return details.email || '';
+};
+
+const AdminAuditLog = ({ users }: AdminAuditLogProps) => {
+  const [entries, setEntries] = useState<Tables<'admin_audit_log'>[]>([]);
+
+  // The users list is refetched after every account change, so reload the log with it
+  useEffect(() => {
+    fetchEntries();
+  }, [users]);
+
+  const fetchEntries = async () => {
+    const { data, error } = await supabase
+      .from('admin_audit_log')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(50);
+
+    if (error) {
+      console.error('Error fetching admin audit log:', error);
+      return;
+    }
+    setEntries(data || []);
+  };
+
+  const userName = (userId: string | null) =>
+    users.find(u => u.id === userId)?.name || (userId ? 'Unknown user' : '—');
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Account Changes</CardTitle>
+        <CardDescription>The 50 most recent role, access and sign-in changes made by admins</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No account changes yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>When</TableHead>
+                <TableHead>Admin</TableHead>
+                <TableHead>User</TableHead>
+                <TableHead>Change</TableHead>
+                <TableHead>Details</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map((entry) => (
+                <TableRow key={entry.id}>
+                  <TableCell>{new Date(entry.created_at).toLocaleString()}</TableCell>
+                  <TableCell>{userName(entry.actor_id)}</TableCell>
+                  <TableCell>{userName(entry.target_user_id)}</TableCell>
+                  <TableCell>{auditActionLabels[entry.action as AuditAction] || entry.action}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">{describeDetails(entry)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AdminAuditLog;
@@ -0,0 +1,54 @@
+import { useState, useEffect } from 'react';
+import MfaChallenge from '@/components/MfaChallenge';
+import MfaEnrollment from '@/components/MfaEnrollment';
+import { useAuth } from '@/hooks/useAuth';
+import { MfaStatus, getMfaStatus } from '@/lib/mfa';
+import { STAFF_ROLES } from '@/lib/userAccounts';
+
+interface AdminMfaGateProps {
+  children: React.ReactNode;
+}
+
+/**
+ * Staff must be at aal2 before any view loads, including the referrer dashboard of staff
+ * who also refer customers. The database enforces the same rule; this just asks for the
+ * code up front instead of showing empty tables. Referrers pass straight through.
+ */
+const AdminMfaGate = ({ children }: AdminMfaGateProps) => {
+  const { hasRole } = useAuth();
+  const isStaff = STAFF_ROLES.some(role => hasRole(role));
+  const [status, setStatus] = useState<MfaStatus | null>(null);
+
+  useEffect(() => {
+    if (isStaff) checkStatus();
+  }, [isStaff]);
+
+  const checkStatus = async () => {
+    try {
+      setStatus(await getMfaStatus());
+    } catch (error) {
+      console.error('Error checking MFA status:', error);
+      setStatus('challenge');
+    }
+  };
+
+  if (!isStaff) {
+    return <>{children}</>;
+  }
+
+  if (status === null) {
+    return <div className="flex items-center justify-center min-h-[400px]">Loading...</div>;
+  }
+
+  if (status === 'enroll') {
+    return <MfaEnrollment onEnrolled={checkStatus} />;
+  }
+
+  if (status === 'challenge') {
+    return <MfaChallenge onVerified={checkStatus} onReset={checkStatus} />;
+  }
+
+  return <>{children}</>;
+};
+
+export default AdminMfaGate;
@@ -8,10 +8,29 @@ import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import BonusRulesManager from '@/components/BonusRulesManager';
+import PayoutsManager from '@/components/PayoutsManager';
+import AdminReferralsTable from '@/components/AdminReferralsTable';
+import PipelineBoard from '@/components/PipelineBoard';
+import AnalyticsDashboard from '@/components/AnalyticsDashboard';
+import DuplicateReferralsReview from '@/components/DuplicateReferralsReview';
+import ReferralStagesManager from '@/components/ReferralStagesManager';
+import NotificationTemplatesManager from '@/components/NotificationTemplatesManager';
+import RevealBankDetailsDialog from '@/components/RevealBankDetailsDialog';
+import ResetMfaDialog from '@/components/ResetMfaDialog';
+import MfaSettings from '@/components/MfaSettings';
+import UserActionsMenu from '@/components/UserActionsMenu';
+import AdminAuditLog from '@/components/AdminAuditLog';
+import AssignmentWorkload from '@/components/AssignmentWorkload';
+import AssignmentSettings from '@/components/AssignmentSettings';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
-import { Edit, Users, FileText, Plus } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { useReferralChanges } from '@/hooks/useReferralChanges';
+import { formatCurrency } from '@/lib/format';
+import { AppRole, getStaffPermissions, roleLabels } from '@/lib/userAccounts';
+import { PaymentMethod, describePaymentDetails, paymentMethodLabels, validateStoredPaymentDetails } from '@/lib/paymentDetails';
+import { Users, FileText, Plus, DollarSign } from 'lucide-react';
 
 interface User {
   id: string;
@@ -21,29 +40,23 @@ interface User {
   payment_details: any;
   created_at: string;
   profile_id: string;
+  roles: AppRole[];
+  last_sign_in_at: string | null;
+  email_confirmed_at: string | null;
+  deactivated_at: string | null;
 }
 
-interface Referral {
-  id: string;
+interface ReferralTotals {
   user_id: string;
-  client_name: string;
-  client_email: string;
-  client_phone: string;
-  client_address: string;
-  stage: string;
-  bonus_status: string;
-  notes: string;
-  created_at: string;
-  profile_id: string;
-  profiles: { name: string; email: string };
+  referral_count: number;
+  pending_total: number;
+  paid_total: number;
 }
 
 const AdminPanel = () => {
   const [users, setUsers] = useState<User[]>([]);
-  const [referrals, setReferrals] = useState<Referral[]>([]);
+  const [referralTotals, setReferralTotals] = useState<ReferralTotals[]>([]);
   const [loading, setLoading] = useState(true);
-  const [editingReferral, setEditingReferral] = useState<Referral | null>(null);
-  const [isEditing, setIsEditing] = useState(false);
   const [newReferral, setNewReferral] = useState({
     user_id: '',
     client_name: '',
@@ -53,11 +66,31 @@ const AdminPanel = () => {
     profile_id: ''
   });
   const [isAdding, setIsAdding] = useState(false);
+  const { user: currentUser, roles } = useAuth();
+  const permissions = getStaffPermissions(roles);
 
   useEffect(() => {
     fetchData();
   }, []);
 
+  // Referral changes only move the per-referrer totals; users are reloaded after changes to them
+  useReferralChanges(() => fetchReferralTotals());
+
+  const fetchReferralTotals = async () => {
+    const { data, error } = await supabase.rpc('get_referral_totals');
+
+    if (error) {
+      console.error('Error fetching referral totals:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch referral totals",
+        variant: "destructive"
+      });
+      return;
+    }
+    setReferralTotals(data || []);
+  };
+
   const fetchData = async () => {
     try {
       // Fetch profiles data
@@ -65,44 +98,39 @@ const AdminPanel = () => {
         .from('profiles')
         .select('*');
 
-      // For admin panel, we'll use profiles table and fetch user emails separately
-      const usersWithProfiles = profilesData?.map(profile => ({
-        id: profile.user_id,
-        name: profile.name,
-        email: profile.email,
-        payment_method: profile.payment_method || '',
-        payment_details: profile.payment_details || null,
-        created_at: profile.created_at,
-        profile_id: profile.id
-      })) || [];
-
-      // Fetch referrals with profiles - correct join syntax
-      const { data: referralsData, error: referralsError } = await supabase
-        .from('referrals')
-        .select(`
-          *,
-          profiles:profiles(user_id, name)
-        `)
-        .order('created_at', { ascending: false });
-
-      if (referralsError) {
-        console.error('Error fetching referrals:', referralsError);
-        throw referralsError;
-      }
+      // Roles and sign-in details live in auth.users, which only this RPC can read.
+      // Finance and sales reps cannot call it and do not see the users tab.
+      const { data: accountsData, error: accountsError } = permissions.viewUsers
+        ? await supabase.rpc('get_user_accounts')
+        : { data: [], error: null };
 
-      console.log("--------------", referralsData)
+      if (accountsError) {
+        console.error('Error fetching user accounts:', accountsError);
+        throw accountsError;
+      }
 
-      const referralsWithUsers = referralsData?.map(referral => ({
-        ...referral,
-        profile_id: (referral as any).profile_id || '',
-        profiles: {
-          name: (referral.profiles as any)?.name || 'Unknown User',
-          email: '' // We'll keep this simple for now
-        }
-      })) || [];
+      // For admin panel, we'll use profiles table and fetch user emails separately
+      const usersWithProfiles = profilesData?.map(profile => {
+        const account = accountsData?.find(a => a.user_id === profile.user_id);
+        return {
+          id: profile.user_id,
+          name: profile.name,
+          email: profile.email,
+          payment_method: profile.payment_method || '',
+          payment_details: profile.payment_details || null,
+          created_at: profile.created_at,
+          profile_id: profile.id,
+          roles: account?.roles || [],
+          last_sign_in_at: account?.last_sign_in_at || null,
+          email_confirmed_at: account?.email_confirmed_at || null,
+          deactivated_at: profile.deactivated_at
+        };
+      }) || [];
 
       setUsers(usersWithProfiles);
-      setReferrals(referralsWithUsers);
+
+      // Per-referrer counts and totals; the referrals themselves are paged by AdminReferralsTable
+      await fetchReferralTotals();
     } catch (error) {
       console.error('Error fetching data:', error);
       toast({
@@ -115,41 +143,6 @@ const AdminPanel = () => {
     }
   };
 
-  const handleUpdateReferral = async () => {
-    if (!editingReferral) return;
-
-    setIsEditing(true);
-    try {
-      const { error } = await supabase
-        .from('referrals')
-        .update({
-        stage: editingReferral.stage as any,
-        bonus_status: editingReferral.bonus_status as any,
-          notes: editingReferral.notes
-        })
-        .eq('id', editingReferral.id);
-
-      if (error) throw error;
-
-      toast({
-        title: "Success",
-        description: "Referral updated successfully"
-      });
-
-      setEditingReferral(null);
-      fetchData();
-    } catch (error) {
-      console.error('Error updating referral:', error);
-      toast({
-        title: "Error",
-        description: "Failed to update referral",
-        variant: "destructive"
-      });
-    } finally {
-      setIsEditing(false);
-    }
-  };
-
   const handleAddReferral = async () => {
     setIsAdding(true);
     try {
@@ -186,179 +179,86 @@ const AdminPanel = () => {
     }
   };
 
-  const getStageColor = (stage: string) => {
-    switch (stage) {
-      case 'Referred Connection': return 'bg-purple-100 text-purple-800';
-      case 'Client Signed': return 'bg-red-100 text-red-800';
-      case 'Site Inspection Done': return 'bg-yellow-100 text-yellow-800';
-      case 'Documents Verified': return 'bg-orange-100 text-orange-800';
-      case 'Solar Installed': return 'bg-green-100 text-green-800';
-      default: return 'bg-gray-100 text-gray-800';
-    }
-  };
-
-  const getBonusColor = (status: string) => {
-    return status === 'Paid' ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800';
-  };
-
   if (loading) {
     return <div className="flex items-center justify-center min-h-[400px]">Loading...</div>;
   }
 
+  const referralCount = referralTotals.reduce((sum, t) => sum + Number(t.referral_count), 0);
+  const pendingBonusTotal = referralTotals.reduce((sum, t) => sum + Number(t.pending_total), 0);
+  const paidBonusTotal = referralTotals.reduce((sum, t) => sum + Number(t.paid_total), 0);
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <h1 className="text-3xl font-bold">Admin Panel</h1>
         <div className="flex gap-4">
+          {permissions.viewUsers && (
+            <Badge variant="outline" className="text-lg px-3 py-1">
+              <Users className="h-4 w-4 mr-1" />
+              {users.length} Users
+            </Badge>
+          )}
           <Badge variant="outline" className="text-lg px-3 py-1">
-            <Users className="h-4 w-4 mr-1" />
-            {users.length} Users
+            <FileText className="h-4 w-4 mr-1" />
+            {referralCount} Referrals
           </Badge>
           <Badge variant="outline" className="text-lg px-3 py-1">
-            <FileText className="h-4 w-4 mr-1" />
-            {referrals.length} Referrals
+            <DollarSign className="h-4 w-4 mr-1" />
+            {formatCurrency(pendingBonusTotal)} Pending
+          </Badge>
+          <Badge variant="secondary" className="text-lg px-3 py-1">
+            <DollarSign className="h-4 w-4 mr-1" />
+            {formatCurrency(paidBonusTotal)} Paid
           </Badge>
         </div>
       </div>
 
       <Tabs defaultValue="referrals" className="w-full">
         <TabsList>
-          <TabsTrigger value="referrals">All Referrals</TabsTrigger>
-          <TabsTrigger value="users">All Users</TabsTrigger>
-          <TabsTrigger value="add">Add Referral</TabsTrigger>
+          <TabsTrigger value="referrals">{permissions.viewAllReferrals ? 'All Referrals' : 'My Referrals'}</TabsTrigger>
+          <TabsTrigger value="pipeline">Pipeline</TabsTrigger>
+          <TabsTrigger value="workload">Workload</TabsTrigger>
+          <TabsTrigger value="analytics">Analytics</TabsTrigger>
+          {permissions.viewUsers && <TabsTrigger value="users">All Users</TabsTrigger>}
+          {permissions.manageProgram && <TabsTrigger value="add">Add Referral</TabsTrigger>}
+          {permissions.viewPayouts && <TabsTrigger value="payouts">Payouts</TabsTrigger>}
+          {permissions.manageProgram && (
+            <>
+              <TabsTrigger value="bonus-rules">Bonus Rules</TabsTrigger>
+              <TabsTrigger value="stages">Stages</TabsTrigger>
+              <TabsTrigger value="emails">Emails</TabsTrigger>
+              <TabsTrigger value="duplicates">Duplicates</TabsTrigger>
+            </>
+          )}
+          <TabsTrigger value="security">Security</TabsTrigger>
         </TabsList>
 
         <TabsContent value="referrals" className="space-y-4">
-          <Card>
-            <CardHeader>
-              <CardTitle>Referrals Management</CardTitle>
-              <CardDescription>View and manage all referrals in the system</CardDescription>
-            </CardHeader>
-            <CardContent>
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead>Client</TableHead>
-                    <TableHead>Referrer</TableHead>
-                    <TableHead>Stage</TableHead>
-                    <TableHead>Bonus Status</TableHead>
-                    <TableHead>Date</TableHead>
-                    <TableHead>Actions</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {referrals.map((referral) => (
-                    <TableRow key={referral.id}>
-                      <TableCell>
-                        <div>
-                          <div className="font-medium">{referral.client_name}</div>
-                          <div className="text-sm text-muted-foreground">{referral.client_email}</div>
-                          <div className="text-sm text-muted-foreground">{referral.client_phone}</div>
-                          <div className="text-sm text-muted-foreground">{referral.client_address}</div>
-                        </div>
-                      </TableCell>
-                      <TableCell>
-                        <div>
-                          <div className="font-medium">{referral.profiles.name}</div>
-                          <div className="text-sm text-muted-foreground">{referral.profiles.email}</div>
-                        </div>
-                      </TableCell>
-                      <TableCell>
-                        <Badge className={getStageColor(referral.stage)}>
-                          {referral.stage}
-                        </Badge>
-                      </TableCell>
-                      <TableCell>
-                        <Badge className={getBonusColor(referral.bonus_status)}>
-                          {referral.bonus_status}
-                        </Badge>
-                      </TableCell>
-                      <TableCell>{new Date(referral.created_at).toLocaleDateString()}</TableCell>
-                      <TableCell>
-                        <Dialog>
-                          <DialogTrigger asChild>
-                            <Button 
-                              variant="outline" 
-                              size="sm"
-                              onClick={() => setEditingReferral(referral)}
-                            >
-                              <Edit className="h-4 w-4" />
-                            </Button>
-                          </DialogTrigger>
-                          <DialogContent>
-                            <DialogHeader>
-                              <DialogTitle>Edit Referral</DialogTitle>
-                              <DialogDescription>
-                                Update the status and details of this referral
-                              </DialogDescription>
-                            </DialogHeader>
-                            {editingReferral && (
-                              <div className="space-y-4">
-                                <div>
-                                  <Label>Client: {editingReferral.client_name}</Label>
-                                </div>
-                                <div className="space-y-2">
-                                  <Label>Stage</Label>
-                                  <Select
-                                    value={editingReferral.stage}
-                                    onValueChange={(value) => setEditingReferral({...editingReferral, stage: value})}
-                                  >
-                                    <SelectTrigger>
-                                      <SelectValue />
-                                    </SelectTrigger>
-                                    <SelectContent>
-                                      <SelectItem value="Referred Connection">Referred Connection</SelectItem>
-                                      <SelectItem value="Client Signed">Client Signed</SelectItem>
-                                      <SelectItem value="Site Inspection Done">Site Inspection Done</SelectItem>
-                                      <SelectItem value="Documents Verified">Documents Verified</SelectItem>
-                                      <SelectItem value="Solar Installed">Solar Installed</SelectItem>
-                                    </SelectContent>
-                                  </Select>
-                                </div>
-                                <div className="space-y-2">
-                                  <Label>Bonus Status</Label>
-                                  <Select
-                                    value={editingReferral.bonus_status}
-                                    onValueChange={(value) => setEditingReferral({...editingReferral, bonus_status: value})}
-                                  >
-                                    <SelectTrigger>
-                                      <SelectValue />
-                                    </SelectTrigger>
-                                    <SelectContent>
-                                      <SelectItem value="Pending">Pending</SelectItem>
-                                      <SelectItem value="Paid">Paid</SelectItem>
-                                    </SelectContent>
-                                  </Select>
-                                </div>
-                                <div className="space-y-2">
-                                  <Label>Notes</Label>
-                                  <Textarea
-                                    value={editingReferral.notes || ''}
-                                    onChange={(e) => setEditingReferral({...editingReferral, notes: e.target.value})}
-                                    rows={3}
-                                  />
-                                </div>
-                                <Button onClick={handleUpdateReferral} disabled={isEditing} className="w-full">
-                                  {isEditing ? 'Updating...' : 'Update Referral'}
-                                </Button>
-                              </div>
-                            )}
-                          </DialogContent>
-                        </Dialog>
-                      </TableCell>
-                    </TableRow>
-                  ))}
-                </TableBody>
-              </Table>
-            </CardContent>
-          </Card>
+          <AdminReferralsTable referrers={users} permissions={permissions} onChange={fetchData} />
+        </TabsContent>
+
+        <TabsContent value="pipeline">
+          <PipelineBoard permissions={permissions} onChange={fetchData} />
         </TabsContent>
 
-        <TabsContent value="users">
+        <TabsContent value="workload" className="space-y-4">
+          <AssignmentWorkload permissions={permissions} />
+          {permissions.manageProgram && <AssignmentSettings />}
+        </TabsContent>
+
+        <TabsContent value="analytics">
+          <AnalyticsDashboard />
+        </TabsContent>
+
+        <TabsContent value="users" className="space-y-4">
           <Card>
             <CardHeader>
               <CardTitle>Users Management</CardTitle>
-              <CardDescription>View all registered users and their details</CardDescription>
+              <CardDescription>
+                {permissions.manageProgram
+                  ? 'View all registered users, manage their roles and deactivate accounts'
+                  : 'View all registered users and their roles'}
+              </CardDescription>
             </CardHeader>
             <CardContent>
               <Table>
@@ -366,40 +266,81 @@ const AdminPanel = () => {
                   <TableRow>
                     <TableHead>Name</TableHead>
                     <TableHead>Email</TableHead>
+                    <TableHead>Roles</TableHead>
+                    <TableHead>Status</TableHead>
                     <TableHead>Bank Details</TableHead>
                     <TableHead>Joined</TableHead>
+                    <TableHead>Last Sign-In</TableHead>
                     <TableHead>Referrals</TableHead>
+                    {permissions.manageProgram && <TableHead>Actions</TableHead>}
                   </TableRow>
                 </TableHeader>
                 <TableBody>
                   {users.map((user) => {
-                    const userReferrals = referrals.filter(r => r.user_id === user.id);
+                    const userTotals = referralTotals.find(t => t.user_id === user.id);
                     return (
                       <TableRow key={user.id}>
                         <TableCell className="font-medium">{user.name}</TableCell>
                         <TableCell>{user.email}</TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {user.roles.map((role) => (
+                              <Badge key={role} variant={role === 'admin' ? 'default' : 'outline'}>
+                                {roleLabels[role]}
+                              </Badge>
+                            ))}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          {user.deactivated_at ? (
+                            <Badge variant="destructive">Deactivated</Badge>
+                          ) : !user.email_confirmed_at ? (
+                            <Badge variant="secondary">Unconfirmed</Badge>
+                          ) : (
+                            <Badge variant="outline">Active</Badge>
+                          )}
+                        </TableCell>
                         <TableCell>
                           {user.payment_method && user.payment_details ? (
                             <div className="space-y-1">
-                              <div className="font-medium">{user.payment_method.replace('_', ' ').toUpperCase()}</div>
-                              {user.payment_method === 'zelle' && (
-                                <div className="text-sm text-muted-foreground">{user.payment_details.email_or_phone}</div>
-                              )}
-                              {user.payment_method === 'paypal' && (
-                                <div className="text-sm text-muted-foreground">{user.payment_details.email}</div>
-                              )}
-                              {user.payment_method === 'bank_transfer' && (
-                                <div className="text-sm text-muted-foreground">
-                                  {user.payment_details.bank_name} - ***{user.payment_details.account_number?.slice(-4)}
+                              <div className="font-medium">{paymentMethodLabels[user.payment_method as PaymentMethod] || user.payment_method}</div>
+                              <div className="text-sm text-muted-foreground">
+                                {describePaymentDetails(user.payment_method, user.payment_details)}
+                              </div>
+                              {validateStoredPaymentDetails(user.payment_method, user.payment_details) && (
+                                <div className="text-xs text-destructive">
+                                  {validateStoredPaymentDetails(user.payment_method, user.payment_details)}
                                 </div>
                               )}
+                              {permissions.payBonuses && user.payment_method === 'bank_transfer' && (
+                                <RevealBankDetailsDialog userId={user.id} userName={user.name} />
+                              )}
                             </div>
                           ) : 'Not provided'}
                         </TableCell>
                         <TableCell>{new Date(user.created_at).toLocaleDateString()}</TableCell>
                         <TableCell>
-                          <Badge variant="outline">{userReferrals.length}</Badge>
+                          {user.last_sign_in_at ? new Date(user.last_sign_in_at).toLocaleString() : 'Never'}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{userTotals?.referral_count || 0}</Badge>
                         </TableCell>
+                        {permissions.manageProgram && (
+                          <TableCell>
+                            <div className="flex items-center gap-1">
+                              <UserActionsMenu
+                                userId={user.id}
+                                userName={user.name}
+                                roles={user.roles}
+                                emailConfirmed={!!user.email_confirmed_at}
+                                deactivated={!!user.deactivated_at}
+                                isCurrentUser={user.id === currentUser?.id}
+                                onChange={fetchData}
+                              />
+                              <ResetMfaDialog userId={user.id} userName={user.name} onReset={fetchData} />
+                            </div>
+                          </TableCell>
+                        )}
                       </TableRow>
                     );
                   })}
@@ -407,6 +348,8 @@ const AdminPanel = () => {
               </Table>
             </CardContent>
           </Card>
+
+          <AdminAuditLog users={users} />
         </TabsContent>
 
         <TabsContent value="add">
@@ -432,7 +375,7 @@ const AdminPanel = () => {
                       <SelectValue placeholder="Choose a user" />
                     </SelectTrigger>
                     <SelectContent>
-                      {users.map((user) => (
+                      {users.filter(user => !user.deactivated_at).map((user) => (
                         <SelectItem key={user.id} value={user.id}>
                           {user.name} ({user.email})
                         </SelectItem>
@@ -489,6 +432,30 @@ const AdminPanel = () => {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="payouts">
+          <PayoutsManager permissions={permissions} onChange={fetchData} />
+        </TabsContent>
+
+        <TabsContent value="bonus-rules">
+          <BonusRulesManager onRecalculated={fetchData} />
+        </TabsContent>
+
+        <TabsContent value="stages">
+          <ReferralStagesManager onChange={fetchData} />
+        </TabsContent>
+
+        <TabsContent value="emails">
+          <NotificationTemplatesManager />
+        </TabsContent>
+
+        <TabsContent value="duplicates">
+          <DuplicateReferralsReview onChange={fetchData} />
+        </TabsContent>
+
+        <TabsContent value="security">
+          <MfaSettings />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -0,0 +1,673 @@
+import { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious
+} from '@/components/ui/pagination';
+import ReferralTimeline from '@/components/ReferralTimeline';
+import ReferralOutcomeControls from '@/components/ReferralOutcomeControls';
+import ReferralAssignmentHistory from '@/components/ReferralAssignmentHistory';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { formatCurrency } from '@/lib/format';
+import { AdminReferralUpdate, updateReferral } from '@/lib/referrals';
+import { StaffPermissions } from '@/lib/userAccounts';
+import { useReferralStages } from '@/hooks/useReferralStages';
+import { useReferralChanges } from '@/hooks/useReferralChanges';
+import { useSalesReps } from '@/hooks/useSalesReps';
+import { BONUS_STATUSES, BonusStatus, ReferralStage } from '@/lib/referralStages';
+import { describeClosure, isClosed, outcomeLabels } from '@/lib/referralOutcomes';
+import StageBadge from '@/components/StageBadge';
+import { ArrowDown, ArrowUp, ArrowUpDown, Edit, X } from 'lucide-react';
+
+interface Referral {
+  id: string;
+  user_id: string;
+  client_name: string;
+  client_email: string;
+  client_phone: string;
+  client_address: string;
+  stage: ReferralStage;
+  bonus_status: BonusStatus;
+  bonus_amount: number;
+  payout_batch_id: string | null;
+  duplicate_of: string | null;
+  outcome: string;
+  close_reason: string | null;
+  closed_at: string | null;
+  source: string;
+  consent_text_version: string | null;
+  consented_at: string | null;
+  assigned_to: string | null;
+  notes: string;
+  created_at: string;
+  profiles: { name: string } | null;
+}
+
+interface Referrer {
+  id: string;
+  name: string;
+}
+
+interface AdminReferralsTableProps {
+  referrers: Referrer[];
+  permissions: StaffPermissions;
+  onChange?: () => void;
+}
+
+const PAGE_SIZE = 25;
+
+const SORTABLE_COLUMNS = ['client_name', 'bonus_status', 'bonus_amount', 'created_at'] as const;
+
+type SortColumn = typeof SORTABLE_COLUMNS[number];
+
+// Filter params shared through the URL; "page", "sort" and "dir" are handled separately
+const FILTER_PARAMS = ['stage', 'outcome', 'bonus', 'referrer', 'assigned', 'from', 'to'];
+
+const AdminReferralsTable = ({ referrers, permissions, onChange }: AdminReferralsTableProps) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [referrals, setReferrals] = useState<Referral[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [editingReferral, setEditingReferral] = useState<Referral | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const { stages } = useReferralStages();
+  const { salesReps, salesRepName } = useSalesReps();
+  const { user } = useAuth();
+
+  const page = Math.max(1, Number(searchParams.get('page')) || 1);
+  const sort: SortColumn = SORTABLE_COLUMNS.includes(searchParams.get('sort') as SortColumn)
+    ? searchParams.get('sort') as SortColumn
+    : 'created_at';
+  const ascending = searchParams.get('dir') === 'asc';
+  const stageFilter = searchParams.get('stage') || '';
+  const outcomeFilter = searchParams.get('outcome') || '';
+  const bonusFilter = searchParams.get('bonus') || '';
+  const referrerFilter = searchParams.get('referrer') || '';
+  // "me", "unassigned" or a sales rep's user id
+  const assignedFilter = searchParams.get('assigned') || '';
+  const fromDate = searchParams.get('from') || '';
+  const toDate = searchParams.get('to') || '';
+  const pageCount = Math.max(1, Math.ceil(totalCount / PAGE_SIZE));
+
+  useEffect(() => {
+    fetchReferrals();
+  }, [searchParams]);
+
+  // Background refreshes keep the current rows on screen instead of flashing "Loading..."
+  useReferralChanges(() => fetchReferrals(false));
+
+  const fetchReferrals = async (showLoading = true) => {
+    if (showLoading) setLoading(true);
+    try {
+      let query = supabase
+        .from('referrals')
+        .select('*, profiles:profiles(name)', { count: 'exact' });
+
+      if (stageFilter) query = query.eq('stage', stageFilter);
+      if (outcomeFilter) query = query.eq('outcome', outcomeFilter);
+      if (bonusFilter) query = query.eq('bonus_status', bonusFilter as BonusStatus);
+      if (referrerFilter) query = query.eq('user_id', referrerFilter);
+      if (assignedFilter === 'unassigned') query = query.is('assigned_to', null);
+      else if (assignedFilter === 'me') query = query.eq('assigned_to', user?.id);
+      else if (assignedFilter) query = query.eq('assigned_to', assignedFilter);
+      // Dates are picked in the admin's local time zone; "to" includes the whole day
+      if (fromDate) query = query.gte('created_at', new Date(`${fromDate}T00:00:00`).toISOString());
+      if (toDate) {
+        const end = new Date(`${toDate}T00:00:00`);
+        end.setDate(end.getDate() + 1);
+        query = query.lt('created_at', end.toISOString());
+      }
+
+      const { data, error, count } = await query
+        .order(sort, { ascending })
+        .order('id', { ascending })
+        .range((page - 1) * PAGE_SIZE, page * PAGE_SIZE - 1);
+
+      // A bookmarked page, or rows deleted in the meantime, can leave us past the last page.
+      // PostgREST refuses a range that starts past the end outright (PGRST103).
+      if (error?.code === 'PGRST103') {
+        replacePage(1);
+        return;
+      }
+      if (error) throw error;
+
+      const lastPage = Math.max(1, Math.ceil((count || 0) / PAGE_SIZE));
+      if (page > lastPage) {
+        replacePage(lastPage);
+        return;
+      }
+
+      setReferrals((data || []) as Referral[]);
+      setTotalCount(count || 0);
+    } catch (error) {
+      console.error('Error fetching referrals:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch referrals",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Corrects the page without adding a history entry
+  const replacePage = (target: number) => {
+    const next = new URLSearchParams(searchParams);
+    if (target === 1) next.delete('page');
+    else next.set('page', String(target));
+    setSearchParams(next, { replace: true });
+  };
+
+  const updateParams = (changes: Record<string, string | null>) => {
+    const next = new URLSearchParams(searchParams);
+    Object.entries(changes).forEach(([key, value]) => {
+      if (value) next.set(key, value);
+      else next.delete(key);
+    });
+    setSearchParams(next);
+  };
+
+  // Any filter change starts again from the first page
+  const setFilter = (key: string, value: string) => updateParams({ [key]: value, page: null });
+
+  const clearFilters = () =>
+    updateParams(Object.fromEntries([...FILTER_PARAMS, 'page'].map(key => [key, null])));
+
+  const hasFilters = FILTER_PARAMS.some(key => searchParams.get(key));
+
+  const toggleSort = (column: SortColumn) => {
+    if (sort === column) {
+      updateParams({ dir: ascending ? 'desc' : 'asc', page: null });
+    } else {
+      updateParams({ sort: column, dir: column === 'created_at' ? 'desc' : 'asc', page: null });
+    }
+  };
+
+  const pageHref = (target: number) => {
+    const next = new URLSearchParams(searchParams);
+    next.set('page', String(target));
+    return `?${next.toString()}`;
+  };
+
+  const goToPage = (e: React.MouseEvent, target: number) => {
+    e.preventDefault();
+    if (target < 1 || target > pageCount || target === page) return;
+    updateParams({ page: target === 1 ? null : String(target) });
+  };
+
+  // First, last and up to two pages either side of the current one
+  const visiblePages = Array.from({ length: pageCount }, (_, i) => i + 1)
+    .filter(p => p === 1 || p === pageCount || Math.abs(p - page) <= 2);
+
+  // The bonus in a draft payout batch is already counted in its total, so the stage that sets it stays put
+  const inDraftBatch = (referral: Referral) =>
+    !!referral.payout_batch_id && referral.bonus_status === 'Pending';
+
+  // Sales reps move the referrals assigned to them forward; admins can move any referral anywhere
+  const canMoveStage = (referral: Referral) =>
+    !inDraftBatch(referral) && (
+      permissions.manageProgram ||
+      (permissions.advanceAssignedStages && referral.assigned_to === user?.id && !isClosed(referral))
+    );
+
+  const stageOptions = (referral: Referral) => {
+    if (permissions.manageProgram) return stages;
+    const current = referrals.find(r => r.id === referral.id)?.stage;
+    const currentIndex = stages.findIndex(stage => stage.key === current);
+    return stages.slice(Math.max(0, currentIndex));
+  };
+
+  const canEdit = (referral: Referral) =>
+    canMoveStage(referral) || permissions.payBonuses || permissions.manageProgram;
+
+  const handleUpdateReferral = async () => {
+    if (!editingReferral) return;
+
+    // Only send what this user may change; the database rejects anything else
+    const changes: AdminReferralUpdate = {};
+    if (canMoveStage(editingReferral)) changes.stage = editingReferral.stage;
+    if (permissions.payBonuses) changes.bonus_status = editingReferral.bonus_status;
+    if (permissions.manageProgram) {
+      changes.bonus_amount = editingReferral.bonus_amount;
+      changes.notes = editingReferral.notes;
+      changes.assigned_to = editingReferral.assigned_to;
+    }
+
+    setIsEditing(true);
+    try {
+      await updateReferral(editingReferral.id, changes);
+
+      toast({
+        title: "Success",
+        description: "Referral updated successfully"
+      });
+
+      setEditingReferral(null);
+      fetchReferrals();
+      onChange?.();
+    } catch (error) {
+      console.error('Error updating referral:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update referral",
+        variant: "destructive"
+      });
+    } finally {
+      setIsEditing(false);
+    }
+  };
+
+  const getBonusColor = (status: string) => {
+    return status === 'Paid' ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800';
+  };
+
+  const renderSortableHead = (column: SortColumn, label: string) => (
+    <TableHead>
+      <Button variant="ghost" size="sm" className="-ml-3 h-8 flex items-center gap-1" onClick={() => toggleSort(column)}>
+        {label}
+        {sort !== column ? (
+          <ArrowUpDown className="h-3 w-3 text-muted-foreground" />
+        ) : ascending ? (
+          <ArrowUp className="h-3 w-3" />
+        ) : (
+          <ArrowDown className="h-3 w-3" />
+        )}
+      </Button>
+    </TableHead>
+  );
+
+  const firstShown = totalCount === 0 ? 0 : (page - 1) * PAGE_SIZE + 1;
+  const lastShown = Math.min(page * PAGE_SIZE, totalCount);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Referrals Management</CardTitle>
+        <CardDescription>
+          {permissions.viewAllReferrals
+            ? 'View and manage all referrals in the system'
+            : 'The referrals assigned to you'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 lg:grid-cols-7 gap-4">
+          <div className="space-y-2">
+            <Label>Stage</Label>
+            <Select value={stageFilter || 'all'} onValueChange={(value) => setFilter('stage', value === 'all' ? '' : value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All stages</SelectItem>
+                {stages.map((stage) => (
+                  <SelectItem key={stage.key} value={stage.key}>{stage.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Outcome</Label>
+            <Select value={outcomeFilter || 'all'} onValueChange={(value) => setFilter('outcome', value === 'all' ? '' : value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All outcomes</SelectItem>
+                {Object.entries(outcomeLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Bonus Status</Label>
+            <Select value={bonusFilter || 'all'} onValueChange={(value) => setFilter('bonus', value === 'all' ? '' : value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                {BONUS_STATUSES.map((status) => (
+                  <SelectItem key={status} value={status}>{status}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Referrer</Label>
+            <Select value={referrerFilter || 'all'} onValueChange={(value) => setFilter('referrer', value === 'all' ? '' : value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All referrers</SelectItem>
+                {referrers.map((referrer) => (
+                  <SelectItem key={referrer.id} value={referrer.id}>{referrer.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Assigned To</Label>
+            <Select value={assignedFilter || 'all'} onValueChange={(value) => setFilter('assigned', value === 'all' ? '' : value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Anyone</SelectItem>
+                {permissions.advanceAssignedStages && <SelectItem value="me">Assigned to me</SelectItem>}
+                <SelectItem value="unassigned">Unassigned</SelectItem>
+                {salesReps.map((rep) => (
+                  <SelectItem key={rep.user_id} value={rep.user_id}>{rep.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="referrals_from">Created From</Label>
+            <Input
+              id="referrals_from"
+              type="date"
+              value={fromDate}
+              max={toDate || undefined}
+              onChange={(e) => setFilter('from', e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="referrals_to">Created To</Label>
+            <Input
+              id="referrals_to"
+              type="date"
+              value={toDate}
+              min={fromDate || undefined}
+              onChange={(e) => setFilter('to', e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between text-sm text-muted-foreground">
+          <span>
+            {loading ? 'Loading...' : `Showing ${firstShown}-${lastShown} of ${totalCount} referrals`}
+          </span>
+          {hasFilters && (
+            <Button variant="ghost" size="sm" onClick={clearFilters} className="flex items-center gap-1">
+              <X className="h-4 w-4" />
+              Clear filters
+            </Button>
+          )}
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {renderSortableHead('client_name', 'Client')}
+              <TableHead>Referrer</TableHead>
+              <TableHead>Stage</TableHead>
+              <TableHead>Assigned To</TableHead>
+              {renderSortableHead('bonus_status', 'Bonus Status')}
+              {renderSortableHead('bonus_amount', 'Bonus')}
+              {renderSortableHead('created_at', 'Date')}
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {!loading && referrals.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={8} className="text-center text-muted-foreground">
+                  No referrals match these filters.
+                </TableCell>
+              </TableRow>
+            )}
+            {referrals.map((referral) => (
+              <TableRow key={referral.id}>
+                <TableCell>
+                  <div>
+                    <div className="font-medium">{referral.client_name}</div>
+                    {referral.duplicate_of && (
+                      <Badge variant="outline" className="text-xs">Duplicate</Badge>
+                    )}
+                    {referral.source === 'link' && (
+                      <Badge variant="outline" className="text-xs">Via link</Badge>
+                    )}
+                    <div className="text-sm text-muted-foreground">{referral.client_email}</div>
+                    <div className="text-sm text-muted-foreground">{referral.client_phone}</div>
+                    <div className="text-sm text-muted-foreground">{referral.client_address}</div>
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <div className="font-medium">{referral.profiles?.name || 'Unknown User'}</div>
+                </TableCell>
+                <TableCell>
+                  <StageBadge stageKey={referral.stage} stages={stages} />
+                  {isClosed(referral) && (
+                    <div className="text-xs text-muted-foreground mt-1">
+                      Closed — {describeClosure(referral.outcome, referral.close_reason)}
+                    </div>
+                  )}
+                </TableCell>
+                <TableCell className="text-sm">{salesRepName(referral.assigned_to)}</TableCell>
+                <TableCell>
+                  <Badge className={getBonusColor(referral.bonus_status)}>
+                    {referral.bonus_status}
+                  </Badge>
+                </TableCell>
+                <TableCell>{formatCurrency(referral.bonus_amount)}</TableCell>
+                <TableCell>{new Date(referral.created_at).toLocaleDateString()}</TableCell>
+                <TableCell>
+                  <Dialog>
+                    <DialogTrigger asChild>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setEditingReferral(referral)}
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                    </DialogTrigger>
+                    <DialogContent>
+                      <DialogHeader>
+                        <DialogTitle>{canEdit(referral) ? 'Edit Referral' : 'Referral Details'}</DialogTitle>
+                        <DialogDescription>
+                          {canEdit(referral)
+                            ? 'Update the status and details of this referral'
+                            : 'Your role can view this referral but not change it'}
+                        </DialogDescription>
+                      </DialogHeader>
+                      {editingReferral && (
+                        <div className="space-y-4">
+                          <div>
+                            <Label>Client: {editingReferral.client_name}</Label>
+                            <p className="text-xs text-muted-foreground mt-1">
+                              {editingReferral.consented_at
+                                ? `Homeowner agreed to be contacted on ${new Date(editingReferral.consented_at).toLocaleString()} (consent text ${editingReferral.consent_text_version})`
+                                : 'Entered by the referrer; no contact consent from the homeowner on record'}
+                            </p>
+                          </div>
+                          <div className="space-y-2">
+                            <Label>Stage</Label>
+                            <Select
+                              value={editingReferral.stage}
+                              onValueChange={(value: ReferralStage) => setEditingReferral({...editingReferral, stage: value})}
+                              disabled={!canMoveStage(editingReferral)}
+                            >
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {stageOptions(editingReferral).map((stage) => (
+                                  <SelectItem key={stage.key} value={stage.key}>{stage.label}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            {inDraftBatch(editingReferral) && (
+                              <p className="text-xs text-muted-foreground">
+                                Cancel payout batch {editingReferral.payout_batch_id.slice(0, 8)} in the Payouts tab to change the stage.
+                              </p>
+                            )}
+                          </div>
+                          <div className="space-y-2">
+                            <Label>Assigned To</Label>
+                            <Select
+                              value={editingReferral.assigned_to || 'unassigned'}
+                              onValueChange={(value) => setEditingReferral({
+                                ...editingReferral,
+                                assigned_to: value === 'unassigned' ? null : value
+                              })}
+                              disabled={!permissions.manageProgram}
+                            >
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="unassigned">Unassigned</SelectItem>
+                                {salesReps.map((rep) => (
+                                  <SelectItem key={rep.user_id} value={rep.user_id}>{rep.name}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <div className="space-y-2">
+                            <Label>Bonus Status</Label>
+                            <Select
+                              value={editingReferral.bonus_status}
+                              onValueChange={(value: BonusStatus) => setEditingReferral({...editingReferral, bonus_status: value})}
+                              disabled={!permissions.payBonuses || !!editingReferral.payout_batch_id}
+                            >
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {BONUS_STATUSES.map((status) => (
+                                  <SelectItem key={status} value={status}>{status}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            {editingReferral.payout_batch_id ? (
+                              <p className="text-xs text-muted-foreground">
+                                Managed by payout batch {editingReferral.payout_batch_id.slice(0, 8)} in the Payouts tab.
+                              </p>
+                            ) : !permissions.payBonuses && (
+                              <p className="text-xs text-muted-foreground">
+                                Only finance can mark bonuses as paid.
+                              </p>
+                            )}
+                          </div>
+                          <div className="space-y-2">
+                            <Label>Bonus Amount ($)</Label>
+                            <Input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              value={editingReferral.bonus_amount}
+                              disabled={!permissions.manageProgram || !!editingReferral.payout_batch_id}
+                              onChange={(e) => setEditingReferral({...editingReferral, bonus_amount: Number(e.target.value)})}
+                            />
+                            <p className="text-xs text-muted-foreground">
+                              Calculated from the bonus rules when the stage changes. Edit to override.
+                            </p>
+                          </div>
+                          <div className="space-y-2">
+                            <Label>Notes</Label>
+                            <Textarea
+                              value={editingReferral.notes || ''}
+                              onChange={(e) => setEditingReferral({...editingReferral, notes: e.target.value})}
+                              rows={3}
+                              disabled={!permissions.manageProgram}
+                            />
+                          </div>
+                          {canEdit(editingReferral) && (
+                            <Button onClick={handleUpdateReferral} disabled={isEditing} className="w-full">
+                              {isEditing ? 'Updating...' : 'Update Referral'}
+                            </Button>
+                          )}
+                          {permissions.manageProgram && (
+                            <div className="border-t pt-4">
+                              <ReferralOutcomeControls
+                                referral={editingReferral}
+                                onChanged={() => {
+                                  setEditingReferral(null);
+                                  fetchReferrals();
+                                  onChange?.();
+                                }}
+                              />
+                            </div>
+                          )}
+                          <div className="space-y-2 border-t pt-4">
+                            <Label>History</Label>
+                            <div className="max-h-60 overflow-y-auto pr-2">
+                              <ReferralTimeline referralId={editingReferral.id} />
+                            </div>
+                          </div>
+                          <div className="space-y-2 border-t pt-4">
+                            <Label>Assignment History</Label>
+                            <ReferralAssignmentHistory referralId={editingReferral.id} salesRepName={salesRepName} />
+                          </div>
+                        </div>
+                      )}
+                    </DialogContent>
+                  </Dialog>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {pageCount > 1 && (
+          <Pagination>
+            <PaginationContent>
+              <PaginationItem>
+                <PaginationPrevious
+                  href={pageHref(Math.max(1, page - 1))}
+                  onClick={(e) => goToPage(e, page - 1)}
+                  className={page === 1 ? 'pointer-events-none opacity-50' : undefined}
+                />
+              </PaginationItem>
+              {visiblePages.map((p, i) => (
+                <PaginationItem key={p}>
+                  {i > 0 && p - visiblePages[i - 1] > 1 ? (
+                    <div className="flex items-center">
+                      <PaginationEllipsis />
+                      <PaginationLink href={pageHref(p)} isActive={p === page} onClick={(e) => goToPage(e, p)}>
+                        {p}
+                      </PaginationLink>
+                    </div>
+                  ) : (
+                    <PaginationLink href={pageHref(p)} isActive={p === page} onClick={(e) => goToPage(e, p)}>
+                      {p}
+                    </PaginationLink>
+                  )}
+                </PaginationItem>
+              ))}
+              <PaginationItem>
+                <PaginationNext
+                  href={pageHref(Math.min(pageCount, page + 1))}
+                  onClick={(e) => goToPage(e, page + 1)}
+                  className={page === pageCount ? 'pointer-events-none opacity-50' : undefined}
+                />
+              </PaginationItem>
+            </PaginationContent>
+          </Pagination>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AdminReferralsTable;
@@ -0,0 +1,252 @@
+import { useState, useEffect } from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import { toast } from '@/hooks/use-toast';
+import { formatCurrency } from '@/lib/format';
+import { X } from 'lucide-react';
+
+type Functions = Database['public']['Functions'];
+type FunnelStage = Functions['get_stage_funnel']['Returns'][number];
+type WeeklyCount = Functions['get_weekly_referral_counts']['Returns'][number];
+type TopReferrer = Functions['get_top_referrers']['Returns'][number];
+type BonusLiability = Functions['get_bonus_liability']['Returns'][number];
+
+const funnelChartConfig = {
+  reached: { label: 'Referrals', color: 'hsl(var(--primary))' }
+} satisfies ChartConfig;
+
+const weeklyChartConfig = {
+  referral_count: { label: 'Referrals', color: 'hsl(var(--primary))' }
+} satisfies ChartConfig;
+
+const formatPercent = (value: number | null) => value === null ? '—' : `${value}%`;
+
+const AnalyticsDashboard = () => {
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [funnel, setFunnel] = useState<FunnelStage[]>([]);
+  const [weekly, setWeekly] = useState<WeeklyCount[]>([]);
+  const [topReferrers, setTopReferrers] = useState<TopReferrer[]>([]);
+  const [liability, setLiability] = useState<BonusLiability | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchAnalytics();
+  }, [fromDate, toDate]);
+
+  const fetchAnalytics = async () => {
+    setLoading(true);
+    try {
+      // Dates are picked in the admin's local time zone; "to" includes the whole day
+      const range: { _from?: string; _to?: string } = {};
+      if (fromDate) range._from = new Date(`${fromDate}T00:00:00`).toISOString();
+      if (toDate) {
+        const end = new Date(`${toDate}T00:00:00`);
+        end.setDate(end.getDate() + 1);
+        range._to = end.toISOString();
+      }
+
+      const [funnelResult, weeklyResult, topResult, liabilityResult] = await Promise.all([
+        supabase.rpc('get_stage_funnel', range),
+        supabase.rpc('get_weekly_referral_counts', range),
+        supabase.rpc('get_top_referrers', range),
+        supabase.rpc('get_bonus_liability', range)
+      ]);
+
+      const failed = [funnelResult, weeklyResult, topResult, liabilityResult].find(result => result.error);
+      if (failed) throw failed.error;
+
+      setFunnel(funnelResult.data || []);
+      setWeekly(weeklyResult.data || []);
+      setTopReferrers(topResult.data || []);
+      setLiability(liabilityResult.data?.[0] ?? null);
+    } catch (error) {
+      console.error('Error fetching analytics:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch analytics",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const clearDates = () => {
+    setFromDate('');
+    setToDate('');
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+            <div>
+              <CardTitle>Program Analytics</CardTitle>
+              <CardDescription>
+                Referrals created in the selected period. Confirmed duplicates are left out.
+              </CardDescription>
+            </div>
+            <div className="flex items-end gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="analytics_from">Created From</Label>
+                <Input
+                  id="analytics_from"
+                  type="date"
+                  value={fromDate}
+                  max={toDate || undefined}
+                  onChange={(e) => setFromDate(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="analytics_to">Created To</Label>
+                <Input
+                  id="analytics_to"
+                  type="date"
+                  value={toDate}
+                  min={fromDate || undefined}
+                  onChange={(e) => setToDate(e.target.value)}
+                />
+              </div>
+              {(fromDate || toDate) && (
+                <Button variant="ghost" size="sm" onClick={clearDates} className="flex items-center gap-1">
+                  <X className="h-4 w-4" />
+                  All time
+                </Button>
+              )}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="rounded-lg border p-4">
+              <p className="text-sm text-muted-foreground">Pending bonus liability</p>
+              <p className="text-2xl font-bold">{formatCurrency(liability?.pending_total ?? 0)}</p>
+              <p className="text-xs text-muted-foreground">{liability?.pending_count ?? 0} open referrals with a bonus owed</p>
+            </div>
+            <div className="rounded-lg border p-4">
+              <p className="text-sm text-muted-foreground">Bonuses paid</p>
+              <p className="text-2xl font-bold">{formatCurrency(liability?.paid_total ?? 0)}</p>
+              <p className="text-xs text-muted-foreground">{liability?.paid_count ?? 0} referrals paid</p>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Stage Funnel</CardTitle>
+          <CardDescription>
+            Referrals that reached each stage, including those later closed as lost or cancelled
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <ChartContainer config={funnelChartConfig} className="h-[250px] w-full">
+            <BarChart data={funnel} layout="vertical" margin={{ left: 24 }}>
+              <CartesianGrid horizontal={false} />
+              <XAxis type="number" allowDecimals={false} />
+              <YAxis type="category" dataKey="label" width={140} tickLine={false} axisLine={false} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey="reached" fill="var(--color-reached)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Stage</TableHead>
+                <TableHead>Reached</TableHead>
+                <TableHead>From start</TableHead>
+                <TableHead>From previous</TableHead>
+                <TableHead>Median days from previous</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {funnel.map((stage) => (
+                <TableRow key={stage.stage}>
+                  <TableCell className="font-medium">{stage.label}</TableCell>
+                  <TableCell>{stage.reached}</TableCell>
+                  <TableCell>{formatPercent(stage.conversion_from_start)}</TableCell>
+                  <TableCell>{formatPercent(stage.conversion_from_previous)}</TableCell>
+                  <TableCell>{stage.median_days_from_previous ?? '—'}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <Card>
+          <CardHeader>
+            <CardTitle>Referrals per Week</CardTitle>
+            <CardDescription>Weeks start on Monday</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {!loading && weekly.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">No referrals in this period.</p>
+            ) : (
+              <ChartContainer config={weeklyChartConfig} className="h-[250px] w-full">
+                <BarChart data={weekly}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis
+                    dataKey="week_start"
+                    tickLine={false}
+                    tickFormatter={(value: string) => new Date(`${value}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+                  />
+                  <YAxis allowDecimals={false} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="referral_count" fill="var(--color-referral_count)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Top Referrers</CardTitle>
+            <CardDescription>Ranked by completed referrals</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Referrer</TableHead>
+                  <TableHead>Referrals</TableHead>
+                  <TableHead>Completed</TableHead>
+                  <TableHead>Bonuses</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {topReferrers.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center text-muted-foreground">
+                      No referrals in this period.
+                    </TableCell>
+                  </TableRow>
+                ) : topReferrers.map((referrer) => (
+                  <TableRow key={referrer.user_id}>
+                    <TableCell className="font-medium">{referrer.name || 'Unknown User'}</TableCell>
+                    <TableCell>{referrer.referral_count}</TableCell>
+                    <TableCell>{referrer.completed_count}</TableCell>
+                    <TableCell>{formatCurrency(referrer.bonus_total)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default AnalyticsDashboard;
@@ -0,0 +1,224 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { toast } from '@/hooks/use-toast';
+import { useSalesReps } from '@/hooks/useSalesReps';
+import {
+  AssignmentMode,
+  addSalesTerritory,
+  assignmentModeLabels,
+  removeSalesTerritory,
+  setAssignmentMode
+} from '@/lib/referralAssignments';
+import { Trash2 } from 'lucide-react';
+
+const AssignmentSettings = () => {
+  const [mode, setMode] = useState<AssignmentMode>('round_robin');
+  const [territories, setTerritories] = useState<Tables<'sales_territories'>[]>([]);
+  const [newTerritory, setNewTerritory] = useState({ user_id: '', zip_prefix: '' });
+  const [isSaving, setIsSaving] = useState(false);
+  const { salesReps, salesRepName } = useSalesReps();
+
+  useEffect(() => {
+    fetchMode();
+    fetchTerritories();
+  }, []);
+
+  const fetchMode = async () => {
+    const { data, error } = await supabase
+      .from('program_settings')
+      .select('value')
+      .eq('key', 'referral_assignment')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching assignment mode:', error);
+      return;
+    }
+    if (typeof data?.value === 'string') setMode(data.value as AssignmentMode);
+  };
+
+  const fetchTerritories = async () => {
+    const { data, error } = await supabase
+      .from('sales_territories')
+      .select('*')
+      .order('zip_prefix', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching sales territories:', error);
+      return;
+    }
+    setTerritories(data || []);
+  };
+
+  const handleModeChange = async (value: AssignmentMode) => {
+    try {
+      await setAssignmentMode(value);
+      setMode(value);
+      toast({
+        title: "Success",
+        description: `New referrals will be assigned by "${assignmentModeLabels[value]}"`
+      });
+    } catch (error) {
+      console.error('Error updating assignment mode:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update assignment mode",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleAddTerritory = async () => {
+    setIsSaving(true);
+    try {
+      await addSalesTerritory(newTerritory.user_id, newTerritory.zip_prefix);
+      toast({
+        title: "Success",
+        description: `ZIP codes starting ${newTerritory.zip_prefix.trim()} go to ${salesRepName(newTerritory.user_id)}`
+      });
+      setNewTerritory({ user_id: '', zip_prefix: '' });
+      fetchTerritories();
+    } catch (error) {
+      console.error('Error adding sales territory:', error);
+      toast({
+        title: "Error",
+        description: error.code === '23505'
+          ? 'That ZIP code prefix already belongs to a sales rep'
+          : error.message || "Failed to add territory",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemoveTerritory = async (territory: Tables<'sales_territories'>) => {
+    try {
+      await removeSalesTerritory(territory.id);
+      fetchTerritories();
+    } catch (error) {
+      console.error('Error removing sales territory:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to remove territory",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
+          <div>
+            <CardTitle>Automatic Assignment</CardTitle>
+            <CardDescription>
+              How new referrals are given to sales reps. Reassign a referral from its edit dialog at any time.
+            </CardDescription>
+          </div>
+          <div className="space-y-2">
+            <Label>Assign new referrals</Label>
+            <Select value={mode} onValueChange={handleModeChange}>
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(assignmentModeLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          {mode === 'off'
+            ? 'New referrals stay unassigned until an admin assigns them.'
+            : mode === 'round_robin'
+              ? 'Each new referral goes to the active sales rep who was given one automatically the longest time ago.'
+              : 'New referrals go to the rep whose ZIP code prefix matches the client\'s address (the longest match wins), or by round robin when none does.'}
+        </p>
+
+        {mode === 'territory' && (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>ZIP Code Prefix</TableHead>
+                  <TableHead>Sales Rep</TableHead>
+                  <TableHead className="w-16"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {territories.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={3} className="text-center text-muted-foreground">
+                      No territories yet.
+                    </TableCell>
+                  </TableRow>
+                )}
+                {territories.map((territory) => (
+                  <TableRow key={territory.id}>
+                    <TableCell className="font-mono">{territory.zip_prefix}</TableCell>
+                    <TableCell>{salesRepName(territory.user_id)}</TableCell>
+                    <TableCell>
+                      <Button variant="outline" size="sm" onClick={() => handleRemoveTerritory(territory)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+              <div className="space-y-2">
+                <Label htmlFor="territory_zip_prefix">ZIP Code Prefix</Label>
+                <Input
+                  id="territory_zip_prefix"
+                  value={newTerritory.zip_prefix}
+                  onChange={(e) => setNewTerritory({ ...newTerritory, zip_prefix: e.target.value })}
+                  placeholder="e.g. 770"
+                  maxLength={5}
+                  inputMode="numeric"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Sales Rep</Label>
+                <Select
+                  value={newTerritory.user_id}
+                  onValueChange={(value) => setNewTerritory({ ...newTerritory, user_id: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a sales rep" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {salesReps.map((rep) => (
+                      <SelectItem key={rep.user_id} value={rep.user_id}>{rep.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button
+                onClick={handleAddTerritory}
+                disabled={isSaving || !newTerritory.user_id || !/^\d{1,5}$/.test(newTerritory.zip_prefix.trim())}
+              >
+                {isSaving ? 'Adding...' : 'Add Territory'}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AssignmentSettings;
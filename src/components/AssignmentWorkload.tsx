@@ -0,0 +1,101 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import { toast } from '@/hooks/use-toast';
+import { useReferralStages } from '@/hooks/useReferralStages';
+import { useReferralChanges } from '@/hooks/useReferralChanges';
+import { useSalesReps } from '@/hooks/useSalesReps';
+import StageBadge from '@/components/StageBadge';
+import { StaffPermissions } from '@/lib/userAccounts';
+
+type WorkloadRow = Database['public']['Functions']['get_assignment_workload']['Returns'][number];
+
+interface AssignmentWorkloadProps {
+  permissions: StaffPermissions;
+}
+
+const AssignmentWorkload = ({ permissions }: AssignmentWorkloadProps) => {
+  const [workload, setWorkload] = useState<WorkloadRow[]>([]);
+  const { stages } = useReferralStages();
+  const { salesReps, salesRepName } = useSalesReps();
+
+  useEffect(() => {
+    fetchWorkload();
+  }, []);
+
+  useReferralChanges(() => fetchWorkload());
+
+  const fetchWorkload = async () => {
+    const { data, error } = await supabase.rpc('get_assignment_workload');
+
+    if (error) {
+      console.error('Error fetching workload:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch workload",
+        variant: "destructive"
+      });
+      return;
+    }
+    setWorkload(data || []);
+  };
+
+  // Everyone who can see all referrals gets every rep, including those with nothing open.
+  // Sales reps only see their own referrals, so only their own row.
+  const assignees = [...new Set([
+    ...(permissions.viewAllReferrals ? salesReps.map(rep => rep.user_id) : []),
+    ...workload.map(row => row.assigned_to)
+  ])].sort((a, b) => {
+    if (a === null) return 1;
+    if (b === null) return -1;
+    return salesRepName(a).localeCompare(salesRepName(b));
+  });
+
+  const countFor = (assignee: string | null, stage?: string) =>
+    workload
+      .filter(row => row.assigned_to === assignee && (stage === undefined || row.stage === stage))
+      .reduce((sum, row) => sum + Number(row.open_count), 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Workload</CardTitle>
+        <CardDescription>Open referrals per sales rep and stage. Duplicates are left out.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {assignees.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No open referrals.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Sales Rep</TableHead>
+                {stages.map((stage) => (
+                  <TableHead key={stage.key}>
+                    <StageBadge stageKey={stage.key} stages={stages} />
+                  </TableHead>
+                ))}
+                <TableHead>Total</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {assignees.map((assignee) => (
+                <TableRow key={assignee ?? 'unassigned'}>
+                  <TableCell className="font-medium">{salesRepName(assignee)}</TableCell>
+                  {stages.map((stage) => (
+                    <TableCell key={stage.key}>{countFor(assignee, stage.key) || '—'}</TableCell>
+                  ))}
+                  <TableCell className="font-medium">{countFor(assignee)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AssignmentWorkload;
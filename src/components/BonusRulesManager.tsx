@@ -0,0 +1,343 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { useReferralStages } from '@/hooks/useReferralStages';
+import { getStageLabel } from '@/lib/referralStages';
+import { formatCurrency } from '@/lib/format';
+import { Plus, RefreshCw, Trash2 } from 'lucide-react';
+
+interface BonusRule {
+  id: string;
+  rule_type: string;
+  name: string;
+  amount: number;
+  min_installs: number | null;
+  stage: string | null;
+  is_active: boolean;
+}
+
+const ruleTypeLabels: Record<string, string> = {
+  flat: 'Flat (on install)',
+  tiered: 'Tiered (by installs)',
+  milestone: 'Stage milestone'
+};
+
+const emptyRule = {
+  rule_type: 'flat',
+  name: '',
+  amount: '',
+  min_installs: '',
+  stage: ''
+};
+
+interface BonusRulesManagerProps {
+  onRecalculated?: () => void;
+}
+
+const BonusRulesManager = ({ onRecalculated }: BonusRulesManagerProps) => {
+  const { stages } = useReferralStages();
+  const [rules, setRules] = useState<BonusRule[]>([]);
+  const [newRule, setNewRule] = useState(emptyRule);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isRecalculating, setIsRecalculating] = useState(false);
+
+  useEffect(() => {
+    fetchRules();
+  }, []);
+
+  const fetchRules = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('bonus_rules')
+        .select('*')
+        .order('rule_type')
+        .order('min_installs', { ascending: true, nullsFirst: true });
+
+      if (error) throw error;
+      setRules(data || []);
+    } catch (error) {
+      console.error('Error fetching bonus rules:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch bonus rules",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleAddRule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from('bonus_rules')
+        .insert([{
+          rule_type: newRule.rule_type,
+          name: newRule.name,
+          amount: Number(newRule.amount),
+          min_installs: newRule.rule_type === 'tiered' ? Number(newRule.min_installs) : null,
+          stage: newRule.rule_type === 'milestone' ? newRule.stage || null : null
+        }]);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Bonus rule added successfully"
+      });
+
+      setNewRule(emptyRule);
+      fetchRules();
+    } catch (error) {
+      console.error('Error adding bonus rule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add bonus rule",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleRule = async (rule: BonusRule) => {
+    const { error } = await supabase
+      .from('bonus_rules')
+      .update({ is_active: !rule.is_active })
+      .eq('id', rule.id);
+
+    if (error) {
+      console.error('Error updating bonus rule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update bonus rule",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    fetchRules();
+  };
+
+  const handleDeleteRule = async (rule: BonusRule) => {
+    const { error } = await supabase
+      .from('bonus_rules')
+      .delete()
+      .eq('id', rule.id);
+
+    if (error) {
+      console.error('Error deleting bonus rule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete bonus rule",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    fetchRules();
+  };
+
+  const handleRecalculate = async () => {
+    setIsRecalculating(true);
+    try {
+      const { data, error } = await supabase.rpc('recalculate_pending_bonus_amounts');
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `Recalculated ${data} pending bonus${data === 1 ? '' : 'es'}`
+      });
+
+      onRecalculated?.();
+    } catch (error) {
+      console.error('Error recalculating bonuses:', error);
+      toast({
+        title: "Error",
+        description: "Failed to recalculate pending bonuses",
+        variant: "destructive"
+      });
+    } finally {
+      setIsRecalculating(false);
+    }
+  };
+
+  const describeRule = (rule: BonusRule) => {
+    switch (rule.rule_type) {
+      case 'tiered': return `From install #${rule.min_installs}`;
+      case 'milestone': return `On reaching "${getStageLabel(stages, rule.stage ?? '')}"`;
+      default: return 'On reaching a bonus-eligible stage';
+    }
+  };
+
+  const isNewRuleValid = newRule.name && newRule.amount !== '' &&
+    (newRule.rule_type !== 'tiered' || Number(newRule.min_installs) >= 1) &&
+    (newRule.rule_type !== 'milestone' || newRule.stage);
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle>Bonus Rules</CardTitle>
+              <CardDescription>
+                Milestone rules add up as a referral advances. On install, the highest matching tier
+                replaces the flat amount.
+              </CardDescription>
+            </div>
+            <Button variant="outline" onClick={handleRecalculate} disabled={isRecalculating} className="flex items-center gap-2">
+              <RefreshCw className="h-4 w-4" />
+              {isRecalculating ? 'Recalculating...' : 'Apply to Pending Bonuses'}
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Applies</TableHead>
+                <TableHead>Amount</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">
+                    No bonus rules configured. Referrals will earn no bonus.
+                  </TableCell>
+                </TableRow>
+              ) : rules.map((rule) => (
+                <TableRow key={rule.id}>
+                  <TableCell className="font-medium">{rule.name}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{ruleTypeLabels[rule.rule_type]}</Badge>
+                  </TableCell>
+                  <TableCell>{describeRule(rule)}</TableCell>
+                  <TableCell>{formatCurrency(rule.amount)}</TableCell>
+                  <TableCell>
+                    <Switch checked={rule.is_active} onCheckedChange={() => handleToggleRule(rule)} />
+                  </TableCell>
+                  <TableCell>
+                    <Button variant="outline" size="sm" onClick={() => handleDeleteRule(rule)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Plus className="h-5 w-5" />
+            Add Bonus Rule
+          </CardTitle>
+          <CardDescription>
+            New rules apply to referrals as they change stage
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleAddRule} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="rule_type">Rule Type *</Label>
+                <Select
+                  value={newRule.rule_type}
+                  onValueChange={(value) => setNewRule({...newRule, rule_type: value})}
+                >
+                  <SelectTrigger id="rule_type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="flat">{ruleTypeLabels.flat}</SelectItem>
+                    <SelectItem value="tiered">{ruleTypeLabels.tiered}</SelectItem>
+                    <SelectItem value="milestone">{ruleTypeLabels.milestone}</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule_name">Name *</Label>
+                <Input
+                  id="rule_name"
+                  required
+                  value={newRule.name}
+                  onChange={(e) => setNewRule({...newRule, name: e.target.value})}
+                  placeholder="e.g. Installation bonus"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule_amount">Amount ($) *</Label>
+                <Input
+                  id="rule_amount"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  required
+                  value={newRule.amount}
+                  onChange={(e) => setNewRule({...newRule, amount: e.target.value})}
+                />
+              </div>
+            </div>
+
+            {newRule.rule_type === 'tiered' && (
+              <div className="space-y-2">
+                <Label htmlFor="min_installs">Minimum Installs *</Label>
+                <Input
+                  id="min_installs"
+                  type="number"
+                  min="1"
+                  required
+                  value={newRule.min_installs}
+                  onChange={(e) => setNewRule({...newRule, min_installs: e.target.value})}
+                  placeholder="Applies from this install onwards"
+                />
+              </div>
+            )}
+
+            {newRule.rule_type === 'milestone' && (
+              <div className="space-y-2">
+                <Label>Stage *</Label>
+                <Select
+                  value={newRule.stage}
+                  onValueChange={(value) => setNewRule({...newRule, stage: value})}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a stage" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {stages.map((stage) => (
+                      <SelectItem key={stage.key} value={stage.key}>{stage.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <Button type="submit" disabled={isSaving || !isNewRuleValid} className="w-full">
+              {isSaving ? 'Adding Rule...' : 'Add Rule'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default BonusRulesManager;
@@ -0,0 +1,305 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { formatCurrency } from '@/lib/format';
+import { Check, X } from 'lucide-react';
+
+interface ComparedReferral {
+  id: string;
+  client_name: string;
+  client_email: string | null;
+  client_phone: string | null;
+  client_address: string | null;
+  stage: string;
+  bonus_status: string;
+  bonus_amount: number;
+  created_at: string;
+  profiles: { name: string | null } | null;
+}
+
+interface ReferralDuplicate {
+  id: string;
+  matched_on: string[];
+  status: string;
+  reviewed_at: string | null;
+  created_at: string;
+  referral: ComparedReferral;
+  original: ComparedReferral;
+}
+
+const referralColumns = `
+  id, client_name, client_email, client_phone, client_address,
+  stage, bonus_status, bonus_amount, created_at,
+  profiles(name)
+`;
+
+const attributionRuleLabels: Record<string, string> = {
+  first_referral_wins: 'First referral wins',
+  manual_review: 'Manual review'
+};
+
+const comparedFields: { label: string; matchKey?: string; value: (r: ComparedReferral) => string }[] = [
+  { label: 'Referrer', value: (r) => r.profiles?.name || 'Unknown User' },
+  { label: 'Client', value: (r) => r.client_name },
+  { label: 'Email', matchKey: 'email', value: (r) => r.client_email || 'N/A' },
+  { label: 'Phone', matchKey: 'phone', value: (r) => r.client_phone || 'N/A' },
+  { label: 'Address', matchKey: 'address', value: (r) => r.client_address || 'N/A' },
+  { label: 'Stage', value: (r) => r.stage },
+  { label: 'Bonus', value: (r) => `${formatCurrency(r.bonus_amount)} (${r.bonus_status})` },
+  { label: 'Submitted', value: (r) => new Date(r.created_at).toLocaleString() }
+];
+
+interface DuplicateReferralsReviewProps {
+  onChange?: () => void;
+}
+
+const DuplicateReferralsReview = ({ onChange }: DuplicateReferralsReviewProps) => {
+  const [duplicates, setDuplicates] = useState<ReferralDuplicate[]>([]);
+  const [statusFilter, setStatusFilter] = useState('pending');
+  const [attributionRule, setAttributionRule] = useState('first_referral_wins');
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchAttributionRule();
+  }, []);
+
+  useEffect(() => {
+    fetchDuplicates();
+  }, [statusFilter]);
+
+  const fetchAttributionRule = async () => {
+    const { data, error } = await supabase
+      .from('program_settings')
+      .select('value')
+      .eq('key', 'duplicate_attribution')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching attribution rule:', error);
+      return;
+    }
+    if (typeof data?.value === 'string') setAttributionRule(data.value);
+  };
+
+  const fetchDuplicates = async () => {
+    try {
+      let query = supabase
+        .from('referral_duplicates')
+        .select(`
+          id, matched_on, status, reviewed_at, created_at,
+          referral:referrals!referral_duplicates_referral_id_fkey(${referralColumns}),
+          original:referrals!referral_duplicates_original_referral_id_fkey(${referralColumns})
+        `)
+        .order('created_at', { ascending: false });
+
+      if (statusFilter !== 'all') {
+        query = query.eq('status', statusFilter);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      setDuplicates((data || []) as unknown as ReferralDuplicate[]);
+    } catch (error) {
+      console.error('Error fetching duplicate referrals:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch duplicate referrals",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleAttributionRuleChange = async (value: string) => {
+    const { error } = await supabase
+      .from('program_settings')
+      .update({ value })
+      .eq('key', 'duplicate_attribution');
+
+    if (error) {
+      console.error('Error updating attribution rule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update attribution rule",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setAttributionRule(value);
+    toast({
+      title: "Success",
+      description: `New duplicates will use "${attributionRuleLabels[value]}"`
+    });
+  };
+
+  const handleResolve = async (duplicate: ReferralDuplicate, status: 'confirmed' | 'dismissed') => {
+    setResolvingId(duplicate.id);
+    try {
+      const { error } = await supabase.rpc('resolve_referral_duplicate', {
+        _duplicate_id: duplicate.id,
+        _status: status
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: status === 'confirmed'
+          ? `${duplicate.referral.client_name} attributed to the original referral`
+          : 'Marked as not a duplicate'
+      });
+
+      fetchDuplicates();
+      onChange?.();
+    } catch (error) {
+      console.error('Error resolving duplicate referral:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to resolve duplicate referral",
+        variant: "destructive"
+      });
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'confirmed': return 'bg-red-100 text-red-800';
+      case 'dismissed': return 'bg-gray-100 text-gray-800';
+      default: return 'bg-yellow-100 text-yellow-800';
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
+            <div>
+              <CardTitle>Duplicate Referrals</CardTitle>
+              <CardDescription>
+                Referrals sharing a client email, phone number or address with an earlier referral.
+                Confirmed duplicates are attributed to the earlier referral and earn no bonus.
+              </CardDescription>
+            </div>
+            <div className="flex gap-4">
+              <div className="space-y-2">
+                <Label>Attribution rule</Label>
+                <Select value={attributionRule} onValueChange={handleAttributionRuleChange}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(attributionRuleLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Status</Label>
+                <Select value={statusFilter} onValueChange={setStatusFilter}>
+                  <SelectTrigger className="w-36">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="pending">Pending</SelectItem>
+                    <SelectItem value="confirmed">Confirmed</SelectItem>
+                    <SelectItem value="dismissed">Dismissed</SelectItem>
+                    <SelectItem value="all">All</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-muted-foreground">
+            {attributionRule === 'first_referral_wins'
+              ? 'New duplicates are attributed to the earlier referral straight away. Dismiss one to restore its bonus.'
+              : 'New duplicates keep their bonus until you confirm them here.'}
+          </p>
+        </CardContent>
+      </Card>
+
+      {duplicates.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-8">
+            <p className="text-muted-foreground">No duplicate referrals to show.</p>
+          </CardContent>
+        </Card>
+      ) : duplicates.map((duplicate) => (
+        <Card key={duplicate.id}>
+          <CardHeader>
+            <div className="flex justify-between items-start gap-4">
+              <div className="space-y-1">
+                <CardTitle className="text-lg">{duplicate.referral.client_name}</CardTitle>
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <span>Matched on</span>
+                  {duplicate.matched_on.map((field) => (
+                    <Badge key={field} variant="outline">{field}</Badge>
+                  ))}
+                </div>
+              </div>
+              <Badge className={getStatusColor(duplicate.status)}>{duplicate.status}</Badge>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-32"></TableHead>
+                  <TableHead>Original referral</TableHead>
+                  <TableHead>Possible duplicate</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {comparedFields.map((field) => (
+                  <TableRow
+                    key={field.label}
+                    className={field.matchKey && duplicate.matched_on.includes(field.matchKey) ? 'bg-yellow-50' : undefined}
+                  >
+                    <TableCell className="font-medium">{field.label}</TableCell>
+                    <TableCell>{field.value(duplicate.original)}</TableCell>
+                    <TableCell>{field.value(duplicate.referral)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <div className="flex gap-2 justify-end">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={resolvingId === duplicate.id || duplicate.status === 'dismissed'}
+                onClick={() => handleResolve(duplicate, 'dismissed')}
+                className="flex items-center gap-2"
+              >
+                <X className="h-4 w-4" />
+                Not a Duplicate
+              </Button>
+              <Button
+                size="sm"
+                disabled={resolvingId === duplicate.id || duplicate.status === 'confirmed'}
+                onClick={() => handleResolve(duplicate, 'confirmed')}
+                className="flex items-center gap-2"
+              >
+                <Check className="h-4 w-4" />
+                Confirm Duplicate
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+};
+
+export default DuplicateReferralsReview;
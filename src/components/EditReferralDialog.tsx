@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { Edit } from 'lucide-react';
+
+interface EditableReferral {
+  id: string;
+  client_name: string;
+  client_email: string | null;
+  client_phone: string | null;
+  client_address: string | null;
+}
+
+interface EditReferralDialogProps {
+  referral: EditableReferral;
+  onSaved: () => void;
+}
+
+const toFormValues = (referral: EditableReferral) => ({
+  client_name: referral.client_name,
+  client_email: referral.client_email || '',
+  client_phone: referral.client_phone || '',
+  client_address: referral.client_address || ''
+});
+
+const EditReferralDialog = ({ referral, onSaved }: EditReferralDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [values, setValues] = useState(toFormValues(referral));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (isOpen) setValues(toFormValues(referral));
+    setOpen(isOpen);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+
+    try {
+      const { error } = await supabase
+        .from('referrals')
+        .update(values)
+        .eq('id', referral.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Referral updated successfully"
+      });
+
+      setOpen(false);
+      onSaved();
+    } catch (error) {
+      console.error('Error updating referral:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update referral",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center gap-2">
+          <Edit className="h-4 w-4" />
+          Edit
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Edit Referral</DialogTitle>
+          <DialogDescription>
+            Client details can be corrected until the client signs.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor={`edit_client_name_${referral.id}`}>Client Name *</Label>
+            <Input
+              id={`edit_client_name_${referral.id}`}
+              required
+              value={values.client_name}
+              onChange={(e) => setValues({...values, client_name: e.target.value})}
+            />
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor={`edit_client_email_${referral.id}`}>Client Email</Label>
+              <Input
+                id={`edit_client_email_${referral.id}`}
+                type="email"
+                value={values.client_email}
+                onChange={(e) => setValues({...values, client_email: e.target.value})}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`edit_client_phone_${referral.id}`}>Client Phone</Label>
+              <Input
+                id={`edit_client_phone_${referral.id}`}
+                value={values.client_phone}
+                onChange={(e) => setValues({...values, client_phone: e.target.value})}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`edit_client_address_${referral.id}`}>Client Address</Label>
+            <Textarea
+              id={`edit_client_address_${referral.id}`}
+              value={values.client_address}
+              onChange={(e) => setValues({...values, client_address: e.target.value})}
+              rows={3}
+            />
+          </div>
+          <Button type="submit" disabled={isSaving} className="w-full">
+            {isSaving ? 'Saving...' : 'Save Changes'}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EditReferralDialog;
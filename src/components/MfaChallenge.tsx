@@ -0,0 +1,132 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { resetMfaWithRecoveryCode } from '@/lib/mfa';
+import { KeyRound } from 'lucide-react';
+
+interface MfaChallengeProps {
+  onVerified: () => void;
+  /** Called after a recovery code removed the user's factors; they enroll again next */
+  onReset: () => void;
+}
+
+const MfaChallenge = ({ onVerified, onReset }: MfaChallengeProps) => {
+  const [code, setCode] = useState('');
+  const [recoveryCode, setRecoveryCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsVerifying(true);
+    try {
+      const { data: factors, error: listError } = await supabase.auth.mfa.listFactors();
+      if (listError) throw listError;
+
+      const factor = factors.totp[0];
+      if (!factor) throw new Error('No authenticator app is set up for this account');
+
+      const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId: factor.id, code });
+      if (error) throw error;
+
+      onVerified();
+    } catch (error) {
+      console.error('Error verifying MFA code:', error);
+      setCode('');
+      toast({
+        title: "Error",
+        description: error.message || "That code did not work. Try the latest one from your app.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const handleRecover = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsVerifying(true);
+    try {
+      await resetMfaWithRecoveryCode(recoveryCode);
+      // Pick up the user's factor list without the removed factors
+      await supabase.auth.refreshSession();
+
+      toast({
+        title: "Success",
+        description: "Recovery code accepted. Set up your authenticator app again."
+      });
+
+      onReset();
+    } catch (error) {
+      console.error('Error using recovery code:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to use recovery code",
+        variant: "destructive"
+      });
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  return (
+    <Card className="max-w-md mx-auto">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          Two-Factor Authentication
+        </CardTitle>
+        <CardDescription>
+          {useRecoveryCode
+            ? 'Enter one of the recovery codes you saved when you set up your authenticator app.'
+            : 'Enter the 6-digit code from your authenticator app to open the admin panel.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {useRecoveryCode ? (
+          <form onSubmit={handleRecover} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="mfa_recovery_code">Recovery Code</Label>
+              <Input
+                id="mfa_recovery_code"
+                placeholder="XXXXX-XXXXX"
+                autoComplete="off"
+                value={recoveryCode}
+                onChange={(e) => setRecoveryCode(e.target.value)}
+                className="font-mono"
+              />
+            </div>
+            <Button type="submit" disabled={isVerifying || !recoveryCode.trim()} className="w-full">
+              {isVerifying ? 'Checking...' : 'Use Recovery Code'}
+            </Button>
+          </form>
+        ) : (
+          <form onSubmit={handleVerify} className="space-y-4">
+            <div className="flex justify-center">
+              <InputOTP maxLength={6} value={code} onChange={setCode} autoFocus>
+                <InputOTPGroup>
+                  {[0, 1, 2, 3, 4, 5].map((index) => (
+                    <InputOTPSlot key={index} index={index} />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+            </div>
+            <Button type="submit" disabled={isVerifying || code.length !== 6} className="w-full">
+              {isVerifying ? 'Verifying...' : 'Verify'}
+            </Button>
+          </form>
+        )}
+        <Button variant="link" className="w-full" onClick={() => setUseRecoveryCode(!useRecoveryCode)}>
+          {useRecoveryCode ? 'Use my authenticator app instead' : 'Lost your authenticator? Use a recovery code'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MfaChallenge;
@@ -0,0 +1,144 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import RecoveryCodesList from '@/components/RecoveryCodesList';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { generateRecoveryCodes } from '@/lib/mfa';
+import { ShieldCheck } from 'lucide-react';
+
+interface MfaEnrollmentProps {
+  onEnrolled: () => void;
+}
+
+interface PendingFactor {
+  id: string;
+  qrCode: string;
+  secret: string;
+}
+
+const MfaEnrollment = ({ onEnrolled }: MfaEnrollmentProps) => {
+  const [factor, setFactor] = useState<PendingFactor | null>(null);
+  const [code, setCode] = useState('');
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  useEffect(() => {
+    startEnrollment();
+  }, []);
+
+  const startEnrollment = async () => {
+    try {
+      // Drop factors left over from an enrollment that was never finished
+      const { data: existing, error: listError } = await supabase.auth.mfa.listFactors();
+      if (listError) throw listError;
+      for (const stale of existing.all.filter(f => f.status === 'unverified')) {
+        await supabase.auth.mfa.unenroll({ factorId: stale.id });
+      }
+
+      const { data, error } = await supabase.auth.mfa.enroll({
+        factorType: 'totp',
+        friendlyName: 'Authenticator app'
+      });
+      if (error) throw error;
+
+      setFactor({ id: data.id, qrCode: data.totp.qr_code, secret: data.totp.secret });
+    } catch (error) {
+      console.error('Error starting MFA enrollment:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to start setting up your authenticator",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!factor) return;
+    setIsVerifying(true);
+    try {
+      const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId: factor.id, code });
+      if (error) throw error;
+
+      // The session is now aal2, which generating recovery codes requires
+      setRecoveryCodes(await generateRecoveryCodes());
+    } catch (error) {
+      console.error('Error verifying MFA enrollment:', error);
+      setCode('');
+      toast({
+        title: "Error",
+        description: error.message || "That code did not work. Try the latest one from your app.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  if (recoveryCodes) {
+    return (
+      <Card className="max-w-lg mx-auto">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Save Your Recovery Codes
+          </CardTitle>
+          <CardDescription>Your authenticator app is set up.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <RecoveryCodesList codes={recoveryCodes} />
+          <Button onClick={onEnrolled} className="w-full">
+            I've Saved My Codes
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="max-w-lg mx-auto">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Set Up Two-Factor Authentication
+        </CardTitle>
+        <CardDescription>
+          Staff accounts can see client details and payouts, so they need a second step at sign-in.
+          Scan the code with an authenticator app such as Google Authenticator, 1Password or Authy.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!factor ? (
+          <p className="text-center text-muted-foreground">Loading...</p>
+        ) : (
+          <form onSubmit={handleVerify} className="space-y-4">
+            <div className="flex flex-col items-center gap-2">
+              <img src={factor.qrCode} alt="Authenticator QR code" className="h-44 w-44" />
+              <p className="text-xs text-muted-foreground">
+                Can't scan it? Enter this key instead: <span className="font-mono break-all">{factor.secret}</span>
+              </p>
+            </div>
+            <div className="space-y-2 flex flex-col items-center">
+              <Label htmlFor="mfa_enroll_code">6-digit code from the app</Label>
+              <InputOTP id="mfa_enroll_code" maxLength={6} value={code} onChange={setCode}>
+                <InputOTPGroup>
+                  {[0, 1, 2, 3, 4, 5].map((index) => (
+                    <InputOTPSlot key={index} index={index} />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+            </div>
+            <Button type="submit" disabled={isVerifying || code.length !== 6} className="w-full">
+              {isVerifying ? 'Verifying...' : 'Verify and Turn On'}
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MfaEnrollment;
@@ -0,0 +1,84 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import RecoveryCodesList from '@/components/RecoveryCodesList';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { generateRecoveryCodes } from '@/lib/mfa';
+import { RefreshCw, ShieldCheck } from 'lucide-react';
+
+const MfaSettings = () => {
+  const [enrolledAt, setEnrolledAt] = useState<string | null>(null);
+  const [remainingCodes, setRemainingCodes] = useState<number | null>(null);
+  const [newCodes, setNewCodes] = useState<string[] | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  const fetchSettings = async () => {
+    const [factorsResult, countResult] = await Promise.all([
+      supabase.auth.mfa.listFactors(),
+      supabase.rpc('count_mfa_recovery_codes')
+    ]);
+
+    if (factorsResult.error) {
+      console.error('Error fetching MFA factors:', factorsResult.error);
+    } else {
+      setEnrolledAt(factorsResult.data.totp[0]?.created_at ?? null);
+    }
+
+    if (countResult.error) {
+      console.error('Error counting recovery codes:', countResult.error);
+    } else {
+      setRemainingCodes(countResult.data);
+    }
+  };
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    try {
+      setNewCodes(await generateRecoveryCodes());
+      fetchSettings();
+    } catch (error) {
+      console.error('Error generating recovery codes:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to generate recovery codes",
+        variant: "destructive"
+      });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Two-Factor Authentication
+        </CardTitle>
+        <CardDescription>
+          {enrolledAt
+            ? `Authenticator app set up on ${new Date(enrolledAt).toLocaleDateString()}`
+            : 'Authenticator app'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm">
+          {remainingCodes === null ? '' : `${remainingCodes} unused recovery code${remainingCodes === 1 ? '' : 's'} left.`}
+          {' '}Generating new codes replaces all of your old ones.
+        </p>
+        {newCodes && <RecoveryCodesList codes={newCodes} />}
+        <Button variant="outline" onClick={handleGenerate} disabled={isGenerating} className="flex items-center gap-2">
+          <RefreshCw className="h-4 w-4" />
+          {isGenerating ? 'Generating...' : 'Generate New Recovery Codes'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MfaSettings;
@@ -0,0 +1,71 @@
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useNotifications } from '@/hooks/useNotifications';
+import { cn } from '@/lib/utils';
+import { Bell } from 'lucide-react';
+
+interface NotificationBellProps {
+  userId: string;
+}
+
+const NotificationBell = ({ userId }: NotificationBellProps) => {
+  const { notifications, unreadCount, markAsRead, markAllAsRead } = useNotifications(userId);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Notifications">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 rounded-full bg-destructive text-destructive-foreground text-xs flex items-center justify-center">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b px-4 py-3">
+          <span className="font-semibold">Notifications</span>
+          {unreadCount > 0 && (
+            <Button variant="link" size="sm" className="h-auto p-0" onClick={markAllAsRead}>
+              Mark all as read
+            </Button>
+          )}
+        </div>
+        {notifications.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No notifications yet.</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto divide-y">
+            {notifications.map((notification) => (
+              <button
+                key={notification.id}
+                type="button"
+                onClick={() => !notification.read_at && markAsRead(notification.id)}
+                className={cn(
+                  'w-full text-left px-4 py-3 hover:bg-muted/50 flex gap-3',
+                  !notification.read_at && 'bg-primary/5'
+                )}
+              >
+                <span
+                  className={cn(
+                    'mt-1.5 h-2 w-2 shrink-0 rounded-full',
+                    notification.read_at ? 'bg-transparent' : 'bg-primary'
+                  )}
+                />
+                <span className="space-y-1">
+                  <span className="block text-sm font-medium">{notification.title}</span>
+                  <span className="block text-sm text-muted-foreground">{notification.body}</span>
+                  <span className="block text-xs text-muted-foreground">
+                    {new Date(notification.created_at).toLocaleString()}
+                  </span>
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default NotificationBell;
@@ -0,0 +1,198 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { toast } from '@/hooks/use-toast';
+import {
+  NOTIFICATION_KINDS,
+  NotificationKind,
+  SMS_KINDS,
+  SmsKind,
+  notificationKindDescriptions,
+  notificationKindLabels,
+  preferenceColumns,
+  smsPreferenceColumns
+} from '@/lib/notifications';
+
+interface NotificationPreferencesFormProps {
+  userId: string;
+  phone: string | null;
+  onPhoneSaved: () => void;
+}
+
+// Emails are on and texts off until the user changes something, matching the edge function
+const defaultPreferences = {
+  email_referral_received: true,
+  email_stage_changed: true,
+  email_bonus_paid: true,
+  sms_stage_changed: false,
+  sms_bonus_paid: false
+};
+
+type Preferences = Pick<Tables<'notification_preferences'>, keyof typeof defaultPreferences>;
+
+const isSmsKind = (kind: NotificationKind): kind is SmsKind => (SMS_KINDS as readonly string[]).includes(kind);
+
+const NotificationPreferencesForm = ({ userId, phone, onPhoneSaved }: NotificationPreferencesFormProps) => {
+  const [preferences, setPreferences] = useState<Preferences>(defaultPreferences);
+  const [loading, setLoading] = useState(true);
+  const [phoneInput, setPhoneInput] = useState(phone ?? '');
+  const [isSavingPhone, setIsSavingPhone] = useState(false);
+  const [optedOut, setOptedOut] = useState(false);
+
+  useEffect(() => {
+    fetchPreferences();
+  }, [userId]);
+
+  useEffect(() => {
+    setPhoneInput(phone ?? '');
+    fetchOptOut();
+  }, [phone]);
+
+  const fetchPreferences = async () => {
+    const { data, error } = await supabase
+      .from('notification_preferences')
+      .select('email_referral_received, email_stage_changed, email_bonus_paid, sms_stage_changed, sms_bonus_paid')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching notification preferences:', error);
+    } else {
+      setPreferences(data ?? defaultPreferences);
+    }
+    setLoading(false);
+  };
+
+  // Visible to the user only for their own number
+  const fetchOptOut = async () => {
+    if (!phone) {
+      setOptedOut(false);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('sms_opt_outs')
+      .select('phone')
+      .eq('phone', phone)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error checking SMS opt-out:', error);
+    } else {
+      setOptedOut(!!data);
+    }
+  };
+
+  const savePreferences = async (updated: Preferences) => {
+    const previous = preferences;
+    setPreferences(updated);
+
+    const { error } = await supabase
+      .from('notification_preferences')
+      .upsert({ user_id: userId, ...updated });
+
+    if (error) {
+      console.error('Error saving notification preferences:', error);
+      setPreferences(previous);
+      toast({
+        title: "Error",
+        description: "Failed to save notification preferences",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleSavePhone = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSavingPhone(true);
+    try {
+      // The database normalizes the number to E.164 and rejects anything it cannot parse
+      const { error } = await supabase
+        .from('profiles')
+        .update({ phone: phoneInput.trim() || null })
+        .eq('user_id', userId);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: phoneInput.trim() ? "Mobile number saved" : "Mobile number removed"
+      });
+
+      onPhoneSaved();
+    } catch (error) {
+      console.error('Error saving mobile number:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save mobile number",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSavingPhone(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleSavePhone} className="space-y-2">
+        <Label htmlFor="notify_phone">Mobile Number</Label>
+        <div className="flex gap-2">
+          <Input
+            id="notify_phone"
+            type="tel"
+            placeholder="(555) 555-0100"
+            value={phoneInput}
+            onChange={(e) => setPhoneInput(e.target.value)}
+          />
+          <Button type="submit" variant="outline" disabled={isSavingPhone || phoneInput.trim() === (phone ?? '')}>
+            {isSavingPhone ? 'Saving...' : 'Save'}
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {optedOut
+            ? 'You replied STOP to one of our texts, so we will not text this number. Reply START to resubscribe.'
+            : 'Used only for the text alerts you turn on below. Message and data rates may apply. Reply STOP to any text to opt out.'}
+        </p>
+      </form>
+
+      <div className="space-y-4">
+        <div className="flex justify-end gap-6 px-4 text-xs font-medium text-muted-foreground">
+          <span className="w-11 text-center">Email</span>
+          <span className="w-11 text-center">Text</span>
+        </div>
+        {NOTIFICATION_KINDS.map((kind) => (
+          <div key={kind} className="flex items-center justify-between gap-4 rounded-lg border p-4">
+            <div className="space-y-1">
+              <Label>{notificationKindLabels[kind]}</Label>
+              <p className="text-sm text-muted-foreground">{notificationKindDescriptions[kind]}</p>
+            </div>
+            <div className="flex gap-6">
+              <Switch
+                aria-label={`Email: ${notificationKindLabels[kind]}`}
+                checked={preferences[preferenceColumns[kind]]}
+                disabled={loading}
+                onCheckedChange={(checked) => savePreferences({ ...preferences, [preferenceColumns[kind]]: checked })}
+              />
+              {isSmsKind(kind) ? (
+                <Switch
+                  aria-label={`Text: ${notificationKindLabels[kind]}`}
+                  checked={preferences[smsPreferenceColumns[kind]]}
+                  disabled={loading || !phone}
+                  onCheckedChange={(checked) => savePreferences({ ...preferences, [smsPreferenceColumns[kind]]: checked })}
+                />
+              ) : (
+                <span className="w-11" />
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default NotificationPreferencesForm;
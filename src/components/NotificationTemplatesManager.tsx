@@ -0,0 +1,249 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  NOTIFICATION_KINDS,
+  NotificationKind,
+  SMS_SEGMENT_LENGTH,
+  SMS_TEMPLATE_KINDS,
+  SmsTemplateKind,
+  notificationKindDescriptions,
+  notificationKindLabels,
+  renderTemplatePreview,
+  smsTemplateDescriptions,
+  smsTemplateLabels,
+  templatePlaceholders
+} from '@/lib/notifications';
+
+type NotificationTemplate = Tables<'notification_templates'>;
+type SmsTemplate = Tables<'sms_templates'>;
+
+const NotificationTemplatesManager = () => {
+  const { user } = useAuth();
+  const [templates, setTemplates] = useState<NotificationTemplate[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, { subject: string; body: string }>>({});
+  const [smsTemplates, setSmsTemplates] = useState<SmsTemplate[]>([]);
+  const [smsDrafts, setSmsDrafts] = useState<Record<string, string>>({});
+  const [savingKind, setSavingKind] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, []);
+
+  const fetchTemplates = async () => {
+    const [emailResult, smsResult] = await Promise.all([
+      supabase.from('notification_templates').select('*'),
+      supabase.from('sms_templates').select('*')
+    ]);
+
+    const failed = [emailResult, smsResult].find(result => result.error);
+    if (failed) {
+      console.error('Error fetching notification templates:', failed.error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch message templates",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setTemplates(emailResult.data || []);
+    setDrafts(Object.fromEntries((emailResult.data || []).map(t => [t.kind, { subject: t.subject, body: t.body }])));
+    setSmsTemplates(smsResult.data || []);
+    setSmsDrafts(Object.fromEntries((smsResult.data || []).map(t => [t.kind, t.body])));
+  };
+
+  const handleSave = async (kind: NotificationKind) => {
+    const draft = drafts[kind];
+    setSavingKind(kind);
+    try {
+      const { error } = await supabase
+        .from('notification_templates')
+        .update({
+          subject: draft.subject.trim(),
+          body: draft.body,
+          updated_by: user?.id
+        })
+        .eq('kind', kind);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `"${notificationKindLabels[kind]}" email saved`
+      });
+
+      fetchTemplates();
+    } catch (error) {
+      console.error('Error saving notification template:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save email template",
+        variant: "destructive"
+      });
+    } finally {
+      setSavingKind(null);
+    }
+  };
+
+  const handleSaveSms = async (kind: SmsTemplateKind) => {
+    setSavingKind(`sms:${kind}`);
+    try {
+      const { error } = await supabase
+        .from('sms_templates')
+        .update({
+          body: smsDrafts[kind].trim(),
+          updated_by: user?.id
+        })
+        .eq('kind', kind);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `"${smsTemplateLabels[kind]}" text saved`
+      });
+
+      fetchTemplates();
+    } catch (error) {
+      console.error('Error saving SMS template:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save text template",
+        variant: "destructive"
+      });
+    } finally {
+      setSavingKind(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Message Templates</CardTitle>
+          <CardDescription>
+            Emails and texts sent about referrals. Referrers choose which ones they get in their notification settings.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm font-medium mb-2">Placeholders</p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-x-4 gap-y-1 text-sm">
+            {Object.entries(templatePlaceholders).map(([name, placeholder]) => (
+              <div key={name}>
+                <code className="text-xs">{`{{${name}}}`}</code>
+                <span className="text-muted-foreground"> — {placeholder.description}</span>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {NOTIFICATION_KINDS.map((kind) => {
+        const template = templates.find(t => t.kind === kind);
+        const draft = drafts[kind];
+        if (!template || !draft) return null;
+
+        const isDirty = draft.subject !== template.subject || draft.body !== template.body;
+
+        return (
+          <Card key={kind}>
+            <CardHeader>
+              <CardTitle className="text-lg">{notificationKindLabels[kind]}</CardTitle>
+              <CardDescription>{notificationKindDescriptions[kind]}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor={`template_subject_${kind}`}>Subject</Label>
+                    <Input
+                      id={`template_subject_${kind}`}
+                      value={draft.subject}
+                      onChange={(e) => setDrafts({ ...drafts, [kind]: { ...draft, subject: e.target.value } })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={`template_body_${kind}`}>Body</Label>
+                    <Textarea
+                      id={`template_body_${kind}`}
+                      value={draft.body}
+                      onChange={(e) => setDrafts({ ...drafts, [kind]: { ...draft, body: e.target.value } })}
+                      rows={8}
+                    />
+                  </div>
+                  <Button
+                    onClick={() => handleSave(kind)}
+                    disabled={!isDirty || !draft.subject.trim() || !draft.body.trim() || savingKind === kind}
+                  >
+                    {savingKind === kind ? 'Saving...' : 'Save Template'}
+                  </Button>
+                </div>
+                <div className="space-y-2">
+                  <Label>Preview</Label>
+                  <div className="rounded-lg border bg-muted/30 p-4 space-y-3">
+                    <p className="font-medium">{renderTemplatePreview(draft.subject)}</p>
+                    <p className="text-sm whitespace-pre-wrap">{renderTemplatePreview(draft.body)}</p>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Last changed {new Date(template.updated_at).toLocaleString()}
+                  </p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Text Messages</CardTitle>
+          <CardDescription>
+            Texts use the same placeholders. Keep the opt-out instructions in every message.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {SMS_TEMPLATE_KINDS.map((kind) => {
+            const template = smsTemplates.find(t => t.kind === kind);
+            const draft = smsDrafts[kind];
+            if (!template || draft === undefined) return null;
+
+            const preview = renderTemplatePreview(draft);
+            const segments = Math.max(1, Math.ceil(preview.length / SMS_SEGMENT_LENGTH));
+
+            return (
+              <div key={kind} className="space-y-2">
+                <Label htmlFor={`sms_template_${kind}`}>{smsTemplateLabels[kind]}</Label>
+                <p className="text-sm text-muted-foreground">{smsTemplateDescriptions[kind]}</p>
+                <Textarea
+                  id={`sms_template_${kind}`}
+                  value={draft}
+                  onChange={(e) => setSmsDrafts({ ...smsDrafts, [kind]: e.target.value })}
+                  rows={3}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Preview ({preview.length} characters, {segments} segment{segments === 1 ? '' : 's'}): {preview}
+                </p>
+                <Button
+                  onClick={() => handleSaveSms(kind)}
+                  disabled={draft === template.body || !draft.trim() || savingKind === `sms:${kind}`}
+                >
+                  {savingKind === `sms:${kind}` ? 'Saving...' : 'Save Text'}
+                </Button>
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default NotificationTemplatesManager;
@@ -0,0 +1,210 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { toast } from '@/hooks/use-toast';
+import {
+  PAYMENT_METHODS,
+  PaymentDetailsFormInput,
+  PaymentDetailsFormValues,
+  PaymentMethod,
+  describePaymentDetails,
+  paymentDetailsFormSchema,
+  paymentMethodLabels
+} from '@/lib/paymentDetails';
+
+interface PaymentProfile {
+  id: string;
+  payment_method: string | null;
+  payment_details: Json | null;
+}
+
+interface PaymentDetailsFormProps {
+  profile: PaymentProfile;
+  onSaved: () => void;
+}
+
+const emptyDetails: Record<PaymentMethod, Record<string, string>> = {
+  zelle: { email_or_phone: '' },
+  paypal: { email: '' },
+  bank_transfer: { full_name: '', bank_name: '', account_type: 'checking', account_number: '', routing_number: '' }
+};
+
+// Bank numbers come back masked, so they always have to be re-entered
+const initialValues = (profile: PaymentProfile) => {
+  const method = profile.payment_method as PaymentMethod;
+  if (!PAYMENT_METHODS.includes(method)) return undefined;
+  const stored = (profile.payment_details || {}) as Record<string, string>;
+  const details = Object.fromEntries(
+    Object.keys(emptyDetails[method]).map((key) => [key, stored[key] ?? emptyDetails[method][key]])
+  );
+  return { payment_method: method, payment_details: details } as PaymentDetailsFormInput;
+};
+
+const PaymentDetailsForm = ({ profile, onSaved }: PaymentDetailsFormProps) => {
+  const [isSaving, setIsSaving] = useState(false);
+  const form = useForm<PaymentDetailsFormInput, unknown, PaymentDetailsFormValues>({
+    resolver: zodResolver(paymentDetailsFormSchema),
+    defaultValues: initialValues(profile)
+  });
+  const paymentMethod = form.watch('payment_method');
+  const storedDetails = (profile.payment_method === 'bank_transfer' ? profile.payment_details || {} : {}) as Record<string, string>;
+
+  const onSubmit = async (values: PaymentDetailsFormValues) => {
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from('profiles')
+        .update({
+          payment_method: values.payment_method,
+          payment_details: values.payment_details
+        })
+        .eq('id', profile.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Payment details saved successfully"
+      });
+
+      onSaved();
+    } catch (error) {
+      console.error('Error saving payment details:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save payment details",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderTextField = (name: string, label: string, placeholder: string, type = 'text') => (
+    <FormField
+      control={form.control}
+      name={name as 'payment_details.email'}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input type={type} placeholder={placeholder} {...field} value={field.value ?? ''} />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  const renderPaymentFields = () => {
+    switch (paymentMethod) {
+      case 'zelle':
+        return renderTextField('payment_details.email_or_phone', 'Zelle Email or Phone Number *', 'Enter email or phone number');
+      case 'paypal':
+        return renderTextField('payment_details.email', 'PayPal Email Address *', 'Enter PayPal email', 'email');
+      case 'bank_transfer':
+        return (
+          <div className="space-y-4">
+            {renderTextField('payment_details.full_name', 'Full Name (as per bank account) *', 'Enter full name')}
+            {renderTextField('payment_details.bank_name', 'Bank Name *', 'Enter bank name')}
+            <FormField
+              control={form.control}
+              name="payment_details.account_type"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Account Type *</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="checking">Checking</SelectItem>
+                      <SelectItem value="savings">Savings</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {renderTextField(
+                'payment_details.account_number',
+                'Account Number *',
+                storedDetails.account_last4 ? `Re-enter account ending in ${storedDetails.account_last4}` : 'Enter account number'
+              )}
+              {renderTextField(
+                'payment_details.routing_number',
+                'Routing Number *',
+                storedDetails.routing_last4 ? `Re-enter routing ending in ${storedDetails.routing_last4}` : '9-digit ABA routing number'
+              )}
+            </div>
+          </div>
+        );
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="payment_method"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Payment Method *</FormLabel>
+              <Select
+                value={field.value}
+                onValueChange={(value: PaymentMethod) => form.reset({
+                  payment_method: value,
+                  payment_details: emptyDetails[value]
+                } as PaymentDetailsFormInput)}
+              >
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select payment method" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {PAYMENT_METHODS.map((method) => (
+                    <SelectItem key={method} value={method}>{paymentMethodLabels[method]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {renderPaymentFields()}
+
+        {paymentMethod && (
+          <Button type="submit" disabled={isSaving} className="w-full">
+            {isSaving ? 'Saving...' : 'Save Payment Details'}
+          </Button>
+        )}
+
+        {profile.payment_method && (
+          <div className="mt-4 p-4 bg-muted rounded-lg">
+            <h4 className="font-medium mb-2">Current Payment Method:</h4>
+            <p className="text-sm text-muted-foreground">
+              {paymentMethodLabels[profile.payment_method as PaymentMethod] || profile.payment_method} -{' '}
+              {describePaymentDetails(profile.payment_method, profile.payment_details)}
+            </p>
+          </div>
+        )}
+      </form>
+    </Form>
+  );
+};
+
+export default PaymentDetailsForm;
@@ -0,0 +1,695 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { toast } from '@/hooks/use-toast';
+import { useReferralStages } from '@/hooks/useReferralStages';
+import { formatCurrency } from '@/lib/format';
+import { PaymentMethod, paymentMethodLabels } from '@/lib/paymentDetails';
+import {
+  AchOriginSettings,
+  ExportResult,
+  downloadTextFile,
+  generateNachaFile,
+  generatePaypalCsv,
+  generateZelleWorksheet,
+  validateAchOriginSettings
+} from '@/lib/payoutExports';
+import { StaffPermissions } from '@/lib/userAccounts';
+import { Banknote, Download, Eye, Send, XCircle } from 'lucide-react';
+
+interface PayoutReferral {
+  id: string;
+  client_name: string;
+  stage: string;
+  bonus_status: string;
+  bonus_amount: number;
+  payout_batch_id: string | null;
+  profiles: { name: string; payment_method: string | null } | null;
+}
+
+interface PayoutItem {
+  id: string;
+  payee_name: string;
+  payment_method: string;
+  payment_details: Json | null;
+  amount: number;
+  referral_count: number;
+}
+
+interface PayoutBatch {
+  id: string;
+  status: string;
+  total_amount: number;
+  reference_number: string | null;
+  notes: string | null;
+  sent_at: string | null;
+  created_at: string;
+  payout_items: PayoutItem[];
+}
+
+const ACH_SETTINGS_KEY = 'ach_export_settings';
+
+const nextBusinessDay = () => {
+  const date = new Date();
+  do {
+    date.setDate(date.getDate() + 1);
+  } while (date.getDay() === 0 || date.getDay() === 6);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const loadAchSettings = (): AchOriginSettings => {
+  const defaults = {
+    companyName: '',
+    companyId: '',
+    originRoutingNumber: '',
+    originBankName: ''
+  };
+  try {
+    const saved = JSON.parse(localStorage.getItem(ACH_SETTINGS_KEY) || '{}');
+    return { ...defaults, ...saved, effectiveDate: nextBusinessDay() };
+  } catch {
+    return { ...defaults, effectiveDate: nextBusinessDay() };
+  }
+};
+
+interface PayoutsManagerProps {
+  permissions: StaffPermissions;
+  onChange?: () => void;
+}
+
+const PayoutsManager = ({ permissions, onChange }: PayoutsManagerProps) => {
+  const [referrals, setReferrals] = useState<PayoutReferral[]>([]);
+  const [batches, setBatches] = useState<PayoutBatch[]>([]);
+  const { stages } = useReferralStages();
+  const [stageFilter, setStageFilter] = useState('eligible');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [batchNotes, setBatchNotes] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [sendingBatch, setSendingBatch] = useState<PayoutBatch | null>(null);
+  const [referenceNumber, setReferenceNumber] = useState('');
+  const [isMarkingSent, setIsMarkingSent] = useState(false);
+  const [achBatch, setAchBatch] = useState<PayoutBatch | null>(null);
+  const [achSettings, setAchSettings] = useState<AchOriginSettings>(loadAchSettings);
+
+  useEffect(() => {
+    fetchPayoutData();
+  }, []);
+
+  const fetchPayoutData = async () => {
+    try {
+      const { data: referralsData, error: referralsError } = await supabase
+        .from('referrals')
+        .select(`
+          id, client_name, stage, bonus_status, bonus_amount, payout_batch_id,
+          profiles:profiles(name, payment_method)
+        `)
+        .order('created_at', { ascending: true });
+
+      if (referralsError) throw referralsError;
+
+      const { data: batchesData, error: batchesError } = await supabase
+        .from('payout_batches')
+        .select('*, payout_items(*)')
+        .order('created_at', { ascending: false });
+
+      if (batchesError) throw batchesError;
+
+      setReferrals(referralsData || []);
+      setBatches(batchesData || []);
+    } catch (error) {
+      console.error('Error fetching payouts:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch payouts",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const refresh = () => {
+    fetchPayoutData();
+    onChange?.();
+  };
+
+  const eligibleStageKeys = stages.filter(stage => stage.is_bonus_eligible).map(stage => stage.key);
+
+  const eligibleReferrals = referrals.filter(r =>
+    r.bonus_status === 'Pending' &&
+    !r.payout_batch_id &&
+    Number(r.bonus_amount) > 0 &&
+    (stageFilter === 'all' ||
+      (stageFilter === 'eligible' ? eligibleStageKeys.includes(r.stage) : r.stage === stageFilter))
+  );
+
+  const selectedTotal = eligibleReferrals
+    .filter(r => selectedIds.includes(r.id))
+    .reduce((sum, r) => sum + Number(r.bonus_amount), 0);
+
+  const sumAmounts = (items: PayoutReferral[]) =>
+    items.reduce((sum, r) => sum + Number(r.bonus_amount), 0);
+
+  const reconciliation = [
+    {
+      label: 'Awaiting batch',
+      items: referrals.filter(r => r.bonus_status === 'Pending' && !r.payout_batch_id && Number(r.bonus_amount) > 0)
+    },
+    {
+      label: 'In draft batches',
+      items: referrals.filter(r => r.bonus_status === 'Pending' && r.payout_batch_id)
+    },
+    {
+      label: 'Paid via batches',
+      items: referrals.filter(r => r.bonus_status === 'Paid' && r.payout_batch_id)
+    },
+    {
+      label: 'Paid without a batch',
+      items: referrals.filter(r => r.bonus_status === 'Paid' && !r.payout_batch_id)
+    }
+  ];
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds(checked ? [...selectedIds, id] : selectedIds.filter(selectedId => selectedId !== id));
+  };
+
+  const toggleAll = (checked: boolean) => {
+    setSelectedIds(checked ? eligibleReferrals.map(r => r.id) : []);
+  };
+
+  const handleCreateBatch = async () => {
+    setIsCreating(true);
+    try {
+      const { error } = await supabase.rpc('create_payout_batch', {
+        _referral_ids: selectedIds,
+        _notes: batchNotes || null
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Payout batch created"
+      });
+
+      setSelectedIds([]);
+      setBatchNotes('');
+      refresh();
+    } catch (error) {
+      console.error('Error creating payout batch:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create payout batch",
+        variant: "destructive"
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleMarkSent = async () => {
+    if (!sendingBatch) return;
+
+    setIsMarkingSent(true);
+    try {
+      const { error } = await supabase.rpc('mark_payout_batch_sent', {
+        _batch_id: sendingBatch.id,
+        _reference_number: referenceNumber
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Payout batch marked as sent"
+      });
+
+      setSendingBatch(null);
+      setReferenceNumber('');
+      refresh();
+    } catch (error) {
+      console.error('Error marking payout batch as sent:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to mark payout batch as sent",
+        variant: "destructive"
+      });
+    } finally {
+      setIsMarkingSent(false);
+    }
+  };
+
+  const handleCancelBatch = async (batch: PayoutBatch) => {
+    const { error } = await supabase.rpc('cancel_payout_batch', { _batch_id: batch.id });
+
+    if (error) {
+      console.error('Error cancelling payout batch:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to cancel payout batch",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({
+      title: "Success",
+      description: "Payout batch cancelled"
+    });
+    refresh();
+  };
+
+  const downloadExport = (result: ExportResult, mimeType: string) => {
+    if (result.errors.length > 0) {
+      toast({
+        title: "Export blocked",
+        description: `Fix the payment details for: ${result.errors.map(e => `${e.payee} (${e.message})`).join(', ')}`,
+        variant: "destructive"
+      });
+      return false;
+    }
+
+    if (result.itemCount === 0) {
+      toast({
+        title: "Nothing to export",
+        description: "No payees in this batch use that payment method"
+      });
+      return false;
+    }
+
+    downloadTextFile(result.filename, result.content, mimeType);
+    toast({
+      title: "Export ready",
+      description: `${result.filename} (${result.itemCount} payee${result.itemCount === 1 ? '' : 's'})`
+    });
+    return true;
+  };
+
+  const handleAchExport = async () => {
+    if (!achBatch) return;
+
+    const settingsError = validateAchOriginSettings(achSettings);
+    if (settingsError) {
+      toast({
+        title: "Error",
+        description: settingsError,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const { effectiveDate, ...savedSettings } = achSettings;
+    localStorage.setItem(ACH_SETTINGS_KEY, JSON.stringify(savedSettings));
+
+    // Snapshots only hold masked bank numbers; fetching the full ones is logged per payee
+    const { data: revealed, error } = await supabase.rpc('reveal_payout_batch_payment_details', {
+      _batch_id: achBatch.id
+    });
+
+    if (error) {
+      console.error('Error revealing payout bank details:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to load bank details for export",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const fullDetails = new Map((revealed || []).map(row => [row.item_id, row.payment_details]));
+    const items = achBatch.payout_items.map(item =>
+      fullDetails.has(item.id) ? { ...item, payment_details: fullDetails.get(item.id) } : item
+    );
+
+    if (downloadExport(generateNachaFile(achBatch.id, items, achSettings), 'text/plain')) {
+      setAchBatch(null);
+    }
+  };
+
+  const countByMethod = (batch: PayoutBatch, method: string) =>
+    batch.payout_items.filter(item => item.payment_method === method).length;
+
+  const getBatchStatusColor = (status: string) => {
+    switch (status) {
+      case 'sent': return 'bg-green-100 text-green-800';
+      case 'cancelled': return 'bg-gray-100 text-gray-800';
+      default: return 'bg-yellow-100 text-yellow-800';
+    }
+  };
+
+  const formatPaymentMethod = (method: string | null | undefined) =>
+    method ? paymentMethodLabels[method as PaymentMethod] || method : 'Not provided';
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {reconciliation.map(({ label, items }) => (
+          <Card key={label}>
+            <CardHeader className="pb-2">
+              <CardDescription>{label}</CardDescription>
+              <CardTitle className="text-2xl">{formatCurrency(sumAmounts(items))}</CardTitle>
+            </CardHeader>
+            <CardContent className="text-sm text-muted-foreground">
+              {items.length} referral{items.length === 1 ? '' : 's'}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {permissions.createPayoutBatches && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  <Banknote className="h-5 w-5" />
+                  Create Payout Batch
+                </CardTitle>
+                <CardDescription>
+                  Select pending bonuses to pay. Each referrer gets one payment using their saved payment details.
+                </CardDescription>
+              </div>
+              <Select value={stageFilter} onValueChange={(value) => { setStageFilter(value); setSelectedIds([]); }}>
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="eligible">Bonus-eligible stages</SelectItem>
+                  <SelectItem value="all">Any stage</SelectItem>
+                  {stages.map((stage) => (
+                    <SelectItem key={stage.key} value={stage.key}>{stage.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10">
+                    <Checkbox
+                      checked={eligibleReferrals.length > 0 && selectedIds.length === eligibleReferrals.length}
+                      onCheckedChange={(checked) => toggleAll(checked === true)}
+                    />
+                  </TableHead>
+                  <TableHead>Client</TableHead>
+                  <TableHead>Referrer</TableHead>
+                  <TableHead>Payment Method</TableHead>
+                  <TableHead>Stage</TableHead>
+                  <TableHead>Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {eligibleReferrals.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground">
+                      No pending bonuses ready for payout
+                    </TableCell>
+                  </TableRow>
+                ) : eligibleReferrals.map((referral) => (
+                  <TableRow key={referral.id}>
+                    <TableCell>
+                      <Checkbox
+                        checked={selectedIds.includes(referral.id)}
+                        onCheckedChange={(checked) => toggleSelected(referral.id, checked === true)}
+                      />
+                    </TableCell>
+                    <TableCell className="font-medium">{referral.client_name}</TableCell>
+                    <TableCell>{referral.profiles?.name || 'Unknown User'}</TableCell>
+                    <TableCell>
+                      {referral.profiles?.payment_method ? (
+                        formatPaymentMethod(referral.profiles.payment_method)
+                      ) : (
+                        <span className="text-destructive">Not provided</span>
+                      )}
+                    </TableCell>
+                    <TableCell>{referral.stage}</TableCell>
+                    <TableCell>{formatCurrency(referral.bonus_amount)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="space-y-2">
+              <Label htmlFor="batch_notes">Batch Notes</Label>
+              <Input
+                id="batch_notes"
+                value={batchNotes}
+                onChange={(e) => setBatchNotes(e.target.value)}
+                placeholder="Optional, e.g. August payout run"
+              />
+            </div>
+
+            <Button onClick={handleCreateBatch} disabled={isCreating || selectedIds.length === 0} className="w-full">
+              {isCreating
+                ? 'Creating Batch...'
+                : `Create Batch (${selectedIds.length} selected, ${formatCurrency(selectedTotal)})`}
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Payout Batches</CardTitle>
+          <CardDescription>Finance marks a batch as sent once the payments have gone out</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Created</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Payees</TableHead>
+                <TableHead>Total</TableHead>
+                <TableHead>Reference</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {batches.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">
+                    No payout batches yet
+                  </TableCell>
+                </TableRow>
+              ) : batches.map((batch) => (
+                <TableRow key={batch.id}>
+                  <TableCell>
+                    <div>{new Date(batch.created_at).toLocaleDateString()}</div>
+                    {batch.notes && <div className="text-sm text-muted-foreground">{batch.notes}</div>}
+                  </TableCell>
+                  <TableCell>
+                    <Badge className={getBatchStatusColor(batch.status)}>
+                      <span className="capitalize">{batch.status}</span>
+                    </Badge>
+                  </TableCell>
+                  <TableCell>{batch.payout_items.length}</TableCell>
+                  <TableCell>{formatCurrency(batch.total_amount)}</TableCell>
+                  <TableCell>
+                    {batch.reference_number ? (
+                      <div>
+                        <div className="font-medium">{batch.reference_number}</div>
+                        <div className="text-sm text-muted-foreground">
+                          Sent {new Date(batch.sent_at).toLocaleDateString()}
+                        </div>
+                      </div>
+                    ) : '-'}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-2">
+                      <Dialog>
+                        <DialogTrigger asChild>
+                          <Button variant="outline" size="sm">
+                            <Eye className="h-4 w-4" />
+                          </Button>
+                        </DialogTrigger>
+                        <DialogContent>
+                          <DialogHeader>
+                            <DialogTitle>Payout Batch</DialogTitle>
+                            <DialogDescription>
+                              {formatCurrency(batch.total_amount)} to {batch.payout_items.length} payee{batch.payout_items.length === 1 ? '' : 's'}
+                            </DialogDescription>
+                          </DialogHeader>
+                          <Table>
+                            <TableHeader>
+                              <TableRow>
+                                <TableHead>Payee</TableHead>
+                                <TableHead>Method</TableHead>
+                                <TableHead>Referrals</TableHead>
+                                <TableHead>Amount</TableHead>
+                              </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                              {batch.payout_items.map((item) => (
+                                <TableRow key={item.id}>
+                                  <TableCell className="font-medium">{item.payee_name}</TableCell>
+                                  <TableCell>{formatPaymentMethod(item.payment_method)}</TableCell>
+                                  <TableCell>{item.referral_count}</TableCell>
+                                  <TableCell>{formatCurrency(item.amount)}</TableCell>
+                                </TableRow>
+                              ))}
+                            </TableBody>
+                          </Table>
+                        </DialogContent>
+                      </Dialog>
+
+                      {batch.status !== 'cancelled' && (
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button variant="outline" size="sm">
+                              <Download className="h-4 w-4" />
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            <DropdownMenuItem
+                              disabled={!permissions.payBonuses || countByMethod(batch, 'bank_transfer') === 0}
+                              onSelect={() => setAchBatch(batch)}
+                            >
+                              ACH file (NACHA) · {countByMethod(batch, 'bank_transfer')}
+                            </DropdownMenuItem>
+                            <DropdownMenuItem
+                              disabled={countByMethod(batch, 'paypal') === 0}
+                              onSelect={() => downloadExport(generatePaypalCsv(batch.id, batch.payout_items), 'text/csv')}
+                            >
+                              PayPal Payouts CSV · {countByMethod(batch, 'paypal')}
+                            </DropdownMenuItem>
+                            <DropdownMenuItem
+                              disabled={countByMethod(batch, 'zelle') === 0}
+                              onSelect={() => downloadExport(generateZelleWorksheet(batch.id, batch.payout_items), 'text/csv')}
+                            >
+                              Zelle worksheet · {countByMethod(batch, 'zelle')}
+                            </DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      )}
+
+                      {batch.status === 'draft' && permissions.payBonuses && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setSendingBatch(batch)}
+                          className="flex items-center gap-1"
+                        >
+                          <Send className="h-4 w-4" />
+                          Mark Sent
+                        </Button>
+                      )}
+                      {batch.status === 'draft' && permissions.cancelPayoutBatches && (
+                        <Button variant="outline" size="sm" onClick={() => handleCancelBatch(batch)}>
+                          <XCircle className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!sendingBatch} onOpenChange={(open) => !open && setSendingBatch(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Mark Batch as Sent</DialogTitle>
+            <DialogDescription>
+              All {sendingBatch?.payout_items.reduce((sum, item) => sum + item.referral_count, 0)} referrals in this
+              batch will be marked as Paid.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="reference_number">Reference Number *</Label>
+              <Input
+                id="reference_number"
+                value={referenceNumber}
+                onChange={(e) => setReferenceNumber(e.target.value)}
+                placeholder="Bank trace, PayPal batch or Zelle confirmation ID"
+              />
+            </div>
+            <Button onClick={handleMarkSent} disabled={isMarkingSent || !referenceNumber.trim()} className="w-full">
+              {isMarkingSent ? 'Saving...' : `Confirm ${formatCurrency(sendingBatch?.total_amount)} Sent`}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!achBatch} onOpenChange={(open) => !open && setAchBatch(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Export ACH File</DialogTitle>
+            <DialogDescription>
+              Originator details for the NACHA file. They are remembered on this device, except the effective date.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="ach_company_name">Company Name *</Label>
+                <Input
+                  id="ach_company_name"
+                  maxLength={16}
+                  value={achSettings.companyName}
+                  onChange={(e) => setAchSettings({...achSettings, companyName: e.target.value})}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="ach_company_id">Company ID *</Label>
+                <Input
+                  id="ach_company_id"
+                  maxLength={10}
+                  value={achSettings.companyId}
+                  onChange={(e) => setAchSettings({...achSettings, companyId: e.target.value})}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="ach_origin_routing">Originating Bank Routing *</Label>
+                <Input
+                  id="ach_origin_routing"
+                  maxLength={9}
+                  value={achSettings.originRoutingNumber}
+                  onChange={(e) => setAchSettings({...achSettings, originRoutingNumber: e.target.value})}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="ach_origin_bank">Originating Bank Name *</Label>
+                <Input
+                  id="ach_origin_bank"
+                  maxLength={23}
+                  value={achSettings.originBankName}
+                  onChange={(e) => setAchSettings({...achSettings, originBankName: e.target.value})}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ach_effective_date">Effective Entry Date *</Label>
+              <Input
+                id="ach_effective_date"
+                type="date"
+                value={achSettings.effectiveDate}
+                onChange={(e) => setAchSettings({...achSettings, effectiveDate: e.target.value})}
+              />
+            </div>
+            <Button onClick={handleAchExport} className="w-full">
+              Download ACH File
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default PayoutsManager;
@@ -0,0 +1,225 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { formatCurrency } from '@/lib/format';
+import { updateReferral } from '@/lib/referrals';
+import { StaffPermissions } from '@/lib/userAccounts';
+import { useReferralStages } from '@/hooks/useReferralStages';
+import { useReferralChanges } from '@/hooks/useReferralChanges';
+import { ReferralStage, getStageLabel } from '@/lib/referralStages';
+import StageBadge from '@/components/StageBadge';
+import { Clock } from 'lucide-react';
+
+interface BoardReferral {
+  id: string;
+  client_name: string;
+  stage: ReferralStage;
+  bonus_amount: number;
+  stage_entered_at: string;
+  assigned_to: string | null;
+  profiles: { name: string | null } | null;
+}
+
+interface BoardColumn {
+  referrals: BoardReferral[];
+  count: number;
+}
+
+interface PipelineBoardProps {
+  permissions: StaffPermissions;
+  onChange?: () => void;
+}
+
+// Cards loaded per column; the column header always shows the full count
+const COLUMN_LIMIT = 50;
+const AGING_WARNING_DAYS = 7;
+const AGING_ALERT_DAYS = 14;
+
+const daysInStage = (referral: BoardReferral) =>
+  Math.floor((Date.now() - new Date(referral.stage_entered_at).getTime()) / (1000 * 60 * 60 * 24));
+
+const PipelineBoard = ({ permissions, onChange }: PipelineBoardProps) => {
+  const { stages } = useReferralStages();
+  const { user } = useAuth();
+  const [columns, setColumns] = useState<Record<ReferralStage, BoardColumn>>({});
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<ReferralStage | null>(null);
+
+  useEffect(() => {
+    if (stages.length) fetchBoard();
+  }, [stages]);
+
+  useReferralChanges(() => {
+    if (stages.length) fetchBoard();
+  });
+
+  const fetchBoard = async () => {
+    try {
+      const results = await Promise.all(stages.map(({ key }) =>
+        supabase
+          .from('referrals')
+          .select('id, client_name, stage, bonus_amount, stage_entered_at, assigned_to, profiles:profiles(name)', { count: 'exact' })
+          .eq('stage', key)
+          .eq('outcome', 'open')
+          .order('stage_entered_at', { ascending: true })
+          .limit(COLUMN_LIMIT)
+      ));
+
+      const next: Record<ReferralStage, BoardColumn> = {};
+      results.forEach(({ data, error, count }, i) => {
+        if (error) throw error;
+        next[stages[i].key] = { referrals: (data || []) as BoardReferral[], count: count || 0 };
+      });
+      setColumns(next);
+    } catch (error) {
+      console.error('Error fetching pipeline:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch pipeline",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Sales reps can only drag the referrals assigned to them, and only forward
+  const canMove = (referral: BoardReferral) =>
+    permissions.manageProgram || (permissions.advanceAssignedStages && referral.assigned_to === user?.id);
+
+  const stageIndex = (stage: ReferralStage) => stages.findIndex(s => s.key === stage);
+
+  const handleDrop = async (stage: ReferralStage) => {
+    setDropTarget(null);
+    const referral = Object.values(columns).flatMap(c => c.referrals).find(r => r.id === draggedId);
+    setDraggedId(null);
+    if (!referral || referral.stage === stage || !columns[stage]) return;
+
+    if (!permissions.manageProgram && stageIndex(stage) < stageIndex(referral.stage)) {
+      toast({
+        title: "Error",
+        description: "Sales reps can only move referrals forward",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    // Move the card straight away and put it back if the update fails
+    const previous = columns;
+    const moved = { ...referral, stage, stage_entered_at: new Date().toISOString() };
+    setColumns({
+      ...columns,
+      [referral.stage]: {
+        referrals: columns[referral.stage].referrals.filter(r => r.id !== referral.id),
+        count: columns[referral.stage].count - 1
+      },
+      [stage]: {
+        referrals: [...columns[stage].referrals, moved],
+        count: columns[stage].count + 1
+      }
+    });
+
+    try {
+      await updateReferral(referral.id, { stage });
+
+      toast({
+        title: "Success",
+        description: `${referral.client_name} moved to ${getStageLabel(stages, stage)}`
+      });
+
+      onChange?.();
+    } catch (error) {
+      console.error('Error moving referral:', error);
+      setColumns(previous);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to move referral",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const getAgingColor = (days: number) => {
+    if (days >= AGING_ALERT_DAYS) return 'bg-red-100 text-red-800';
+    if (days >= AGING_WARNING_DAYS) return 'bg-yellow-100 text-yellow-800';
+    return 'bg-gray-100 text-gray-800';
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Pipeline</CardTitle>
+        <CardDescription>
+          {permissions.manageProgram || permissions.advanceAssignedStages
+            ? 'Drag a referral to another stage to move it. '
+            : ''}
+          Cards show how long the referral has been in its current stage.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-flow-row md:grid-flow-col md:auto-cols-fr gap-4 overflow-x-auto">
+          {stages.map(({ key: stage, is_terminal }) => {
+            const column = columns[stage] ?? { referrals: [], count: 0 };
+            return (
+              <div
+                key={stage}
+                onDragOver={(e) => {
+                  e.preventDefault();
+                  setDropTarget(stage);
+                }}
+                onDragLeave={() => setDropTarget(null)}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  handleDrop(stage);
+                }}
+                className={`flex flex-col rounded-lg border bg-muted/40 p-2 min-h-[300px] ${dropTarget === stage ? 'ring-2 ring-primary' : ''}`}
+              >
+                <div className="flex items-center justify-between px-1 pb-2">
+                  <StageBadge stageKey={stage} stages={stages} />
+                  <Badge variant="outline">{column.count}</Badge>
+                </div>
+                <div className="space-y-2">
+                  {column.referrals.map((referral) => {
+                    const days = daysInStage(referral);
+                    return (
+                      <div
+                        key={referral.id}
+                        draggable={canMove(referral)}
+                        onDragStart={(e) => {
+                          e.dataTransfer.effectAllowed = 'move';
+                          setDraggedId(referral.id);
+                        }}
+                        onDragEnd={() => setDraggedId(null)}
+                        className={`rounded-md border bg-card p-3 shadow-sm ${canMove(referral) ? 'cursor-grab active:cursor-grabbing' : ''} ${draggedId === referral.id ? 'opacity-50' : ''}`}
+                      >
+                        <div className="font-medium text-sm">{referral.client_name}</div>
+                        <div className="text-xs text-muted-foreground">{referral.profiles?.name || 'Unknown User'}</div>
+                        <div className="flex items-center justify-between mt-2">
+                          <span className="text-xs">{formatCurrency(referral.bonus_amount)}</span>
+                          {!is_terminal && (
+                            <Badge className={`text-xs flex items-center gap-1 ${getAgingColor(days)}`}>
+                              <Clock className="h-3 w-3" />
+                              {days}d
+                            </Badge>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                  {column.count > column.referrals.length && (
+                    <p className="text-xs text-muted-foreground text-center">
+                      +{column.count - column.referrals.length} more in the referrals table
+                    </p>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PipelineBoard;
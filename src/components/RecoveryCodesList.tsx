@@ -0,0 +1,63 @@
+import { Button } from '@/components/ui/button';
+import { toast } from '@/hooks/use-toast';
+import { Copy, Download } from 'lucide-react';
+
+interface RecoveryCodesListProps {
+  codes: string[];
+}
+
+const RecoveryCodesList = ({ codes }: RecoveryCodesListProps) => {
+  const text = codes.join('\n');
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({
+        title: "Success",
+        description: "Recovery codes copied to clipboard"
+      });
+    } catch (error) {
+      console.error('Error copying to clipboard:', error);
+      toast({
+        title: "Error",
+        description: "Failed to copy to clipboard",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(new Blob([`SolarPay Referrals recovery codes\n\n${text}\n`], { type: 'text/plain' }));
+    const anchor = document.createElement('a');
+    anchor.href = url;
+    anchor.download = 'solarpay-recovery-codes.txt';
+    anchor.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Each code works once if you lose access to your authenticator app. Store them somewhere safe;
+        they will not be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-lg border bg-muted/30 p-4 font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" onClick={handleCopy} className="flex items-center gap-2">
+          <Copy className="h-4 w-4" />
+          Copy
+        </Button>
+        <Button variant="outline" size="sm" onClick={handleDownload} className="flex items-center gap-2">
+          <Download className="h-4 w-4" />
+          Download
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default RecoveryCodesList;
@@ -0,0 +1,72 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { AssignmentMethod, assignmentMethodLabels } from '@/lib/referralAssignments';
+import { ArrowRight, Clock } from 'lucide-react';
+
+interface ReferralAssignmentHistoryProps {
+  referralId: string;
+  salesRepName: (userId: string | null) => string;
+}
+
+const ReferralAssignmentHistory = ({ referralId, salesRepName }: ReferralAssignmentHistoryProps) => {
+  const [assignments, setAssignments] = useState<Tables<'referral_assignments'>[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchAssignments = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('referral_assignments')
+          .select('*')
+          .eq('referral_id', referralId)
+          .order('created_at', { ascending: true });
+
+        if (error) throw error;
+        setAssignments(data || []);
+      } catch (error) {
+        console.error('Error fetching assignment history:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchAssignments();
+  }, [referralId]);
+
+  if (loading) {
+    return <p className="text-sm text-muted-foreground">Loading assignment history...</p>;
+  }
+
+  if (assignments.length === 0) {
+    return <p className="text-sm text-muted-foreground">Never assigned.</p>;
+  }
+
+  return (
+    <ul className="space-y-2">
+      {assignments.map((assignment) => (
+        <li key={assignment.id}>
+          <div className="flex items-center gap-1 text-xs text-muted-foreground">
+            <Clock className="h-3 w-3" />
+            {new Date(assignment.created_at).toLocaleString()}
+            <span>
+              · {assignmentMethodLabels[assignment.method as AssignmentMethod] || assignment.method}
+              {assignment.method === 'manual' && assignment.assigned_by_name && ` (${assignment.assigned_by_name})`}
+            </span>
+          </div>
+          <p className="text-sm font-medium flex items-center gap-1 flex-wrap">
+            {assignment.previous_assigned_to && (
+              <>
+                {salesRepName(assignment.previous_assigned_to)}
+                <ArrowRight className="h-3 w-3" />
+              </>
+            )}
+            {salesRepName(assignment.assigned_to)}
+          </p>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default ReferralAssignmentHistory;
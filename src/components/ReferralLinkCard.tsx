@@ -0,0 +1,89 @@
+import { useRef } from 'react';
+import { QRCodeCanvas } from 'qrcode.react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from '@/hooks/use-toast';
+import { Copy, Download, Share2 } from 'lucide-react';
+
+interface ReferralLinkCardProps {
+  referralCode: string;
+}
+
+const ReferralLinkCard = ({ referralCode }: ReferralLinkCardProps) => {
+  const qrRef = useRef<HTMLCanvasElement>(null);
+  const link = `${window.location.origin}/refer/${referralCode}`;
+
+  const handleCopy = async (value: string, what: string) => {
+    try {
+      await navigator.clipboard.writeText(value);
+      toast({
+        title: "Success",
+        description: `${what} copied to clipboard`
+      });
+    } catch (error) {
+      console.error('Error copying to clipboard:', error);
+      toast({
+        title: "Error",
+        description: "Failed to copy to clipboard",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDownloadQr = () => {
+    if (!qrRef.current) return;
+    const anchor = document.createElement('a');
+    anchor.href = qrRef.current.toDataURL('image/png');
+    anchor.download = `referral-${referralCode}.png`;
+    anchor.click();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Share2 className="h-5 w-5" />
+          Your Referral Link
+        </CardTitle>
+        <CardDescription>
+          Share this link or QR code. Anyone who leaves their details through it is added to your referrals automatically.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-col md:flex-row gap-6 items-start">
+          <div className="flex-1 space-y-4 w-full">
+            <div className="space-y-2">
+              <Label htmlFor="referral_link">Link</Label>
+              <div className="flex gap-2">
+                <Input id="referral_link" readOnly value={link} onFocus={(e) => e.target.select()} />
+                <Button variant="outline" onClick={() => handleCopy(link, 'Link')}>
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Code</Label>
+              <div className="flex items-center gap-2">
+                <span className="font-mono text-lg tracking-widest">{referralCode}</span>
+                <Button variant="ghost" size="sm" onClick={() => handleCopy(referralCode, 'Code')}>
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </div>
+          <div className="flex flex-col items-center gap-2">
+            <QRCodeCanvas ref={qrRef} value={link} size={160} marginSize={2} />
+            <Button variant="outline" size="sm" onClick={handleDownloadQr} className="flex items-center gap-2">
+              <Download className="h-4 w-4" />
+              Download QR Code
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ReferralLinkCard;
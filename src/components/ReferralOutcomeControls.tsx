@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from '@/hooks/use-toast';
+import { closeReferral, reopenReferral } from '@/lib/referrals';
+import { ClosedOutcome, closeReasonLabels, describeClosure, isClosed, outcomeLabels } from '@/lib/referralOutcomes';
+import { Ban, RotateCcw } from 'lucide-react';
+
+interface ReferralOutcomeControlsProps {
+  referral: {
+    id: string;
+    outcome: string;
+    close_reason: string | null;
+    closed_at: string | null;
+    bonus_status: string;
+    payout_batch_id: string | null;
+  };
+  onChanged: () => void;
+}
+
+const ReferralOutcomeControls = ({ referral, onChanged }: ReferralOutcomeControlsProps) => {
+  const [outcome, setOutcome] = useState<ClosedOutcome>('lost');
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const inPendingBatch = !!referral.payout_batch_id && referral.bonus_status === 'Pending';
+
+  const handleClose = async () => {
+    setIsSaving(true);
+    try {
+      await closeReferral(referral.id, outcome, reason);
+
+      toast({
+        title: "Success",
+        description: `Referral closed as ${describeClosure(outcome, reason)}`
+      });
+
+      setReason('');
+      onChanged();
+    } catch (error) {
+      console.error('Error closing referral:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to close referral",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReopen = async () => {
+    setIsSaving(true);
+    try {
+      await reopenReferral(referral.id);
+
+      toast({
+        title: "Success",
+        description: "Referral reopened"
+      });
+
+      onChanged();
+    } catch (error) {
+      console.error('Error reopening referral:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to reopen referral",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isClosed(referral)) {
+    return (
+      <div className="space-y-2">
+        <Label>Outcome</Label>
+        <p className="text-sm">
+          Closed — {describeClosure(referral.outcome, referral.close_reason)}
+          {referral.closed_at && (
+            <span className="text-muted-foreground"> on {new Date(referral.closed_at).toLocaleDateString()}</span>
+          )}
+        </p>
+        <Button variant="outline" onClick={handleReopen} disabled={isSaving} className="w-full flex items-center gap-2">
+          <RotateCcw className="h-4 w-4" />
+          {isSaving ? 'Reopening...' : 'Reopen Referral'}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label>Close Referral</Label>
+      <div className="grid grid-cols-2 gap-2">
+        <Select value={outcome} onValueChange={(value: ClosedOutcome) => setOutcome(value)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="lost">{outcomeLabels.lost}</SelectItem>
+            <SelectItem value="cancelled">{outcomeLabels.cancelled}</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={reason} onValueChange={setReason}>
+          <SelectTrigger>
+            <SelectValue placeholder="Reason" />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(closeReasonLabels).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {inPendingBatch
+          ? 'This referral is in a payout batch. Cancel the batch before closing it.'
+          : 'The referral leaves the pipeline and its pending bonus drops to zero. Paid bonuses are not affected.'}
+      </p>
+      <Button
+        variant="destructive"
+        onClick={handleClose}
+        disabled={isSaving || !reason || inPendingBatch}
+        className="w-full flex items-center gap-2"
+      >
+        <Ban className="h-4 w-4" />
+        {isSaving ? 'Closing...' : 'Close Referral'}
+      </Button>
+    </div>
+  );
+};
+
+export default ReferralOutcomeControls;
@@ -0,0 +1,304 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { TablesUpdate } from '@/integrations/supabase/types';
+import { toast } from '@/hooks/use-toast';
+import { useReferralStages } from '@/hooks/useReferralStages';
+import { ReferralStageRow, STAGE_COLORS, getStageColorClass, moveReferralStage } from '@/lib/referralStages';
+import StageBadge from '@/components/StageBadge';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+
+interface ReferralStagesManagerProps {
+  onChange?: () => void;
+}
+
+const emptyStage = {
+  label: '',
+  color: 'gray'
+};
+
+const ReferralStagesManager = ({ onChange }: ReferralStagesManagerProps) => {
+  const { stages, refresh } = useReferralStages();
+  const [newStage, setNewStage] = useState(emptyStage);
+  const [isSaving, setIsSaving] = useState(false);
+  const [firstStageMove, setFirstStageMove] = useState<{ index: number; direction: -1 | 1 } | null>(null);
+
+  const afterChange = () => {
+    refresh();
+    onChange?.();
+  };
+
+  const handleUpdateStage = async (stage: ReferralStageRow, changes: TablesUpdate<'referral_stages'>) => {
+    const { error } = await supabase
+      .from('referral_stages')
+      .update(changes)
+      .eq('id', stage.id);
+
+    if (error) {
+      console.error('Error updating referral stage:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update stage",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    afterChange();
+  };
+
+  const handleMoveStage = async (index: number, direction: -1 | 1, changeFirstStage = false) => {
+    const stage = stages[index];
+    if (!stages[index + direction]) return;
+
+    try {
+      await moveReferralStage(stage.id, direction, changeFirstStage);
+    } catch (error) {
+      console.error('Error reordering referral stages:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to reorder stages",
+        variant: "destructive"
+      });
+    }
+
+    afterChange();
+  };
+
+  // Moving into or out of the first place changes where new referrals start, so ask first
+  const requestMoveStage = (index: number, direction: -1 | 1) => {
+    if (index === 0 || index + direction === 0) {
+      setFirstStageMove({ index, direction });
+    } else {
+      handleMoveStage(index, direction);
+    }
+  };
+
+  const newFirstStage = firstStageMove &&
+    stages[firstStageMove.index === 0 ? firstStageMove.index + firstStageMove.direction : firstStageMove.index];
+
+  const handleDeleteStage = async (stage: ReferralStageRow) => {
+    const { error } = await supabase
+      .from('referral_stages')
+      .delete()
+      .eq('id', stage.id);
+
+    if (error) {
+      console.error('Error deleting referral stage:', error);
+      toast({
+        title: "Error",
+        description: error.code === '23503'
+          ? `"${stage.label}" is still used by referrals or bonus rules. Move them to another stage first.`
+          : "Failed to delete stage",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({
+      title: "Success",
+      description: `Stage "${stage.label}" deleted`
+    });
+
+    afterChange();
+  };
+
+  const handleAddStage = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      const label = newStage.label.trim();
+      const lastPosition = stages.length ? stages[stages.length - 1].position : 0;
+      const { error } = await supabase
+        .from('referral_stages')
+        .insert([{
+          key: label,
+          label,
+          color: newStage.color,
+          position: lastPosition + 1
+        }]);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Stage added successfully"
+      });
+
+      setNewStage(emptyStage);
+      afterChange();
+    } catch (error) {
+      console.error('Error adding referral stage:', error);
+      toast({
+        title: "Error",
+        description: error.code === '23505' ? "A stage with that name already exists" : "Failed to add stage",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const colorSelect = (value: string, onValueChange: (value: string) => void, id?: string) => (
+    <Select value={value} onValueChange={onValueChange}>
+      <SelectTrigger id={id} className="w-32">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {STAGE_COLORS.map((color) => (
+          <SelectItem key={color} value={color}>
+            <span className={`rounded px-2 py-0.5 text-xs capitalize ${getStageColorClass(color)}`}>{color}</span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Pipeline Stages</CardTitle>
+          <CardDescription>
+            Referrals start in the first stage and referrers can edit them until they leave it.
+            Referrals in a bonus-eligible stage earn the flat or tiered bonus.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Order</TableHead>
+                <TableHead>Label</TableHead>
+                <TableHead>Color</TableHead>
+                <TableHead>Terminal</TableHead>
+                <TableHead>Bonus-eligible</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {stages.map((stage, index) => (
+                <TableRow key={stage.id}>
+                  <TableCell>
+                    <div className="flex gap-1">
+                      <Button variant="ghost" size="sm" disabled={index === 0} onClick={() => requestMoveStage(index, -1)}>
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" disabled={index === stages.length - 1} onClick={() => requestMoveStage(index, 1)}>
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Input
+                        defaultValue={stage.label}
+                        className="w-48"
+                        onBlur={(e) => {
+                          const label = e.target.value.trim();
+                          if (label && label !== stage.label) handleUpdateStage(stage, { label });
+                        }}
+                      />
+                      <StageBadge stageKey={stage.key} stages={stages} />
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    {colorSelect(stage.color, (color) => handleUpdateStage(stage, { color }))}
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={stage.is_terminal}
+                      onCheckedChange={(checked) => handleUpdateStage(stage, { is_terminal: checked })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={stage.is_bonus_eligible}
+                      onCheckedChange={(checked) => handleUpdateStage(stage, { is_bonus_eligible: checked })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Button variant="outline" size="sm" onClick={() => handleDeleteStage(stage)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Plus className="h-5 w-5" />
+            Add Stage
+          </CardTitle>
+          <CardDescription>
+            New stages are added at the end of the pipeline
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleAddStage} className="flex flex-col md:flex-row md:items-end gap-4">
+            <div className="space-y-2 flex-1">
+              <Label htmlFor="stage_label">Label *</Label>
+              <Input
+                id="stage_label"
+                required
+                value={newStage.label}
+                onChange={(e) => setNewStage({...newStage, label: e.target.value})}
+                placeholder="e.g. Permit Approved"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="stage_color">Color</Label>
+              {colorSelect(newStage.color, (color) => setNewStage({...newStage, color}), 'stage_color')}
+            </div>
+            <Button type="submit" disabled={isSaving || !newStage.label.trim()}>
+              {isSaving ? 'Adding Stage...' : 'Add Stage'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={!!firstStageMove} onOpenChange={(open) => !open && setFirstStageMove(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Change the first stage?</AlertDialogTitle>
+            <AlertDialogDescription>
+              New referrals will start in "{newFirstStage?.label}", and referrers will only be able to edit
+              or withdraw referrals that are in that stage. Referrals already in the pipeline keep their stage.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => firstStageMove && handleMoveStage(firstStageMove.index, firstStageMove.direction, true)}
+            >
+              Move Stage
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default ReferralStagesManager;
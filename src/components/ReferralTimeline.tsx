@@ -0,0 +1,102 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { describeClosure } from '@/lib/referralOutcomes';
+import { ArrowRight, Clock } from 'lucide-react';
+
+interface ReferralEvent {
+  id: string;
+  event_type: string;
+  old_stage: string | null;
+  new_stage: string | null;
+  old_bonus_status: string | null;
+  new_bonus_status: string | null;
+  outcome: string | null;
+  close_reason: string | null;
+  actor_name: string | null;
+  note: string | null;
+  created_at: string;
+}
+
+interface ReferralTimelineProps {
+  referralId: string;
+}
+
+const ReferralTimeline = ({ referralId }: ReferralTimelineProps) => {
+  const [events, setEvents] = useState<ReferralEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchEvents = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('referral_events')
+          .select('*')
+          .eq('referral_id', referralId)
+          .order('created_at', { ascending: true });
+
+        if (error) throw error;
+        setEvents(data || []);
+      } catch (error) {
+        console.error('Error fetching referral history:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchEvents();
+  }, [referralId]);
+
+  if (loading) {
+    return <p className="text-sm text-muted-foreground">Loading history...</p>;
+  }
+
+  if (events.length === 0) {
+    return <p className="text-sm text-muted-foreground">No history recorded yet.</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-border ml-2 space-y-4">
+      {events.map((event) => (
+        <li key={event.id} className="ml-4">
+          <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-primary" />
+          <div className="flex items-center gap-1 text-xs text-muted-foreground">
+            <Clock className="h-3 w-3" />
+            {new Date(event.created_at).toLocaleString()}
+            {event.actor_name && <span>· {event.actor_name}</span>}
+          </div>
+          {event.event_type === 'created' ? (
+            <p className="text-sm font-medium">Referral created at "{event.new_stage}"</p>
+          ) : event.event_type === 'closed' ? (
+            <p className="text-sm font-medium">
+              Closed at "{event.new_stage}": {describeClosure(event.outcome || '', event.close_reason)}
+            </p>
+          ) : event.event_type === 'reopened' ? (
+            <p className="text-sm font-medium">Reopened at "{event.new_stage}"</p>
+          ) : (
+            <div className="space-y-1">
+              {event.old_stage !== event.new_stage && (
+                <p className="text-sm font-medium flex items-center gap-1 flex-wrap">
+                  Stage: {event.old_stage}
+                  <ArrowRight className="h-3 w-3" />
+                  {event.new_stage}
+                </p>
+              )}
+              {event.old_bonus_status !== event.new_bonus_status && (
+                <p className="text-sm font-medium flex items-center gap-1 flex-wrap">
+                  Bonus: {event.old_bonus_status}
+                  <ArrowRight className="h-3 w-3" />
+                  {event.new_bonus_status}
+                </p>
+              )}
+            </div>
+          )}
+          {event.note && (
+            <p className="text-sm text-muted-foreground mt-1">{event.note}</p>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default ReferralTimeline;
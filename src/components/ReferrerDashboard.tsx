@@ -6,11 +6,34 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog';
+import ReferralTimeline from '@/components/ReferralTimeline';
+import EditReferralDialog from '@/components/EditReferralDialog';
+import PaymentDetailsForm from '@/components/PaymentDetailsForm';
+import StageBadge from '@/components/StageBadge';
+import ReferrerStats from '@/components/ReferrerStats';
+import ReferralLinkCard from '@/components/ReferralLinkCard';
+import NotificationPreferencesForm from '@/components/NotificationPreferencesForm';
 import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
 import { useAuth } from '@/hooks/useAuth';
+import { useReferralStages } from '@/hooks/useReferralStages';
+import { useReferralChanges } from '@/hooks/useReferralChanges';
 import { toast } from '@/hooks/use-toast';
-import { Plus } from 'lucide-react';
+import { formatCurrency } from '@/lib/format';
+import { describeClosure, isClosed } from '@/lib/referralOutcomes';
+import { History, Lock, Plus, Trash2 } from 'lucide-react';
 
 interface Referral {
   id: string;
@@ -20,15 +43,21 @@ interface Referral {
   client_address: string;
   stage: string;
   bonus_status: string;
+  bonus_amount: number;
+  duplicate_of: string | null;
+  outcome: string;
+  close_reason: string | null;
+  source: string;
   notes: string;
   created_at: string;
 }
 
 const ReferrerDashboard = () => {
   const { user } = useAuth();
+  const { stages } = useReferralStages();
   const [referrals, setReferrals] = useState<Referral[]>([]);
   const [loading, setLoading] = useState(true);
-  const [userProfile, setUserProfile] = useState<any>(null);
+  const [userProfile, setUserProfile] = useState<Tables<'profiles'> | null>(null);
   const [newReferral, setNewReferral] = useState({
     client_name: '',
     client_email: '',
@@ -36,9 +65,6 @@ const ReferrerDashboard = () => {
     client_address: ''
   });
   const [isAdding, setIsAdding] = useState(false);
-  const [paymentMethod, setPaymentMethod] = useState('');
-  const [paymentDetails, setPaymentDetails] = useState<any>({});
-  const [isSavingPayment, setIsSavingPayment] = useState(false);
 
   useEffect(() => {
     if (user) {
@@ -47,6 +73,8 @@ const ReferrerDashboard = () => {
     }
   }, [user]);
 
+  useReferralChanges(() => fetchReferrals(), user?.id);
+
   const fetchUserProfile = async () => {
     try {
       const { data, error } = await supabase
@@ -57,12 +85,6 @@ const ReferrerDashboard = () => {
 
       if (error) throw error;
       setUserProfile(data);
-      
-      // Initialize payment details if they exist
-      if (data?.payment_method) {
-        setPaymentMethod(data.payment_method);
-        setPaymentDetails(data.payment_details || {});
-      }
     } catch (error) {
       console.error('Error fetching user profile:', error);
     }
@@ -130,131 +152,33 @@ const ReferrerDashboard = () => {
     }
   };
 
-  const handleSavePaymentDetails = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!paymentMethod || !userProfile?.id) return;
-
-    setIsSavingPayment(true);
+  const handleWithdrawReferral = async (referralId: string) => {
     try {
       const { error } = await supabase
-        .from('profiles')
-        .update({
-          payment_method: paymentMethod,
-          payment_details: paymentDetails
-        })
-        .eq('id', userProfile.id);
+        .from('referrals')
+        .delete()
+        .eq('id', referralId);
 
       if (error) throw error;
 
       toast({
         title: "Success",
-        description: "Payment details saved successfully"
+        description: "Referral withdrawn"
       });
 
-      fetchUserProfile(); // Refresh the profile data
+      fetchReferrals();
     } catch (error) {
-      console.error('Error saving payment details:', error);
+      console.error('Error withdrawing referral:', error);
       toast({
         title: "Error",
-        description: "Failed to save payment details",
+        description: error.message || "Failed to withdraw referral",
         variant: "destructive"
       });
-    } finally {
-      setIsSavingPayment(false);
-    }
-  };
-
-  const renderPaymentFields = () => {
-    switch (paymentMethod) {
-      case 'zelle':
-        return (
-          <div className="space-y-2">
-            <Label htmlFor="zelle_contact">Zelle Email or Phone Number *</Label>
-            <Input
-              id="zelle_contact"
-              required
-              value={paymentDetails.email_or_phone || ''}
-              onChange={(e) => setPaymentDetails({email_or_phone: e.target.value})}
-              placeholder="Enter email or phone number"
-            />
-          </div>
-        );
-      case 'paypal':
-        return (
-          <div className="space-y-2">
-            <Label htmlFor="paypal_email">PayPal Email Address *</Label>
-            <Input
-              id="paypal_email"
-              type="email"
-              required
-              value={paymentDetails.email || ''}
-              onChange={(e) => setPaymentDetails({email: e.target.value})}
-              placeholder="Enter PayPal email"
-            />
-          </div>
-        );
-      case 'bank_transfer':
-        return (
-          <div className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="full_name">Full Name (as per bank account) *</Label>
-              <Input
-                id="full_name"
-                required
-                value={paymentDetails.full_name || ''}
-                onChange={(e) => setPaymentDetails({...paymentDetails, full_name: e.target.value})}
-                placeholder="Enter full name"
-              />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="bank_name">Bank Name *</Label>
-              <Input
-                id="bank_name"
-                required
-                value={paymentDetails.bank_name || ''}
-                onChange={(e) => setPaymentDetails({...paymentDetails, bank_name: e.target.value})}
-                placeholder="Enter bank name"
-              />
-            </div>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div className="space-y-2">
-                <Label htmlFor="account_number">Account Number *</Label>
-                <Input
-                  id="account_number"
-                  required
-                  value={paymentDetails.account_number || ''}
-                  onChange={(e) => setPaymentDetails({...paymentDetails, account_number: e.target.value})}
-                  placeholder="Enter account number"
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="routing_number">Routing Number *</Label>
-                <Input
-                  id="routing_number"
-                  required
-                  value={paymentDetails.routing_number || ''}
-                  onChange={(e) => setPaymentDetails({...paymentDetails, routing_number: e.target.value})}
-                  placeholder="Enter routing number"
-                />
-              </div>
-            </div>
-          </div>
-        );
-      default:
-        return null;
     }
   };
 
-  const getStageColor = (stage: string) => {
-    switch (stage) {
-      case 'Referred Connection': return 'bg-pink-100 text-pink-800';
-      case 'Client Signed': return 'bg-purple-100 text-purple-800';
-      case 'Site Inspection Done': return 'bg-yellow-100 text-yellow-800';
-      case 'Documents Verified': return 'bg-orange-100 text-orange-800';
-      case 'Solar Installed': return 'bg-green-100 text-green-800';
-      default: return 'bg-gray-100 text-gray-800';
-    }
-  };
+  // Mirrors the database lock: referrers can only change a referral while it is in the first stage
+  const isEditable = (referral: Referral) => !isClosed(referral) && referral.stage === stages[0]?.key;
 
   const getBonusColor = (status: string) => {
     return status === 'Paid' ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800';
@@ -264,6 +188,13 @@ const ReferrerDashboard = () => {
     return <div className="flex items-center justify-center min-h-[400px]">Loading...</div>;
   }
 
+  const bonusEarned = referrals
+    .filter(r => r.bonus_status === 'Paid')
+    .reduce((sum, r) => sum + Number(r.bonus_amount), 0);
+  const bonusPending = referrals
+    .filter(r => r.bonus_status === 'Pending' && !isClosed(r))
+    .reduce((sum, r) => sum + Number(r.bonus_amount), 0);
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -273,16 +204,23 @@ const ReferrerDashboard = () => {
             Total Referrals: {referrals.length}
           </Badge>
           <Badge variant="secondary" className="text-lg px-3 py-1">
-            Bonus Earned: ${referrals.filter(r => r.bonus_status === 'Paid').length * 500}
+            Bonus Earned: {formatCurrency(bonusEarned)}
           </Badge>
+          {bonusPending > 0 && (
+            <Badge variant="outline" className="text-sm px-3 py-1">
+              Pending: {formatCurrency(bonusPending)}
+            </Badge>
+          )}
         </div>
       </div>
 
       <Tabs defaultValue="referrals" className="w-full">
         <TabsList>
           <TabsTrigger value="referrals">My Referrals</TabsTrigger>
+          <TabsTrigger value="stats">My Stats</TabsTrigger>
           <TabsTrigger value="add">Add New Referral</TabsTrigger>
           <TabsTrigger value="payment">Payment Details</TabsTrigger>
+          <TabsTrigger value="notifications">Notifications</TabsTrigger>
         </TabsList>
 
         <TabsContent value="referrals" className="space-y-4">
@@ -300,22 +238,33 @@ const ReferrerDashboard = () => {
                     <div className="flex justify-between items-start">
                       <CardTitle className="text-xl">{referral.client_name}</CardTitle>
                       <div className="flex flex-col items-end gap-1 text-sm font-medium text-muted-foreground">
+                      {isClosed(referral) ? (
                       <div className="flex items-center gap-2">
-                      <span>stage:</span>
-                      <Badge className={getStageColor(referral.stage)}>
-                      {referral.stage}
+                      <span>status:</span>
+                      <Badge className="bg-gray-100 text-gray-800">
+                      Closed — {describeClosure(referral.outcome, referral.close_reason)}
                       </Badge>
                       </div>
+                      ) : (
+                      <div className="flex items-center gap-2">
+                      <span>stage:</span>
+                      <StageBadge stageKey={referral.stage} stages={stages} />
+                      </div>
+                      )}
                       <div className="flex items-center gap-2">
                       <span>bonus status:</span>
                       <Badge className={getBonusColor(referral.bonus_status)}>
                       {referral.bonus_status}
                       </Badge>
                       </div>
+                      <div className="flex items-center gap-2">
+                      <span>bonus:</span>
+                      <span className="text-foreground">{formatCurrency(referral.bonus_amount)}</span>
+                      </div>
                       </div>
                     </div>
                     <CardDescription>
-                      Added on {new Date(referral.created_at).toLocaleDateString()}
+                      {referral.source === 'link' ? 'Submitted through your link' : 'Added'} on {new Date(referral.created_at).toLocaleDateString()}
                     </CardDescription>
                   </CardHeader>
                   <CardContent>
@@ -328,12 +277,62 @@ const ReferrerDashboard = () => {
                         <p><strong>Address:</strong> {referral.client_address || 'N/A'}</p>
                       </div>
                     </div>
+                    {referral.duplicate_of && (
+                      <p className="mt-4 text-sm text-muted-foreground">
+                        This client was already referred, so this referral is not eligible for a bonus.
+                      </p>
+                    )}
                     {referral.notes && (
                       <div className="mt-4">
                         <p><strong>Notes:</strong></p>
                         <p className="text-sm text-muted-foreground mt-1">{referral.notes}</p>
                       </div>
                     )}
+                    {isEditable(referral) ? (
+                      <div className="flex gap-2 mt-4">
+                        <EditReferralDialog referral={referral} onSaved={fetchReferrals} />
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="outline" size="sm" className="flex items-center gap-2 text-destructive">
+                              <Trash2 className="h-4 w-4" />
+                              Withdraw
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Withdraw this referral?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                {referral.client_name} will be removed from your referrals. This cannot be undone.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => handleWithdrawReferral(referral.id)}>
+                                Withdraw
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </div>
+                    ) : (
+                      <p className="flex items-center gap-2 mt-4 text-sm text-muted-foreground">
+                        <Lock className="h-4 w-4" />
+                        {isClosed(referral)
+                          ? 'This referral has been closed. Contact an admin if this is a mistake.'
+                          : 'Details are locked once the client has signed. Contact an admin for changes.'}
+                      </p>
+                    )}
+                    <Collapsible className="mt-4">
+                      <CollapsibleTrigger asChild>
+                        <Button variant="ghost" size="sm" className="flex items-center gap-2 px-0">
+                          <History className="h-4 w-4" />
+                          View history
+                        </Button>
+                      </CollapsibleTrigger>
+                      <CollapsibleContent className="pt-2">
+                        <ReferralTimeline referralId={referral.id} />
+                      </CollapsibleContent>
+                    </Collapsible>
                   </CardContent>
                 </Card>
               ))}
@@ -341,7 +340,12 @@ const ReferrerDashboard = () => {
           )}
         </TabsContent>
 
-        <TabsContent value="add">
+        <TabsContent value="stats">
+          <ReferrerStats referrals={referrals} stages={stages} />
+        </TabsContent>
+
+        <TabsContent value="add" className="space-y-4">
+          {userProfile && <ReferralLinkCard referralCode={userProfile.referral_code} />}
           <Card>
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
@@ -412,44 +416,33 @@ const ReferrerDashboard = () => {
               </CardDescription>
             </CardHeader>
             <CardContent>
-              <form onSubmit={handleSavePaymentDetails} className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="payment_method">Payment Method *</Label>
-                  <Select value={paymentMethod} onValueChange={(value) => {
-                    setPaymentMethod(value);
-                    setPaymentDetails({});
-                  }}>
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select payment method" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="zelle">Zelle</SelectItem>
-                      <SelectItem value="paypal">PayPal</SelectItem>
-                      <SelectItem value="bank_transfer">Bank Transfer (ACH)</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
+              {userProfile && (
+                <PaymentDetailsForm
+                  key={userProfile.updated_at}
+                  profile={userProfile}
+                  onSaved={fetchUserProfile}
+                />
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
 
-                {renderPaymentFields()}
-
-                {paymentMethod && (
-                  <Button type="submit" disabled={isSavingPayment} className="w-full">
-                    {isSavingPayment ? 'Saving...' : 'Save Payment Details'}
-                  </Button>
-                )}
-
-                {userProfile?.payment_method && (
-                  <div className="mt-4 p-4 bg-muted rounded-lg">
-                    <h4 className="font-medium mb-2">Current Payment Method:</h4>
-                    <p className="text-sm text-muted-foreground">
-                      {userProfile.payment_method.replace('_', ' ').toUpperCase()} - 
-                      {userProfile.payment_method === 'zelle' && ` ${userProfile.payment_details?.email_or_phone}`}
-                      {userProfile.payment_method === 'paypal' && ` ${userProfile.payment_details?.email}`}
-                      {userProfile.payment_method === 'bank_transfer' && ` ${userProfile.payment_details?.bank_name} (...${userProfile.payment_details?.account_number?.slice(-4)})`}
-                    </p>
-                  </div>
-                )}
-              </form>
+        <TabsContent value="notifications">
+          <Card>
+            <CardHeader>
+              <CardTitle>Notifications</CardTitle>
+              <CardDescription>
+                Choose which emails and text messages we send you about your referrals
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {user && (
+                <NotificationPreferencesForm
+                  userId={user.id}
+                  phone={userProfile?.phone ?? null}
+                  onPhoneSaved={fetchUserProfile}
+                />
+              )}
             </CardContent>
           </Card>
         </TabsContent>
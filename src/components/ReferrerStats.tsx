@@ -0,0 +1,184 @@
+import { useState, useEffect } from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent
+} from '@/components/ui/chart';
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import { formatCurrency } from '@/lib/format';
+import { isClosed } from '@/lib/referralOutcomes';
+import { ReferralStageRow } from '@/lib/referralStages';
+
+type MonthlyEarnings = Database['public']['Functions']['get_my_monthly_earnings']['Returns'][number];
+type ProjectedBonus = Database['public']['Functions']['get_my_projected_bonuses']['Returns'][number];
+
+interface ReferrerStatsProps {
+  referrals: {
+    id: string;
+    stage: string;
+    outcome: string;
+    bonus_status: string;
+    bonus_amount: number;
+  }[];
+  stages: ReferralStageRow[];
+}
+
+const stageChartConfig = {
+  count: { label: 'Referrals', color: 'hsl(var(--primary))' }
+} satisfies ChartConfig;
+
+const earningsChartConfig = {
+  paid: { label: 'Paid', color: 'hsl(var(--accent))' },
+  owed: { label: 'Awaiting payout', color: 'hsl(var(--gold))' },
+  projected: { label: 'Projected', color: 'hsl(var(--muted-foreground))' }
+} satisfies ChartConfig;
+
+const ReferrerStats = ({ referrals, stages }: ReferrerStatsProps) => {
+  const [monthlyEarnings, setMonthlyEarnings] = useState<MonthlyEarnings[]>([]);
+  const [projectedBonuses, setProjectedBonuses] = useState<ProjectedBonus[]>([]);
+
+  useEffect(() => {
+    fetchEarnings();
+  }, [referrals]);
+
+  const fetchEarnings = async () => {
+    const [earningsResult, projectedResult] = await Promise.all([
+      supabase.rpc('get_my_monthly_earnings'),
+      supabase.rpc('get_my_projected_bonuses')
+    ]);
+
+    if (earningsResult.error) {
+      console.error('Error fetching earnings:', earningsResult.error);
+    } else {
+      setMonthlyEarnings(earningsResult.data || []);
+    }
+
+    if (projectedResult.error) {
+      console.error('Error fetching projected bonuses:', projectedResult.error);
+    } else {
+      setProjectedBonuses(projectedResult.data || []);
+    }
+  };
+
+  const openReferrals = referrals.filter(r => !isClosed(r));
+  const closedCount = referrals.length - openReferrals.length;
+
+  const stageData = [
+    ...stages.map(stage => ({
+      label: stage.label,
+      count: openReferrals.filter(r => r.stage === stage.key).length
+    })),
+    ...(closedCount > 0 ? [{ label: 'Closed', count: closedCount }] : [])
+  ];
+
+  // Bonuses already earned at a bonus-eligible stage that have not been paid yet
+  const eligibleStageKeys = stages.filter(stage => stage.is_bonus_eligible).map(stage => stage.key);
+  const owedReferrals = openReferrals.filter(r =>
+    r.bonus_status === 'Pending' && eligibleStageKeys.includes(r.stage) && Number(r.bonus_amount) > 0
+  );
+  const owedTotal = owedReferrals.reduce((sum, r) => sum + Number(r.bonus_amount), 0);
+  const projectedTotal = projectedBonuses.reduce((sum, p) => sum + Number(p.projected_amount), 0);
+  const paidTotal = monthlyEarnings.reduce((sum, m) => sum + Number(m.paid_total), 0);
+
+  const earningsData = [
+    ...monthlyEarnings.map(m => ({
+      period: new Date(`${m.month}T00:00:00`).toLocaleDateString(undefined, { month: 'short', year: 'numeric' }),
+      paid: Number(m.paid_total),
+      owed: 0,
+      projected: 0
+    })),
+    ...(owedTotal > 0 || projectedTotal > 0
+      ? [{ period: 'Upcoming', paid: 0, owed: owedTotal, projected: projectedTotal }]
+      : [])
+  ];
+
+  // Projections cover the last stage before the first bonus-eligible one (see get_my_projected_bonuses)
+  const firstEligibleIndex = stages.findIndex(stage => stage.is_bonus_eligible);
+  const thresholdStage = firstEligibleIndex > 0 ? stages[firstEligibleIndex - 1] : undefined;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Paid to you</CardDescription>
+            <CardTitle className="text-2xl">{formatCurrency(paidTotal)}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Awaiting payout</CardDescription>
+            <CardTitle className="text-2xl">{formatCurrency(owedTotal)}</CardTitle>
+          </CardHeader>
+          <CardContent className="text-xs text-muted-foreground">
+            {owedReferrals.length} completed referral{owedReferrals.length === 1 ? '' : 's'}, paid in the next payout run
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Projected</CardDescription>
+            <CardTitle className="text-2xl">{formatCurrency(projectedTotal)}</CardTitle>
+          </CardHeader>
+          <CardContent className="text-xs text-muted-foreground">
+            {projectedBonuses.length === 0
+              ? 'No referrals are close to completion yet'
+              : `${projectedBonuses.length} referral${projectedBonuses.length === 1 ? '' : 's'} at "${thresholdStage?.label}", estimated with the current bonus rules`}
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <Card>
+          <CardHeader>
+            <CardTitle>Referrals by Stage</CardTitle>
+            <CardDescription>Where your referrals are in the pipeline right now</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={stageChartConfig} className="h-[250px] w-full">
+              <BarChart data={stageData} layout="vertical" margin={{ left: 24 }}>
+                <CartesianGrid horizontal={false} />
+                <XAxis type="number" allowDecimals={false} />
+                <YAxis type="category" dataKey="label" width={140} tickLine={false} axisLine={false} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Earnings</CardTitle>
+            <CardDescription>Bonuses paid each month, and what is still to come</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {earningsData.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">No earnings yet.</p>
+            ) : (
+              <ChartContainer config={earningsChartConfig} className="h-[250px] w-full">
+                <BarChart data={earningsData}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="period" tickLine={false} />
+                  <YAxis tickFormatter={(value: number) => formatCurrency(value)} width={80} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="paid" stackId="earnings" fill="var(--color-paid)" />
+                  <Bar dataKey="owed" stackId="earnings" fill="var(--color-owed)" />
+                  <Bar dataKey="projected" stackId="earnings" fill="var(--color-projected)" />
+                </BarChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default ReferrerStats;
@@ -0,0 +1,21 @@
+import { Navigate } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { AppRole } from '@/lib/userAccounts';
+
+interface RequireRoleProps {
+  roles: AppRole[];
+  children: React.ReactNode;
+}
+
+/** Route guard: users without any of the roles are sent back to their own default view. */
+const RequireRole = ({ roles, children }: RequireRoleProps) => {
+  const { hasRole } = useAuth();
+
+  if (!roles.some(role => hasRole(role))) {
+    return <Navigate to="/" replace />;
+  }
+
+  return <>{children}</>;
+};
+
+export default RequireRole;
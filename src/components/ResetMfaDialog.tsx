@@ -0,0 +1,77 @@
+import { useState } from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { toast } from '@/hooks/use-toast';
+import { resetUserMfa } from '@/lib/mfa';
+import { ShieldOff } from 'lucide-react';
+
+interface ResetMfaDialogProps {
+  userId: string;
+  userName: string;
+  onReset?: () => void;
+}
+
+const ResetMfaDialog = ({ userId, userName, onReset }: ResetMfaDialogProps) => {
+  const [isResetting, setIsResetting] = useState(false);
+
+  const handleReset = async () => {
+    setIsResetting(true);
+    try {
+      const { removed } = await resetUserMfa(userId);
+
+      toast({
+        title: "Success",
+        description: removed > 0
+          ? `Two-factor authentication reset for ${userName}. They will set it up again at their next sign-in.`
+          : `${userName} had no two-factor authentication set up`
+      });
+
+      onReset?.();
+    } catch (error) {
+      console.error('Error resetting MFA:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to reset two-factor authentication",
+        variant: "destructive"
+      });
+    } finally {
+      setIsResetting(false);
+    }
+  };
+
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="flex items-center gap-1" disabled={isResetting}>
+          <ShieldOff className="h-4 w-4" />
+          Reset MFA
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Reset two-factor authentication?</AlertDialogTitle>
+          <AlertDialogDescription>
+            This removes {userName}'s authenticator app and recovery codes. Only do this after confirming
+            their identity, for example when they have lost their phone.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={handleReset}>Reset</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default ResetMfaDialog;
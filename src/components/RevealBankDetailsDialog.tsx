@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { Eye } from 'lucide-react';
+
+interface RevealBankDetailsDialogProps {
+  userId: string;
+  userName: string;
+}
+
+interface RevealedBankDetails {
+  full_name: string;
+  bank_name: string;
+  account_type: string;
+  account_number: string;
+  routing_number: string;
+}
+
+const RevealBankDetailsDialog = ({ userId, userName }: RevealBankDetailsDialogProps) => {
+  const [reason, setReason] = useState('');
+  const [details, setDetails] = useState<RevealedBankDetails | null>(null);
+  const [isRevealing, setIsRevealing] = useState(false);
+
+  const handleOpenChange = (open: boolean) => {
+    // Never keep revealed numbers around once the dialog is closed
+    if (!open) {
+      setReason('');
+      setDetails(null);
+    }
+  };
+
+  const handleReveal = async () => {
+    setIsRevealing(true);
+    try {
+      const { data, error } = await supabase.rpc('reveal_payment_details', {
+        _user_id: userId,
+        _reason: reason
+      });
+
+      if (error) throw error;
+      setDetails(data as unknown as RevealedBankDetails);
+    } catch (error) {
+      console.error('Error revealing bank details:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to reveal bank details",
+        variant: "destructive"
+      });
+    } finally {
+      setIsRevealing(false);
+    }
+  };
+
+  return (
+    <Dialog onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-auto px-1 py-0 text-xs flex items-center gap-1">
+          <Eye className="h-3 w-3" />
+          Reveal
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Bank Details for {userName}</DialogTitle>
+          <DialogDescription>
+            Revealing full account numbers is logged with your name and reason.
+          </DialogDescription>
+        </DialogHeader>
+        {details ? (
+          <div className="space-y-2 text-sm">
+            <p><strong>Name on account:</strong> {details.full_name}</p>
+            <p><strong>Bank:</strong> {details.bank_name} ({details.account_type})</p>
+            <p><strong>Routing number:</strong> <span className="font-mono">{details.routing_number}</span></p>
+            <p><strong>Account number:</strong> <span className="font-mono">{details.account_number}</span></p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="reveal_reason">Reason *</Label>
+              <Input
+                id="reveal_reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g. Verifying returned ACH payment"
+              />
+            </div>
+            <Button onClick={handleReveal} disabled={isRevealing || !reason.trim()} className="w-full">
+              {isRevealing ? 'Revealing...' : 'Reveal Bank Details'}
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RevealBankDetailsDialog;
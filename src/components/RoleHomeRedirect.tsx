@@ -0,0 +1,26 @@
+import { Navigate } from 'react-router-dom';
+import { Card, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useAuth } from '@/hooks/useAuth';
+import { defaultRole, roleHomePaths } from '@/lib/userAccounts';
+
+const RoleHomeRedirect = () => {
+  const { roles } = useAuth();
+  const role = defaultRole(roles);
+
+  if (!role) {
+    return (
+      <Card className="max-w-md mx-auto">
+        <CardHeader>
+          <CardTitle>No Access Yet</CardTitle>
+          <CardDescription>
+            Your account does not have a role. Contact the program administrator to get access.
+          </CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  return <Navigate to={roleHomePaths[role]} replace />;
+};
+
+export default RoleHomeRedirect;
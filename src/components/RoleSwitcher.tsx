@@ -0,0 +1,62 @@
+import { useLocation, useNavigate } from 'react-router-dom';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/hooks/useAuth';
+import { AppRole, ROLES, roleHomePaths, roleLabels } from '@/lib/userAccounts';
+import { Briefcase, Eye, Shield, User, Wallet } from 'lucide-react';
+
+const roleIcons: Record<AppRole, typeof User> = {
+  admin: Shield,
+  finance: Wallet,
+  sales_rep: Briefcase,
+  auditor: Eye,
+  referrer: User
+};
+
+/** Shows the view the user is in, and lets users with several roles move between views. */
+const RoleSwitcher = () => {
+  const { roles } = useAuth();
+  const location = useLocation();
+  const navigate = useNavigate();
+
+  // Staff roles share the admin panel, so each view is listed once, under the user's first role for it
+  const userRoles = ROLES.filter(role => roles.includes(role));
+  const views = userRoles.filter(
+    (role, index) => userRoles.findIndex(other => roleHomePaths[other] === roleHomePaths[role]) === index
+  );
+  const currentRole = views.find(role => location.pathname.startsWith(roleHomePaths[role]));
+
+  if (!currentRole) return null;
+
+  const Icon = roleIcons[currentRole];
+
+  if (views.length === 1) {
+    return (
+      <div className="flex items-center gap-2">
+        <Icon className="h-5 w-5 text-primary" />
+        <span className="text-sm bg-primary/10 px-2 py-1 rounded">
+          {roleLabels[currentRole]}
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <Icon className="h-5 w-5 text-primary" />
+      <Select value={currentRole} onValueChange={(value) => navigate(roleHomePaths[value as AppRole])}>
+        <SelectTrigger className="h-8 w-36" aria-label="Switch view">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {views.map((role) => (
+            <SelectItem key={role} value={role}>
+              {roleLabels[role]} view
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
+
+export default RoleSwitcher;
@@ -0,0 +1,19 @@
+import { Badge } from '@/components/ui/badge';
+import { ReferralStageRow, findStage, getStageColorClass } from '@/lib/referralStages';
+
+interface StageBadgeProps {
+  stageKey: string;
+  stages: ReferralStageRow[];
+  className?: string;
+}
+
+const StageBadge = ({ stageKey, stages, className }: StageBadgeProps) => {
+  const stage = findStage(stages, stageKey);
+  return (
+    <Badge className={`${getStageColorClass(stage?.color)} ${className ?? ''}`}>
+      {stage?.label ?? stageKey}
+    </Badge>
+  );
+};
+
+export default StageBadge;
@@ -0,0 +1,185 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { toast } from '@/hooks/use-toast';
+import {
+  AppRole,
+  ROLES,
+  deactivateUser,
+  reactivateUser,
+  resendConfirmationEmail,
+  roleLabels,
+  setUserRole
+} from '@/lib/userAccounts';
+import { MoreHorizontal } from 'lucide-react';
+
+interface UserActionsMenuProps {
+  userId: string;
+  userName: string;
+  roles: AppRole[];
+  emailConfirmed: boolean;
+  deactivated: boolean;
+  isCurrentUser: boolean;
+  onChange: () => void;
+}
+
+const UserActionsMenu = ({
+  userId,
+  userName,
+  roles,
+  emailConfirmed,
+  deactivated,
+  isCurrentUser,
+  onChange
+}: UserActionsMenuProps) => {
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDeactivating, setIsDeactivating] = useState(false);
+  const [reason, setReason] = useState('');
+
+  const runAction = async (action: () => Promise<void>, successMessage: string, errorMessage: string) => {
+    setIsSaving(true);
+    try {
+      await action();
+
+      toast({
+        title: "Success",
+        description: successMessage
+      });
+
+      onChange();
+      return true;
+    } catch (error) {
+      console.error('Error updating user account:', error);
+      toast({
+        title: "Error",
+        description: error.message || errorMessage,
+        variant: "destructive"
+      });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRoleChange = (role: AppRole, granted: boolean) => {
+    runAction(
+      () => setUserRole(userId, role, granted),
+      granted ? `${roleLabels[role]} role granted to ${userName}` : `${roleLabels[role]} role removed from ${userName}`,
+      "Failed to update roles"
+    );
+  };
+
+  const handleDeactivate = async () => {
+    const done = await runAction(
+      () => deactivateUser(userId, reason),
+      `${userName} has been deactivated and signed out`,
+      "Failed to deactivate account"
+    );
+
+    if (done) {
+      setIsDeactivating(false);
+      setReason('');
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" disabled={isSaving}>
+            <MoreHorizontal className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuLabel>Roles</DropdownMenuLabel>
+          {ROLES.map((role) => (
+            <DropdownMenuCheckboxItem
+              key={role}
+              checked={roles.includes(role)}
+              disabled={isCurrentUser && role === 'admin'}
+              onCheckedChange={(checked) => handleRoleChange(role, checked)}
+            >
+              {roleLabels[role]}
+            </DropdownMenuCheckboxItem>
+          ))}
+          <DropdownMenuSeparator />
+          {!emailConfirmed && (
+            <DropdownMenuItem
+              onSelect={() => runAction(
+                () => resendConfirmationEmail(userId),
+                `Confirmation email sent to ${userName}`,
+                "Failed to resend confirmation email"
+              )}
+            >
+              Resend confirmation email
+            </DropdownMenuItem>
+          )}
+          {deactivated ? (
+            <DropdownMenuItem
+              onSelect={() => runAction(
+                () => reactivateUser(userId),
+                `${userName} can sign in again`,
+                "Failed to reactivate account"
+              )}
+            >
+              Reactivate account
+            </DropdownMenuItem>
+          ) : (
+            <DropdownMenuItem
+              disabled={isCurrentUser}
+              className="text-destructive"
+              onSelect={() => setIsDeactivating(true)}
+            >
+              Deactivate account
+            </DropdownMenuItem>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={isDeactivating} onOpenChange={setIsDeactivating}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Deactivate {userName}</DialogTitle>
+            <DialogDescription>
+              They will be signed out and cannot sign in again until the account is reactivated. Their referrals and
+              payout history are kept, but their referral link stops working.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor={`deactivate_reason_${userId}`}>Reason *</Label>
+              <Textarea
+                id={`deactivate_reason_${userId}`}
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Why is this account being deactivated?"
+                rows={3}
+              />
+            </div>
+            <Button
+              variant="destructive"
+              onClick={handleDeactivate}
+              disabled={isSaving || !reason.trim()}
+              className="w-full"
+            >
+              {isSaving ? 'Deactivating...' : 'Deactivate Account'}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default UserActionsMenu;
@@ -2,11 +2,13 @@ import { createContext, useContext, useEffect, useState } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
+import { AppRole } from '@/lib/userAccounts';
 
 interface AuthContextType {
   user: User | null;
   session: Session | null;
-  userRole: string | null;
+  roles: AppRole[];
+  hasRole: (role: AppRole) => boolean;
   loading: boolean;
   signUp: (email: string, password: string, name: string) => Promise<{ error: any }>;
   signIn: (email: string, password: string) => Promise<{ error: any }>;
@@ -20,10 +22,29 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
-  const [userRole, setUserRole] = useState<string | null>(null);
+  const [roles, setRoles] = useState<AppRole[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
+    // A user can hold several roles, e.g. an admin who also refers customers
+    const loadRoles = (userId: string) => {
+      setTimeout(async () => {
+        try {
+          const { data: roleData, error } = await supabase
+            .from('user_roles')
+            .select('role')
+            .eq('user_id', userId);
+
+          if (error) throw error;
+          setRoles(roleData.map(r => r.role));
+        } catch (error) {
+          console.error('Error fetching user roles:', error);
+        } finally {
+          setLoading(false);
+        }
+      }, 0);
+    };
+
     // Check if this is a password recovery flow
     const urlParams = new URLSearchParams(window.location.search);
     const isRecoveryFlow = urlParams.get('type') === 'recovery';
@@ -63,24 +84,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         setUser(session?.user ?? null);
         
         if (session?.user) {
-          // Fetch user role
-          setTimeout(async () => {
-            try {
-              const { data: roleData } = await supabase
-                .from('user_roles')
-                .select('role')
-                .eq('user_id', session.user.id)
-                .single();
-              
-              setUserRole(roleData?.role || null);
-            } catch (error) {
-              console.error('Error fetching user role:', error);
-            } finally {
-              setLoading(false);
-            }
-          }, 0);
+          loadRoles(session.user.id);
         } else {
-          setUserRole(null);
+          setRoles([]);
           setLoading(false);
         }
       }
@@ -93,22 +99,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         setUser(session?.user ?? null);
         
         if (session?.user) {
-          // Fetch user role for existing session
-          setTimeout(async () => {
-            try {
-              const { data: roleData } = await supabase
-                .from('user_roles')
-                .select('role')
-                .eq('user_id', session.user.id)
-                .single();
-              
-              setUserRole(roleData?.role || null);
-            } catch (error) {
-              console.error('Error fetching user role:', error);
-            } finally {
-              setLoading(false);
-            }
-          }, 0);
+          loadRoles(session.user.id);
         } else {
           setLoading(false);
         }
@@ -162,7 +153,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     if (error) {
       toast({
         title: "Sign in failed",
-        description: error.message,
+        description: error.message.includes('banned')
+          ? 'This account has been deactivated. Contact the program administrator.'
+          : error.message,
         variant: "destructive"
       });
     }
@@ -174,7 +167,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     await supabase.auth.signOut();
     setUser(null);
     setSession(null);
-    setUserRole(null);
+    setRoles([]);
   };
 
   const resetPassword = async (email: string) => {
@@ -253,11 +246,14 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     return { error };
   };
 
+  const hasRole = (role: AppRole) => roles.includes(role);
+
   return (
     <AuthContext.Provider value={{
       user,
       session,
-      userRole,
+      roles,
+      hasRole,
       loading,
       signUp,
       signIn,
@@ -0,0 +1,85 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+
+export type Notification = Tables<'notifications'>;
+
+const FEED_LIMIT = 20;
+
+/** The latest notifications for a user and their unread count, kept live through Realtime. */
+export function useNotifications(userId: string | undefined) {
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const refresh = useCallback(async () => {
+    if (!userId) return;
+
+    const [feedResult, unreadResult] = await Promise.all([
+      supabase
+        .from('notifications')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(FEED_LIMIT),
+      supabase
+        .from('notifications')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .is('read_at', null)
+    ]);
+
+    if (feedResult.error) {
+      console.error('Error fetching notifications:', feedResult.error);
+    } else {
+      setNotifications(feedResult.data || []);
+    }
+
+    if (unreadResult.error) {
+      console.error('Error counting unread notifications:', unreadResult.error);
+    } else {
+      setUnreadCount(unreadResult.count || 0);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    if (!userId) return;
+    refresh();
+
+    const channel = supabase
+      .channel(`notifications:${userId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+        () => refresh()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, refresh]);
+
+  const markAsRead = async (notificationId: string) => {
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('id', notificationId)
+      .is('read_at', null);
+
+    if (error) console.error('Error marking notification read:', error);
+    refresh();
+  };
+
+  const markAllAsRead = async () => {
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .is('read_at', null);
+
+    if (error) console.error('Error marking notifications read:', error);
+    refresh();
+  };
+
+  return { notifications, unreadCount, markAsRead, markAllAsRead, refresh };
+}
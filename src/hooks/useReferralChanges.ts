@@ -0,0 +1,42 @@
+import { useEffect, useId, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+// Bulk updates (a payout run, a bonus recalculation) arrive as a burst of row changes
+const REFRESH_DELAY_MS = 300;
+
+/**
+ * Calls onChange whenever referrals change in the database, through Supabase Realtime.
+ * Pass userId to only listen to one referrer's referrals. RLS decides what each
+ * subscriber receives, so referrers never hear about other people's referrals.
+ */
+export function useReferralChanges(onChange: () => void, userId?: string) {
+  const channelId = useId();
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const channel = supabase
+      .channel(`referral-changes${channelId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'referrals',
+          ...(userId ? { filter: `user_id=eq.${userId}` } : {})
+        },
+        () => {
+          clearTimeout(timer);
+          timer = setTimeout(() => onChangeRef.current(), REFRESH_DELAY_MS);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      clearTimeout(timer);
+      supabase.removeChannel(channel);
+    };
+  }, [channelId, userId]);
+}
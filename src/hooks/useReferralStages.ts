@@ -0,0 +1,29 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { ReferralStageRow } from '@/lib/referralStages';
+
+/** Pipeline stages in order, as configured by admins. */
+export function useReferralStages() {
+  const [stages, setStages] = useState<ReferralStageRow[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('referral_stages')
+      .select('*')
+      .order('position', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching referral stages:', error);
+    } else {
+      setStages(data || []);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { stages, loading, refresh };
+}
@@ -0,0 +1,36 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface SalesRep {
+  user_id: string;
+  name: string;
+}
+
+/** Active sales reps who can be assigned referrals, by name. */
+export function useSalesReps() {
+  const [salesReps, setSalesReps] = useState<SalesRep[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    const { data, error } = await supabase.rpc('get_sales_reps');
+
+    if (error) {
+      console.error('Error fetching sales reps:', error);
+    } else {
+      setSalesReps(data || []);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const salesRepName = useCallback(
+    (userId: string | null) =>
+      userId ? salesReps.find(rep => rep.user_id === userId)?.name || 'Former sales rep' : 'Unassigned',
+    [salesReps]
+  );
+
+  return { salesReps, loading, refresh, salesRepName };
+}
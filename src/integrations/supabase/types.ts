@@ -14,83 +14,830 @@ export type Database = {
   }
   public: {
     Tables: {
+      admin_audit_log: {
+        Row: {
+          action: string
+          actor_id: string | null
+          created_at: string
+          details: Json
+          id: string
+          target_user_id: string | null
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          created_at?: string
+          details?: Json
+          id?: string
+          target_user_id?: string | null
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          created_at?: string
+          details?: Json
+          id?: string
+          target_user_id?: string | null
+        }
+        Relationships: []
+      }
+      admin_permissions: {
+        Row: {
+          created_at: string
+          granted_by: string | null
+          id: string
+          permission: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          granted_by?: string | null
+          id?: string
+          permission: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          granted_by?: string | null
+          id?: string
+          permission?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      bonus_rules: {
+        Row: {
+          amount: number
+          created_at: string
+          id: string
+          is_active: boolean
+          min_installs: number | null
+          name: string
+          rule_type: string
+          stage: string | null
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          min_installs?: number | null
+          name: string
+          rule_type: string
+          stage?: string | null
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          min_installs?: number | null
+          name?: string
+          rule_type?: string
+          stage?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bonus_rules_stage_fkey"
+            columns: ["stage"]
+            isOneToOne: false
+            referencedRelation: "referral_stages"
+            referencedColumns: ["key"]
+          },
+        ]
+      }
+      consent_texts: {
+        Row: {
+          body: string
+          created_at: string
+          is_current: boolean
+          version: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          is_current?: boolean
+          version: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          is_current?: boolean
+          version?: string
+        }
+        Relationships: []
+      }
+      mfa_recovery_codes: {
+        Row: {
+          code_hash: string
+          created_at: string
+          id: string
+          used_at: string | null
+          user_id: string
+        }
+        Insert: {
+          code_hash: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+          user_id: string
+        }
+        Update: {
+          code_hash?: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      notification_preferences: {
+        Row: {
+          created_at: string
+          email_bonus_paid: boolean
+          email_referral_received: boolean
+          email_stage_changed: boolean
+          sms_bonus_paid: boolean
+          sms_stage_changed: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          email_bonus_paid?: boolean
+          email_referral_received?: boolean
+          email_stage_changed?: boolean
+          sms_bonus_paid?: boolean
+          sms_stage_changed?: boolean
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          email_bonus_paid?: boolean
+          email_referral_received?: boolean
+          email_stage_changed?: boolean
+          sms_bonus_paid?: boolean
+          sms_stage_changed?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      notification_templates: {
+        Row: {
+          body: string
+          created_at: string
+          kind: string
+          subject: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          kind: string
+          subject: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          kind?: string
+          subject?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          body: string
+          created_at: string
+          id: string
+          kind: string
+          read_at: string | null
+          referral_id: string | null
+          title: string
+          user_id: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          id?: string
+          kind: string
+          read_at?: string | null
+          referral_id?: string | null
+          title: string
+          user_id: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          id?: string
+          kind?: string
+          read_at?: string | null
+          referral_id?: string | null
+          title?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_referral_id_fkey"
+            columns: ["referral_id"]
+            isOneToOne: false
+            referencedRelation: "referrals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_detail_access_log: {
+        Row: {
+          actor_id: string | null
+          created_at: string
+          id: string
+          payout_batch_id: string | null
+          reason: string
+          user_id: string
+        }
+        Insert: {
+          actor_id?: string | null
+          created_at?: string
+          id?: string
+          payout_batch_id?: string | null
+          reason: string
+          user_id: string
+        }
+        Update: {
+          actor_id?: string | null
+          created_at?: string
+          id?: string
+          payout_batch_id?: string | null
+          reason?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_detail_access_log_payout_batch_id_fkey"
+            columns: ["payout_batch_id"]
+            isOneToOne: false
+            referencedRelation: "payout_batches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_detail_secrets: {
+        Row: {
+          account_number_encrypted: string
+          routing_number_encrypted: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          account_number_encrypted: string
+          routing_number_encrypted: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          account_number_encrypted?: string
+          routing_number_encrypted?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      payout_batches: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          notes: string | null
+          reference_number: string | null
+          sent_at: string | null
+          sent_by: string | null
+          status: string
+          total_amount: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          notes?: string | null
+          reference_number?: string | null
+          sent_at?: string | null
+          sent_by?: string | null
+          status?: string
+          total_amount?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          notes?: string | null
+          reference_number?: string | null
+          sent_at?: string | null
+          sent_by?: string | null
+          status?: string
+          total_amount?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      payout_item_secrets: {
+        Row: {
+          account_number_encrypted: string
+          created_at: string
+          item_id: string
+          routing_number_encrypted: string
+        }
+        Insert: {
+          account_number_encrypted: string
+          created_at?: string
+          item_id: string
+          routing_number_encrypted: string
+        }
+        Update: {
+          account_number_encrypted?: string
+          created_at?: string
+          item_id?: string
+          routing_number_encrypted?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payout_item_secrets_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: true
+            referencedRelation: "payout_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payout_items: {
+        Row: {
+          amount: number
+          batch_id: string
+          created_at: string
+          id: string
+          payee_name: string
+          payment_details: Json | null
+          payment_method: string
+          profile_id: string | null
+          referral_count: number
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          batch_id: string
+          created_at?: string
+          id?: string
+          payee_name: string
+          payment_details?: Json | null
+          payment_method: string
+          profile_id?: string | null
+          referral_count: number
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          batch_id?: string
+          created_at?: string
+          id?: string
+          payee_name?: string
+          payment_details?: Json | null
+          payment_method?: string
+          profile_id?: string | null
+          referral_count?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payout_items_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "payout_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payout_items_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           created_at: string
-          email: string | null
+          deactivated_at: string | null
+          email: string | null
+          id: string
+          name: string
+          payment_details: Json | null
+          payment_method: string | null
+          phone: string | null
+          referral_code: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          deactivated_at?: string | null
+          email?: string | null
+          id?: string
+          name: string
+          payment_details?: Json | null
+          payment_method?: string | null
+          phone?: string | null
+          referral_code?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          deactivated_at?: string | null
+          email?: string | null
+          id?: string
+          name?: string
+          payment_details?: Json | null
+          payment_method?: string | null
+          phone?: string | null
+          referral_code?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      program_settings: {
+        Row: {
+          created_at: string
+          description: string | null
+          key: string
+          updated_at: string
+          updated_by: string | null
+          value: Json
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          key: string
+          updated_at?: string
+          updated_by?: string | null
+          value: Json
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          key?: string
+          updated_at?: string
+          updated_by?: string | null
+          value?: Json
+        }
+        Relationships: []
+      }
+      referral_assignments: {
+        Row: {
+          assigned_by: string | null
+          assigned_by_name: string | null
+          assigned_to: string | null
+          created_at: string
+          id: string
+          method: string
+          previous_assigned_to: string | null
+          referral_id: string
+        }
+        Insert: {
+          assigned_by?: string | null
+          assigned_by_name?: string | null
+          assigned_to?: string | null
+          created_at?: string
+          id?: string
+          method: string
+          previous_assigned_to?: string | null
+          referral_id: string
+        }
+        Update: {
+          assigned_by?: string | null
+          assigned_by_name?: string | null
+          assigned_to?: string | null
+          created_at?: string
+          id?: string
+          method?: string
+          previous_assigned_to?: string | null
+          referral_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "referral_assignments_referral_id_fkey"
+            columns: ["referral_id"]
+            isOneToOne: false
+            referencedRelation: "referrals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      referral_duplicates: {
+        Row: {
+          created_at: string
+          id: string
+          matched_on: string[]
+          original_referral_id: string
+          referral_id: string
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          matched_on: string[]
+          original_referral_id: string
+          referral_id: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          matched_on?: string[]
+          original_referral_id?: string
+          referral_id?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "referral_duplicates_original_referral_id_fkey"
+            columns: ["original_referral_id"]
+            isOneToOne: false
+            referencedRelation: "referrals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "referral_duplicates_referral_id_fkey"
+            columns: ["referral_id"]
+            isOneToOne: false
+            referencedRelation: "referrals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      referral_events: {
+        Row: {
+          actor_id: string | null
+          actor_name: string | null
+          close_reason: string | null
+          created_at: string
+          event_type: string
+          id: string
+          new_bonus_status: Database["public"]["Enums"]["bonus_status"] | null
+          new_stage: string | null
+          note: string | null
+          old_bonus_status: Database["public"]["Enums"]["bonus_status"] | null
+          old_stage: string | null
+          outcome: string | null
+          referral_id: string
+        }
+        Insert: {
+          actor_id?: string | null
+          actor_name?: string | null
+          close_reason?: string | null
+          created_at?: string
+          event_type: string
+          id?: string
+          new_bonus_status?: Database["public"]["Enums"]["bonus_status"] | null
+          new_stage?: string | null
+          note?: string | null
+          old_bonus_status?: Database["public"]["Enums"]["bonus_status"] | null
+          old_stage?: string | null
+          outcome?: string | null
+          referral_id: string
+        }
+        Update: {
+          actor_id?: string | null
+          actor_name?: string | null
+          close_reason?: string | null
+          created_at?: string
+          event_type?: string
+          id?: string
+          new_bonus_status?: Database["public"]["Enums"]["bonus_status"] | null
+          new_stage?: string | null
+          note?: string | null
+          old_bonus_status?: Database["public"]["Enums"]["bonus_status"] | null
+          old_stage?: string | null
+          outcome?: string | null
+          referral_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "referral_events_referral_id_fkey"
+            columns: ["referral_id"]
+            isOneToOne: false
+            referencedRelation: "referrals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      referral_link_submissions: {
+        Row: {
+          created_at: string
           id: string
-          name: string
-          payment_details: Json | null
-          payment_method: string | null
+          ip_address: string | null
+          profile_id: string
+          referral_id: string | null
+          rejected_reason: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          ip_address?: string | null
+          profile_id: string
+          referral_id?: string | null
+          rejected_reason?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          ip_address?: string | null
+          profile_id?: string
+          referral_id?: string | null
+          rejected_reason?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "referral_link_submissions_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "referral_link_submissions_referral_id_fkey"
+            columns: ["referral_id"]
+            isOneToOne: false
+            referencedRelation: "referrals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      referral_stages: {
+        Row: {
+          color: string
+          created_at: string
+          id: string
+          is_bonus_eligible: boolean
+          is_terminal: boolean
+          key: string
+          label: string
+          position: number
           updated_at: string
-          user_id: string
         }
         Insert: {
+          color?: string
           created_at?: string
-          email?: string | null
           id?: string
-          name: string
-          payment_details?: Json | null
-          payment_method?: string | null
+          is_bonus_eligible?: boolean
+          is_terminal?: boolean
+          key: string
+          label: string
+          position: number
           updated_at?: string
-          user_id: string
         }
         Update: {
+          color?: string
           created_at?: string
-          email?: string | null
           id?: string
-          name?: string
-          payment_details?: Json | null
-          payment_method?: string | null
+          is_bonus_eligible?: boolean
+          is_terminal?: boolean
+          key?: string
+          label?: string
+          position?: number
           updated_at?: string
-          user_id?: string
         }
         Relationships: []
       }
       referrals: {
         Row: {
+          assigned_to: string | null
+          bonus_amount: number
           bonus_status: Database["public"]["Enums"]["bonus_status"]
           client_address: string | null
           client_email: string | null
           client_name: string
           client_phone: string | null
+          close_reason: string | null
+          closed_at: string | null
+          closed_by: string | null
+          consent_ip: string | null
+          consent_text_version: string | null
+          consented_at: string | null
           created_at: string
+          duplicate_of: string | null
           id: string
+          normalized_address: string | null
+          normalized_email: string | null
+          normalized_phone: string | null
           notes: string | null
+          outcome: string
+          payout_batch_id: string | null
           profile_id: string | null
-          stage: Database["public"]["Enums"]["referral_stage"]
+          source: string
+          stage: string
+          stage_entered_at: string
           updated_at: string
           user_id: string
         }
         Insert: {
+          assigned_to?: string | null
+          bonus_amount?: number
           bonus_status?: Database["public"]["Enums"]["bonus_status"]
           client_address?: string | null
           client_email?: string | null
           client_name: string
           client_phone?: string | null
+          close_reason?: string | null
+          closed_at?: string | null
+          closed_by?: string | null
+          consent_ip?: string | null
+          consent_text_version?: string | null
+          consented_at?: string | null
           created_at?: string
+          duplicate_of?: string | null
           id?: string
+          normalized_address?: string | null
+          normalized_email?: string | null
+          normalized_phone?: string | null
           notes?: string | null
+          outcome?: string
+          payout_batch_id?: string | null
           profile_id?: string | null
-          stage?: Database["public"]["Enums"]["referral_stage"]
+          source?: string
+          stage?: string
+          stage_entered_at?: string
           updated_at?: string
           user_id: string
         }
         Update: {
+          assigned_to?: string | null
+          bonus_amount?: number
           bonus_status?: Database["public"]["Enums"]["bonus_status"]
           client_address?: string | null
           client_email?: string | null
           client_name?: string
           client_phone?: string | null
+          close_reason?: string | null
+          closed_at?: string | null
+          closed_by?: string | null
+          consent_ip?: string | null
+          consent_text_version?: string | null
+          consented_at?: string | null
           created_at?: string
+          duplicate_of?: string | null
           id?: string
+          normalized_address?: string | null
+          normalized_email?: string | null
+          normalized_phone?: string | null
           notes?: string | null
+          outcome?: string
+          payout_batch_id?: string | null
           profile_id?: string | null
-          stage?: Database["public"]["Enums"]["referral_stage"]
+          source?: string
+          stage?: string
+          stage_entered_at?: string
           updated_at?: string
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "referrals_consent_text_version_fkey"
+            columns: ["consent_text_version"]
+            isOneToOne: false
+            referencedRelation: "consent_texts"
+            referencedColumns: ["version"]
+          },
+          {
+            foreignKeyName: "referrals_duplicate_of_fkey"
+            columns: ["duplicate_of"]
+            isOneToOne: false
+            referencedRelation: "referrals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "referrals_payout_batch_id_fkey"
+            columns: ["payout_batch_id"]
+            isOneToOne: false
+            referencedRelation: "payout_batches"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "referrals_profile_id_fkey"
             columns: ["profile_id"]
@@ -98,8 +845,78 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "referrals_stage_fkey"
+            columns: ["stage"]
+            isOneToOne: false
+            referencedRelation: "referral_stages"
+            referencedColumns: ["key"]
+          },
         ]
       }
+      sales_territories: {
+        Row: {
+          created_at: string
+          id: string
+          user_id: string
+          zip_prefix: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          user_id: string
+          zip_prefix: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          user_id?: string
+          zip_prefix?: string
+        }
+        Relationships: []
+      }
+      sms_opt_outs: {
+        Row: {
+          keyword: string
+          opted_out_at: string
+          phone: string
+        }
+        Insert: {
+          keyword: string
+          opted_out_at?: string
+          phone: string
+        }
+        Update: {
+          keyword?: string
+          opted_out_at?: string
+          phone?: string
+        }
+        Relationships: []
+      }
+      sms_templates: {
+        Row: {
+          body: string
+          created_at: string
+          kind: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          kind: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          kind?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -123,9 +940,233 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      referral_stage_entries: {
+        Row: {
+          entered_at: string | null
+          referral_id: string | null
+          stage: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "referral_events_referral_id_fkey"
+            columns: ["referral_id"]
+            isOneToOne: false
+            referencedRelation: "referrals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
+      admin_mfa_satisfied: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      calculate_bonus_amount: {
+        Args: {
+          _referral_id: string
+          _user_id: string
+          _stage: string
+        }
+        Returns: number
+      }
+      cancel_payout_batch: {
+        Args: {
+          _batch_id: string
+        }
+        Returns: undefined
+      }
+      choose_sales_rep: {
+        Args: {
+          _client_address: string
+        }
+        Returns: {
+          rep_id: string
+          method: string
+        }[]
+      }
+      close_referral: {
+        Args: {
+          _referral_id: string
+          _outcome: string
+          _reason: string
+        }
+        Returns: undefined
+      }
+      consume_mfa_recovery_code: {
+        Args: {
+          _user_id: string
+          _code: string
+        }
+        Returns: boolean
+      }
+      count_mfa_recovery_codes: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      create_payout_batch: {
+        Args: {
+          _referral_ids: string[]
+          _notes?: string
+        }
+        Returns: string
+      }
+      decrypt_payment_secret: {
+        Args: {
+          _value: string
+        }
+        Returns: string
+      }
+      encrypt_payment_secret: {
+        Args: {
+          _value: string
+        }
+        Returns: string
+      }
+      find_original_referral: {
+        Args: {
+          _referral_id: string
+          _created_at: string
+          _email: string
+          _phone: string
+          _address: string
+        }
+        Returns: {
+          original_referral_id: string
+          matched_on: string[]
+        }[]
+      }
+      generate_mfa_recovery_codes: {
+        Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
+      generate_referral_code: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      get_assignment_workload: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          assigned_to: string
+          stage: string
+          open_count: number
+        }[]
+      }
+      get_bonus_liability: {
+        Args: {
+          _from?: string
+          _to?: string
+        }
+        Returns: {
+          pending_total: number
+          pending_count: number
+          paid_total: number
+          paid_count: number
+        }[]
+      }
+      get_my_monthly_earnings: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          month: string
+          paid_total: number
+          paid_count: number
+        }[]
+      }
+      get_my_projected_bonuses: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          referral_id: string
+          stage: string
+          projected_amount: number
+        }[]
+      }
+      get_referral_totals: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          user_id: string
+          referral_count: number
+          pending_total: number
+          paid_total: number
+        }[]
+      }
+      get_referrer_by_code: {
+        Args: {
+          _code: string
+        }
+        Returns: {
+          first_name: string
+        }[]
+      }
+      get_sales_reps: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          user_id: string
+          name: string
+        }[]
+      }
+      get_stage_funnel: {
+        Args: {
+          _from?: string
+          _to?: string
+        }
+        Returns: {
+          stage: string
+          label: string
+          stage_position: number
+          reached: number
+          conversion_from_start: number
+          conversion_from_previous: number
+          median_days_from_previous: number
+        }[]
+      }
+      get_top_referrers: {
+        Args: {
+          _from?: string
+          _to?: string
+          _limit?: number
+        }
+        Returns: {
+          user_id: string
+          name: string
+          referral_count: number
+          completed_count: number
+          bonus_total: number
+        }[]
+      }
+      get_user_accounts: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          user_id: string
+          roles: Database["public"]["Enums"]["app_role"][]
+          last_sign_in_at: string
+          email_confirmed_at: string
+          deactivated_at: string
+        }[]
+      }
+      get_weekly_referral_counts: {
+        Args: {
+          _from?: string
+          _to?: string
+        }
+        Returns: {
+          week_start: string
+          referral_count: number
+        }[]
+      }
+      has_any_role: {
+        Args: {
+          _user_id: string
+          _roles: Database["public"]["Enums"]["app_role"][]
+        }
+        Returns: boolean
+      }
+      has_permission: {
+        Args: {
+          _user_id: string
+          _permission: string
+        }
+        Returns: boolean
+      }
       has_role: {
         Args: {
           _user_id: string
@@ -133,16 +1174,162 @@ export type Database = {
         }
         Returns: boolean
       }
+      initial_referral_stage: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      is_assignable_sales_rep: {
+        Args: {
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      is_mfa_verified: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      is_staff: {
+        Args: {
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      is_valid_routing_number: {
+        Args: {
+          _routing_number: string
+        }
+        Returns: boolean
+      }
+      mark_payout_batch_sent: {
+        Args: {
+          _batch_id: string
+          _reference_number: string
+        }
+        Returns: undefined
+      }
+      move_referral_stage: {
+        Args: {
+          _stage_id: string
+          _direction: number
+          _change_first_stage?: boolean
+        }
+        Returns: undefined
+      }
+      normalize_address: {
+        Args: {
+          _address: string
+        }
+        Returns: string
+      }
+      normalize_email: {
+        Args: {
+          _email: string
+        }
+        Returns: string
+      }
+      normalize_payment_details: {
+        Args: {
+          _method: string
+          _details: Json
+        }
+        Returns: Json
+      }
+      normalize_phone: {
+        Args: {
+          _phone: string
+        }
+        Returns: string
+      }
+      recalculate_pending_bonus_amounts: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      record_confirmation_resend: {
+        Args: {
+          _user_id: string
+        }
+        Returns: string
+      }
+      referral_stage_rank: {
+        Args: {
+          _stage: string
+        }
+        Returns: number
+      }
+      reopen_referral: {
+        Args: {
+          _referral_id: string
+        }
+        Returns: undefined
+      }
+      resolve_referral_duplicate: {
+        Args: {
+          _duplicate_id: string
+          _status: string
+        }
+        Returns: undefined
+      }
+      reveal_payment_details: {
+        Args: {
+          _user_id: string
+          _reason: string
+        }
+        Returns: Json
+      }
+      reveal_payout_batch_payment_details: {
+        Args: {
+          _batch_id: string
+        }
+        Returns: {
+          item_id: string
+          payment_details: Json
+        }[]
+      }
+      set_user_active: {
+        Args: {
+          _user_id: string
+          _active: boolean
+          _reason?: string
+        }
+        Returns: undefined
+      }
+      set_user_role: {
+        Args: {
+          _user_id: string
+          _role: Database["public"]["Enums"]["app_role"]
+          _granted: boolean
+        }
+        Returns: undefined
+      }
+      store_payment_secrets: {
+        Args: {
+          _user_id: string
+          _details: Json
+        }
+        Returns: Json
+      }
+      submit_link_referral: {
+        Args: {
+          _code: string
+          _client_name: string
+          _consent_text_version: string
+          _client_email?: string
+          _client_phone?: string
+          _client_address?: string
+          _website?: string
+        }
+        Returns: undefined
+      }
+      zip_code_from_address: {
+        Args: {
+          _address: string
+        }
+        Returns: string
+      }
     }
     Enums: {
-      app_role: "admin" | "referrer"
+      app_role: "admin" | "referrer" | "finance" | "sales_rep" | "auditor"
       bonus_status: "Pending" | "Paid"
-      referral_stage:
-        | "Client Signed"
-        | "Site Inspection Done"
-        | "Documents Verified"
-        | "Solar Installed"
-        | "Referred Connection"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -270,15 +1457,8 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      app_role: ["admin", "referrer"],
+      app_role: ["admin", "referrer", "finance", "sales_rep", "auditor"],
       bonus_status: ["Pending", "Paid"],
-      referral_stage: [
-        "Client Signed",
-        "Site Inspection Done",
-        "Documents Verified",
-        "Solar Installed",
-        "Referred Connection",
-      ],
     },
   },
 } as const
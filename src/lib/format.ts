@@ -0,0 +1,8 @@
+const currencyFormatter = new Intl.NumberFormat('en-US', {
+  style: 'currency',
+  currency: 'USD'
+});
+
+export function formatCurrency(amount: number | null | undefined) {
+  return currencyFormatter.format(Number(amount) || 0);
+}
@@ -0,0 +1,44 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type MfaStatus = 'verified' | 'challenge' | 'enroll';
+
+/**
+ * Where the current session stands: already at aal2, has a factor to verify, or has no
+ * factor yet and has to enroll one.
+ */
+export async function getMfaStatus(): Promise<MfaStatus> {
+  const { data, error } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+  if (error) throw error;
+
+  if (data.currentLevel === 'aal2') return 'verified';
+  return data.nextLevel === 'aal2' ? 'challenge' : 'enroll';
+}
+
+/** Replace the signed-in user's recovery codes. The new codes are only ever returned here. */
+export async function generateRecoveryCodes() {
+  const { data, error } = await supabase.rpc('generate_mfa_recovery_codes');
+
+  if (error) throw error;
+  return data;
+}
+
+async function resetMfa(body: { recovery_code: string } | { user_id: string }) {
+  const { data, error } = await supabase.functions.invoke('reset-mfa', { body });
+
+  if (error) {
+    // The function's own message is more useful than the generic non-2xx one
+    const details = await error.context?.json?.().catch(() => null);
+    throw new Error(details?.error || error.message);
+  }
+  return data as { removed: number };
+}
+
+/** Remove the signed-in user's factors with a recovery code so they can enroll again. */
+export function resetMfaWithRecoveryCode(code: string) {
+  return resetMfa({ recovery_code: code });
+}
+
+/** Admin only: remove another user's factors, e.g. after they lose their phone. */
+export function resetUserMfa(userId: string) {
+  return resetMfa({ user_id: userId });
+}
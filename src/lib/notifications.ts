@@ -0,0 +1,67 @@
+export const NOTIFICATION_KINDS = ['referral_received', 'stage_changed', 'bonus_paid'] as const;
+
+export type NotificationKind = typeof NOTIFICATION_KINDS[number];
+
+export const notificationKindLabels: Record<NotificationKind, string> = {
+  referral_received: 'New referral received',
+  stage_changed: 'Referral stage changed',
+  bonus_paid: 'Bonus paid'
+};
+
+export const notificationKindDescriptions: Record<NotificationKind, string> = {
+  referral_received: 'When a referral is added for you, including through your referral link',
+  stage_changed: 'When one of your referrals moves to another pipeline stage',
+  bonus_paid: 'When a referral bonus is paid out to you'
+};
+
+/** Column in notification_preferences that switches each kind of email on or off */
+export const preferenceColumns = {
+  referral_received: 'email_referral_received',
+  stage_changed: 'email_stage_changed',
+  bonus_paid: 'email_bonus_paid'
+} as const satisfies Record<NotificationKind, string>;
+
+/** Kinds a referrer can also get as a text message; SMS is opt-in */
+export const SMS_KINDS = ['stage_changed', 'bonus_paid'] as const satisfies readonly NotificationKind[];
+
+export type SmsKind = typeof SMS_KINDS[number];
+
+export const smsPreferenceColumns = {
+  stage_changed: 'sms_stage_changed',
+  bonus_paid: 'sms_bonus_paid'
+} as const satisfies Record<SmsKind, string>;
+
+/** Rows in sms_templates: the referrer texts plus the homeowner's confirmation */
+export const SMS_TEMPLATE_KINDS = [...SMS_KINDS, 'client_confirmation'] as const;
+
+export type SmsTemplateKind = typeof SMS_TEMPLATE_KINDS[number];
+
+export const smsTemplateLabels: Record<SmsTemplateKind, string> = {
+  stage_changed: 'Referral stage changed',
+  bonus_paid: 'Bonus paid',
+  client_confirmation: 'Homeowner confirmation'
+};
+
+export const smsTemplateDescriptions: Record<SmsTemplateKind, string> = {
+  stage_changed: 'Sent to referrers who opted in to texts',
+  bonus_paid: 'Sent to referrers who opted in to texts',
+  client_confirmation: 'Sent to homeowners who agreed to be contacted on the public referral page'
+};
+
+/** A single SMS segment; longer texts are split and billed per segment */
+export const SMS_SEGMENT_LENGTH = 160;
+
+/** Placeholders the notify-referral-event edge function fills in, with sample values for previews */
+export const templatePlaceholders: Record<string, { description: string; sample: string }> = {
+  first_name: { description: "Referrer's first name", sample: 'Alex' },
+  client_name: { description: "Homeowner's name", sample: 'Jordan Smith' },
+  stage: { description: 'Current stage', sample: 'Site Inspection Done' },
+  previous_stage: { description: 'Stage before the change', sample: 'Client Signed' },
+  bonus_amount: { description: 'Bonus amount', sample: '$500.00' },
+  dashboard_url: { description: 'Link to the app', sample: 'https://solarpay.example' }
+};
+
+/** Same substitution as supabase/functions/_shared/templates.ts, with sample values */
+export function renderTemplatePreview(template: string) {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => templatePlaceholders[name]?.sample ?? match);
+}
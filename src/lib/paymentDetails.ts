@@ -0,0 +1,117 @@
+import { z } from 'zod';
+import { Json } from '@/integrations/supabase/types';
+
+// Keep in sync with public.normalize_payment_details() in the database
+
+export const PAYMENT_METHODS = ['zelle', 'paypal', 'bank_transfer'] as const;
+
+export type PaymentMethod = typeof PAYMENT_METHODS[number];
+
+export const paymentMethodLabels: Record<PaymentMethod, string> = {
+  zelle: 'Zelle',
+  paypal: 'PayPal',
+  bank_transfer: 'Bank Transfer (ACH)'
+};
+
+/** ABA routing numbers carry a weighted mod-10 check digit (weights 3, 7, 1). */
+export function isValidRoutingNumber(routingNumber: string) {
+  if (!/^\d{9}$/.test(routingNumber)) return false;
+  const weights = [3, 7, 1, 3, 7, 1, 3, 7, 1];
+  const sum = routingNumber.split('').reduce((total, digit, i) => total + Number(digit) * weights[i], 0);
+  return sum % 10 === 0;
+}
+
+const digitsOnly = (value: string) => value.replace(/\D/g, '');
+
+const emailSchema = z.string().trim().toLowerCase().email('Enter a valid email address');
+
+/** Zelle accepts an email address or a US mobile number, stored as E.164. */
+const zelleContactSchema = z.string().trim().transform((value, ctx) => {
+  if (value.includes('@')) {
+    const email = emailSchema.safeParse(value);
+    if (email.success) return email.data;
+  } else {
+    const digits = digitsOnly(value);
+    if (digits.length === 10) return `+1${digits}`;
+    if (digits.length === 11 && digits.startsWith('1')) return `+${digits}`;
+  }
+  ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Enter a valid email address or US phone number' });
+  return z.NEVER;
+});
+
+export const zelleDetailsSchema = z.object({
+  email_or_phone: zelleContactSchema
+});
+
+export const paypalDetailsSchema = z.object({
+  email: emailSchema
+});
+
+export const bankTransferDetailsSchema = z.object({
+  full_name: z.string().trim().min(1, 'Enter the name on the account').max(100),
+  bank_name: z.string().trim().min(1, 'Enter the bank name').max(100),
+  account_type: z.enum(['checking', 'savings']).default('checking'),
+  account_number: z.string()
+    .transform(digitsOnly)
+    .pipe(z.string().regex(/^\d{4,17}$/, 'Account number must be 4 to 17 digits')),
+  routing_number: z.string()
+    .transform(digitsOnly)
+    .pipe(z.string().refine(isValidRoutingNumber, 'Enter a valid 9-digit ABA routing number'))
+});
+
+/** Bank details as stored on the profile: the full numbers are encrypted server-side. */
+export const maskedBankTransferDetailsSchema = z.object({
+  full_name: z.string().min(1, 'Missing the name on the account'),
+  bank_name: z.string().min(1, 'Missing the bank name'),
+  account_type: z.enum(['checking', 'savings']),
+  account_last4: z.string().regex(/^\d{4}$/, 'Missing account number'),
+  routing_last4: z.string().regex(/^\d{4}$/, 'Missing routing number')
+});
+
+export const paymentDetailsFormSchema = z.discriminatedUnion('payment_method', [
+  z.object({ payment_method: z.literal('zelle'), payment_details: zelleDetailsSchema }),
+  z.object({ payment_method: z.literal('paypal'), payment_details: paypalDetailsSchema }),
+  z.object({ payment_method: z.literal('bank_transfer'), payment_details: bankTransferDetailsSchema })
+]);
+
+export type PaymentDetailsFormInput = z.input<typeof paymentDetailsFormSchema>;
+export type PaymentDetailsFormValues = z.output<typeof paymentDetailsFormSchema>;
+
+export type ZelleDetails = z.output<typeof zelleDetailsSchema>;
+export type PaypalDetails = z.output<typeof paypalDetailsSchema>;
+export type BankTransferDetails = z.output<typeof bankTransferDetailsSchema>;
+
+export const paymentDetailsSchemas = {
+  zelle: zelleDetailsSchema,
+  paypal: paypalDetailsSchema,
+  bank_transfer: bankTransferDetailsSchema
+};
+
+/** Returns the first validation message for stored details, or null when they are valid. */
+export function validatePaymentDetails(method: string | null, details: Json | null): string | null {
+  const schema = paymentDetailsSchemas[method as PaymentMethod];
+  if (!schema) return 'Unknown payment method';
+  const result = schema.safeParse(details ?? {});
+  return result.success ? null : result.error.issues[0].message;
+}
+
+/** Like validatePaymentDetails, for details read back from a profile (bank numbers masked). */
+export function validateStoredPaymentDetails(method: string | null, details: Json | null): string | null {
+  if (method !== 'bank_transfer') return validatePaymentDetails(method, details);
+  const result = maskedBankTransferDetailsSchema.safeParse(details ?? {});
+  return result.success ? null : result.error.issues[0].message;
+}
+
+/** One-line, non-sensitive summary of a payout destination, e.g. "Chase checking ***6789". */
+export function describePaymentDetails(method: string | null, details: Json | null): string {
+  const value = (details && typeof details === 'object' && !Array.isArray(details) ? details : {}) as Record<string, string>;
+  switch (method) {
+    case 'zelle': return value.email_or_phone || 'Missing contact';
+    case 'paypal': return value.email || 'Missing email';
+    case 'bank_transfer': {
+      const lastFour = value.account_last4 || (value.account_number || '').slice(-4);
+      return [value.bank_name, value.account_type, lastFour && `***${lastFour}`].filter(Boolean).join(' ');
+    }
+    default: return 'Not provided';
+  }
+}
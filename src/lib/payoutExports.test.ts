@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { AchOriginSettings, ExportPayoutItem, generateNachaFile } from '@/lib/payoutExports';
+
+const settings: AchOriginSettings = {
+  companyName: 'Sunnova',
+  companyId: '1234567890',
+  originRoutingNumber: '011000015',
+  originBankName: 'Origin Bank',
+  effectiveDate: '2026-10-20'
+};
+
+const bankItems = (count: number): ExportPayoutItem[] =>
+  Array.from({ length: count }, (_, i) => ({
+    id: `00000000-0000-0000-0000-${String(i).padStart(12, '0')}`,
+    payee_name: `Payee ${i + 1}`,
+    payment_method: 'bank_transfer',
+    payment_details: {
+      full_name: `Payee ${i + 1}`,
+      bank_name: 'Test Bank',
+      account_type: 'checking',
+      account_number: '123456789',
+      routing_number: '011000015'
+    },
+    amount: 100
+  }));
+
+const generate = (count: number) =>
+  generateNachaFile('11111111-2222-3333-4444-555555555555', bankItems(count), settings, new Date(2026, 9, 19, 9, 30));
+
+describe('generateNachaFile', () => {
+  it.each([
+    [6, 1],
+    [10, 2]
+  ])('pads %i entries to %i blocks and counts them in the file control record', (entryCount, blocks) => {
+    const { content, itemCount, errors } = generate(entryCount);
+    const lines = content.split('\n').slice(0, -1);
+
+    expect(errors).toEqual([]);
+    expect(itemCount).toBe(entryCount);
+    expect(lines).toHaveLength(blocks * 10);
+    lines.forEach(line => expect(line).toHaveLength(94));
+
+    const fileControl = lines.find(line => line.startsWith('9') && !/^9+$/.test(line));
+    expect(fileControl?.slice(7, 13)).toBe(String(blocks).padStart(6, '0'));
+    expect(fileControl?.slice(13, 21)).toBe(String(entryCount).padStart(8, '0'));
+  });
+});
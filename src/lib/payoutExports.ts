@@ -0,0 +1,255 @@
+import { Json } from '@/integrations/supabase/types';
+import { isValidRoutingNumber, validatePaymentDetails } from '@/lib/paymentDetails';
+
+export interface ExportPayoutItem {
+  id: string;
+  payee_name: string;
+  payment_method: string;
+  payment_details: Json | null;
+  amount: number;
+}
+
+export interface AchOriginSettings {
+  companyName: string;
+  companyId: string;
+  originRoutingNumber: string;
+  originBankName: string;
+  effectiveDate: string; // YYYY-MM-DD
+}
+
+export interface ExportValidationError {
+  payee: string;
+  message: string;
+}
+
+export interface ExportResult {
+  content: string;
+  filename: string;
+  itemCount: number;
+  errors: ExportValidationError[];
+}
+
+type Details = Record<string, string | undefined>;
+
+const detailsOf = (item: ExportPayoutItem): Details =>
+  (item.payment_details && typeof item.payment_details === 'object' ? item.payment_details : {}) as Details;
+
+const digitsOnly = (value: string | undefined) => (value || '').replace(/\D/g, '');
+
+/** Splits the items paid with `method` into exportable items and validation errors. */
+function partitionItems(items: ExportPayoutItem[], method: string) {
+  const valid: ExportPayoutItem[] = [];
+  const errors: ExportValidationError[] = [];
+
+  items
+    .filter(item => item.payment_method === method)
+    .forEach(item => {
+      const message = Number(item.amount) > 0
+        ? validatePaymentDetails(method, item.payment_details)
+        : 'Amount must be positive';
+      if (message) {
+        errors.push({ payee: item.payee_name, message });
+      } else {
+        valid.push(item);
+      }
+    });
+
+  return { valid, errors };
+}
+
+const toCents = (amount: number) => Math.round(Number(amount) * 100);
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (rows: (string | number)[][]) => rows.map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+
+const shortId = (id: string) => id.replace(/-/g, '').slice(0, 8).toUpperCase();
+
+// NACHA fields are fixed-width, upper-case ASCII
+const alpha = (value: string, length: number) =>
+  (value || '').normalize('NFKD').replace(/[^\x20-\x7E]/g, '').toUpperCase().slice(0, length).padEnd(length, ' ');
+
+const numeric = (value: number | string, length: number) => String(value).slice(-length).padStart(length, '0');
+
+const yymmdd = (date: Date) =>
+  `${String(date.getFullYear()).slice(-2)}${numeric(date.getMonth() + 1, 2)}${numeric(date.getDate(), 2)}`;
+
+export function validateAchOriginSettings(settings: AchOriginSettings): string | null {
+  if (!settings.companyName.trim()) return 'Company name is required';
+  if (!/^[0-9A-Za-z ]{1,10}$/.test(settings.companyId.trim())) return 'Company ID must be up to 10 characters';
+  if (!isValidRoutingNumber(settings.originRoutingNumber.trim())) return 'Originating bank routing number is invalid';
+  if (!settings.originBankName.trim()) return 'Originating bank name is required';
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(settings.effectiveDate)) return 'Effective date is required';
+  return null;
+}
+
+/**
+ * Builds a NACHA PPD credit file with one entry per bank transfer payee.
+ * Layout: file header (1), batch header (5), entries (6), batch control (8), file control (9),
+ * padded with "9" records to a multiple of 10 lines.
+ */
+export function generateNachaFile(
+  batchId: string,
+  items: ExportPayoutItem[],
+  settings: AchOriginSettings,
+  now: Date = new Date()
+): ExportResult {
+  const { valid, errors } = partitionItems(items, 'bank_transfer');
+  const odfi = settings.originRoutingNumber.trim().slice(0, 8);
+  const companyId = settings.companyId.trim();
+  const batchNumber = numeric(1, 7);
+  const effectiveDate = yymmdd(new Date(`${settings.effectiveDate}T00:00:00`));
+
+  const entries = valid.map((item, index) => {
+    const details = detailsOf(item);
+    const routing = digitsOnly(details.routing_number);
+    const transactionCode = details.account_type === 'savings' ? '32' : '22';
+    return {
+      routing,
+      cents: toCents(item.amount),
+      record: [
+        '6',
+        transactionCode,
+        routing.slice(0, 8),
+        routing.slice(8),
+        alpha(digitsOnly(details.account_number), 17),
+        numeric(toCents(item.amount), 10),
+        alpha(shortId(item.id), 15),
+        alpha(details.full_name || item.payee_name, 22),
+        '  ',
+        '0',
+        odfi,
+        numeric(index + 1, 7)
+      ].join('')
+    };
+  });
+
+  const entryHash = numeric(entries.reduce((sum, entry) => sum + Number(entry.routing.slice(0, 8)), 0), 10);
+  const totalCredit = entries.reduce((sum, entry) => sum + entry.cents, 0);
+
+  const fileHeader = [
+    '1',
+    '01',
+    ` ${settings.originRoutingNumber.trim()}`,
+    alpha(companyId, 10).replace(/ +$/, '').padStart(10, ' '),
+    yymmdd(now),
+    `${numeric(now.getHours(), 2)}${numeric(now.getMinutes(), 2)}`,
+    'A',
+    '094',
+    '10',
+    '1',
+    alpha(settings.originBankName, 23),
+    alpha(settings.companyName, 23),
+    alpha(shortId(batchId), 8)
+  ].join('');
+
+  const batchHeader = [
+    '5',
+    '220',
+    alpha(settings.companyName, 16),
+    alpha('', 20),
+    alpha(companyId, 10),
+    'PPD',
+    alpha('REFERRAL', 10),
+    alpha('', 6),
+    effectiveDate,
+    alpha('', 3),
+    '1',
+    odfi,
+    batchNumber
+  ].join('');
+
+  const batchControl = [
+    '8',
+    '220',
+    numeric(entries.length, 6),
+    entryHash,
+    numeric(0, 12),
+    numeric(totalCredit, 12),
+    alpha(companyId, 10),
+    alpha('', 19),
+    alpha('', 6),
+    odfi,
+    batchNumber
+  ].join('');
+
+  // File header, batch header, entries, batch control and file control, in blocks of ten
+  const recordCount = entries.length + 4;
+  const blockCount = Math.ceil(recordCount / 10);
+
+  const fileControl = [
+    '9',
+    numeric(1, 6),
+    numeric(blockCount, 6),
+    numeric(entries.length, 8),
+    entryHash,
+    numeric(0, 12),
+    numeric(totalCredit, 12),
+    alpha('', 39)
+  ].join('');
+
+  const records = [fileHeader, batchHeader, ...entries.map(entry => entry.record), batchControl, fileControl];
+  while (records.length % 10 !== 0) {
+    records.push('9'.repeat(94));
+  }
+
+  return {
+    content: records.join('\n') + '\n',
+    filename: `payout-${shortId(batchId)}-ach.txt`,
+    itemCount: entries.length,
+    errors
+  };
+}
+
+/** Builds a PayPal Payouts bulk upload CSV: recipient, amount, currency, reference ID, note, wallet. */
+export function generatePaypalCsv(batchId: string, items: ExportPayoutItem[]): ExportResult {
+  const { valid, errors } = partitionItems(items, 'paypal');
+  const rows = valid.map(item => [
+    detailsOf(item).email.trim(),
+    (toCents(item.amount) / 100).toFixed(2),
+    'USD',
+    shortId(item.id),
+    'Referral bonus payout',
+    'PAYPAL'
+  ]);
+
+  return {
+    content: toCsv(rows),
+    filename: `payout-${shortId(batchId)}-paypal.csv`,
+    itemCount: rows.length,
+    errors
+  };
+}
+
+/** Builds a worksheet for sending Zelle payments by hand, with a column for confirmation numbers. */
+export function generateZelleWorksheet(batchId: string, items: ExportPayoutItem[]): ExportResult {
+  const { valid, errors } = partitionItems(items, 'zelle');
+  const rows = valid.map(item => [
+    item.payee_name,
+    detailsOf(item).email_or_phone.trim(),
+    (toCents(item.amount) / 100).toFixed(2),
+    `Referral bonus ${shortId(item.id)}`,
+    ''
+  ]);
+
+  return {
+    content: toCsv([['Payee Name', 'Zelle Email or Phone', 'Amount (USD)', 'Memo', 'Confirmation Number'], ...rows]),
+    filename: `payout-${shortId(batchId)}-zelle.csv`,
+    itemCount: rows.length,
+    errors
+  };
+}
+
+export function downloadTextFile(filename: string, content: string, mimeType = 'text/plain') {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,45 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type AssignmentMode = 'off' | 'round_robin' | 'territory';
+
+export const assignmentModeLabels: Record<AssignmentMode, string> = {
+  off: 'Off',
+  round_robin: 'Round robin',
+  territory: 'Territory, then round robin'
+};
+
+export type AssignmentMethod = 'manual' | 'round_robin' | 'territory';
+
+export const assignmentMethodLabels: Record<AssignmentMethod, string> = {
+  manual: 'Assigned by hand',
+  round_robin: 'Assigned by round robin',
+  territory: 'Assigned by territory'
+};
+
+/** Takes effect for referrals created from now on; existing assignments are kept. */
+export async function setAssignmentMode(mode: AssignmentMode) {
+  const { error } = await supabase
+    .from('program_settings')
+    .update({ value: mode })
+    .eq('key', 'referral_assignment');
+
+  if (error) throw error;
+}
+
+/** A ZIP code prefix can only belong to one rep. */
+export async function addSalesTerritory(userId: string, zipPrefix: string) {
+  const { error } = await supabase
+    .from('sales_territories')
+    .insert({ user_id: userId, zip_prefix: zipPrefix.trim() });
+
+  if (error) throw error;
+}
+
+export async function removeSalesTerritory(territoryId: string) {
+  const { error } = await supabase
+    .from('sales_territories')
+    .delete()
+    .eq('id', territoryId);
+
+  if (error) throw error;
+}
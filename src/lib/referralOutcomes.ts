@@ -0,0 +1,26 @@
+export type ReferralOutcome = 'open' | 'lost' | 'cancelled';
+export type ClosedOutcome = Exclude<ReferralOutcome, 'open'>;
+
+export const outcomeLabels: Record<ReferralOutcome, string> = {
+  open: 'Open',
+  lost: 'Lost',
+  cancelled: 'Cancelled'
+};
+
+/** Reason codes accepted by referrals.close_reason. */
+export const closeReasonLabels: Record<string, string> = {
+  homeowner_declined: 'Homeowner declined',
+  unresponsive: 'Homeowner unresponsive',
+  chose_competitor: 'Chose another installer',
+  failed_site_inspection: 'Failed site inspection',
+  not_eligible: 'Not eligible',
+  other: 'Other'
+};
+
+export const isClosed = (referral: { outcome: string }) => referral.outcome !== 'open';
+
+/** e.g. "Lost — Homeowner declined" */
+export const describeClosure = (outcome: string, reason: string | null) => {
+  const label = outcomeLabels[outcome as ReferralOutcome] ?? outcome;
+  return reason ? `${label} — ${closeReasonLabels[reason] ?? reason}` : label;
+};
@@ -0,0 +1,48 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database, Tables } from '@/integrations/supabase/types';
+
+export type ReferralStageRow = Tables<'referral_stages'>;
+/** A stage key from public.referral_stages. */
+export type ReferralStage = string;
+export type BonusStatus = Database['public']['Enums']['bonus_status'];
+
+export const BONUS_STATUSES: BonusStatus[] = ['Pending', 'Paid'];
+
+/** Colors an admin can give a stage (matches the referral_stages.color check). */
+export const STAGE_COLORS = ['gray', 'pink', 'purple', 'blue', 'red', 'orange', 'yellow', 'green'] as const;
+export type StageColor = typeof STAGE_COLORS[number];
+
+export const stageColorClasses: Record<StageColor, string> = {
+  gray: 'bg-gray-100 text-gray-800',
+  pink: 'bg-pink-100 text-pink-800',
+  purple: 'bg-purple-100 text-purple-800',
+  blue: 'bg-blue-100 text-blue-800',
+  red: 'bg-red-100 text-red-800',
+  orange: 'bg-orange-100 text-orange-800',
+  yellow: 'bg-yellow-100 text-yellow-800',
+  green: 'bg-green-100 text-green-800'
+};
+
+export const getStageColorClass = (color: string | undefined) =>
+  stageColorClasses[color as StageColor] ?? stageColorClasses.gray;
+
+export const findStage = (stages: ReferralStageRow[], key: string) =>
+  stages.find(stage => stage.key === key);
+
+/** The label of a stage, falling back to its key if it has been removed. */
+export const getStageLabel = (stages: ReferralStageRow[], key: string) =>
+  findStage(stages, key)?.label ?? key;
+
+/**
+ * Swap a stage with its neighbour in one transaction. Moves that change the first stage,
+ * where new referrals start, are refused unless `changeFirstStage` is set.
+ */
+export async function moveReferralStage(stageId: string, direction: -1 | 1, changeFirstStage = false) {
+  const { error } = await supabase.rpc('move_referral_stage', {
+    _stage_id: stageId,
+    _direction: direction,
+    _change_first_stage: changeFirstStage
+  });
+
+  if (error) throw error;
+}
@@ -0,0 +1,40 @@
+import { supabase } from '@/integrations/supabase/client';
+import { TablesUpdate } from '@/integrations/supabase/types';
+import { ClosedOutcome } from '@/lib/referralOutcomes';
+
+export type AdminReferralUpdate = Pick<
+  TablesUpdate<'referrals'>,
+  'stage' | 'bonus_status' | 'bonus_amount' | 'notes' | 'assigned_to'
+>;
+
+/**
+ * The single write path for staff changes to a referral. History events (and anything
+ * driven by them) are recorded by database triggers on this update, and which columns
+ * each staff role may change is checked by enforce_staff_referral_columns.
+ */
+export async function updateReferral(referralId: string, changes: AdminReferralUpdate) {
+  const { error } = await supabase
+    .from('referrals')
+    .update(changes)
+    .eq('id', referralId);
+
+  if (error) throw error;
+}
+
+/** Close a referral as lost or cancelled. Pending bonuses drop to zero. */
+export async function closeReferral(referralId: string, outcome: ClosedOutcome, reason: string) {
+  const { error } = await supabase.rpc('close_referral', {
+    _referral_id: referralId,
+    _outcome: outcome,
+    _reason: reason
+  });
+
+  if (error) throw error;
+}
+
+/** Put a closed referral back in the pipeline; its bonus is recalculated. */
+export async function reopenReferral(referralId: string) {
+  const { error } = await supabase.rpc('reopen_referral', { _referral_id: referralId });
+
+  if (error) throw error;
+}
@@ -0,0 +1,121 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+
+export type AppRole = Database['public']['Enums']['app_role'];
+
+export const roleLabels: Record<AppRole, string> = {
+  admin: 'Admin',
+  finance: 'Finance',
+  sales_rep: 'Sales Rep',
+  auditor: 'Auditor',
+  referrer: 'Referrer'
+};
+
+export const ROLES = Object.keys(roleLabels) as AppRole[];
+
+/** Roles that work in the admin panel. What each can do there comes from getStaffPermissions. */
+export const STAFF_ROLES: AppRole[] = ['admin', 'finance', 'sales_rep', 'auditor'];
+
+/** The view each role opens. When a user holds several roles, the first in ROLES is their default. */
+export const roleHomePaths: Record<AppRole, string> = {
+  admin: '/admin',
+  finance: '/admin',
+  sales_rep: '/admin',
+  auditor: '/admin',
+  referrer: '/dashboard'
+};
+
+export function defaultRole(roles: AppRole[]) {
+  return ROLES.find(role => roles.includes(role)) ?? null;
+}
+
+export interface StaffPermissions {
+  /** Referrals, bonus rules, stages, templates and user accounts */
+  manageProgram: boolean;
+  /** Sees every referral; sales reps only see the ones assigned to them */
+  viewAllReferrals: boolean;
+  viewUsers: boolean;
+  /** Moves referrals they are assigned forward through the pipeline */
+  advanceAssignedStages: boolean;
+  viewPayouts: boolean;
+  createPayoutBatches: boolean;
+  cancelPayoutBatches: boolean;
+  /** Marks bonuses Paid and sees bank details */
+  payBonuses: boolean;
+}
+
+/** Mirrors the RLS policies and functions, which enforce the same rules. */
+export function getStaffPermissions(roles: AppRole[]): StaffPermissions {
+  const isAdmin = roles.includes('admin');
+  const isFinance = roles.includes('finance');
+  const isAuditor = roles.includes('auditor');
+
+  return {
+    manageProgram: isAdmin,
+    viewAllReferrals: isAdmin || isFinance || isAuditor,
+    viewUsers: isAdmin || isAuditor,
+    advanceAssignedStages: roles.includes('sales_rep'),
+    viewPayouts: isAdmin || isFinance || isAuditor,
+    createPayoutBatches: isAdmin,
+    cancelPayoutBatches: isAdmin || isFinance,
+    payBonuses: isFinance
+  };
+}
+
+export type AuditAction =
+  | 'role_granted'
+  | 'role_revoked'
+  | 'account_deactivated'
+  | 'account_reactivated'
+  | 'confirmation_resent'
+  | 'mfa_reset';
+
+export const auditActionLabels: Record<AuditAction, string> = {
+  role_granted: 'Role granted',
+  role_revoked: 'Role revoked',
+  account_deactivated: 'Account deactivated',
+  account_reactivated: 'Account reactivated',
+  confirmation_resent: 'Confirmation email resent',
+  mfa_reset: 'Two-factor authentication reset'
+};
+
+/** Grant or revoke one role. Every change is written to the admin audit log. */
+export async function setUserRole(userId: string, role: AppRole, granted: boolean) {
+  const { error } = await supabase.rpc('set_user_role', {
+    _user_id: userId,
+    _role: role,
+    _granted: granted
+  });
+
+  if (error) throw error;
+}
+
+/** Deactivating blocks sign-in and ends the user's sessions; a reason is required. */
+export async function deactivateUser(userId: string, reason: string) {
+  const { error } = await supabase.rpc('set_user_active', {
+    _user_id: userId,
+    _active: false,
+    _reason: reason
+  });
+
+  if (error) throw error;
+}
+
+export async function reactivateUser(userId: string) {
+  const { error } = await supabase.rpc('set_user_active', { _user_id: userId, _active: true });
+
+  if (error) throw error;
+}
+
+/** Log the resend, then ask Supabase Auth to send the signup confirmation email again. */
+export async function resendConfirmationEmail(userId: string) {
+  const { data: email, error } = await supabase.rpc('record_confirmation_resend', { _user_id: userId });
+  if (error) throw error;
+
+  const { error: resendError } = await supabase.auth.resend({
+    type: 'signup',
+    email,
+    options: { emailRedirectTo: `${window.location.origin}/` }
+  });
+  if (resendError) throw resendError;
+}
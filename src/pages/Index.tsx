@@ -1,14 +1,15 @@
 import { useEffect } from 'react';
-import { Navigate } from 'react-router-dom';
+import { Navigate, Outlet } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { useAuth } from '@/hooks/useAuth';
-import ReferrerDashboard from '@/components/ReferrerDashboard';
-import AdminPanel from '@/components/AdminPanel';
-import { LogOut, Shield, User } from 'lucide-react';
+import NotificationBell from '@/components/NotificationBell';
+import RoleSwitcher from '@/components/RoleSwitcher';
+import AdminMfaGate from '@/components/AdminMfaGate';
+import { LogOut } from 'lucide-react';
 
 const Index = () => {
-  const { user, userRole, loading, signOut } = useAuth();
+  const { user, loading, signOut } = useAuth();
 
   if (loading) {
     return (
@@ -34,26 +35,22 @@ const Index = () => {
           <span className="text-2xl font-extrabold text-black">SolarPay Referrals</span>
           <span className="text-sm text-gray-500">by Sunnova</span>
         </div>
-            <div className="flex items-center gap-2">
-              {userRole === 'admin' ? (
-                <Shield className="h-5 w-5 text-primary" />
-              ) : (
-                <User className="h-5 w-5 text-primary" />
-              )}
-              <span className="text-sm bg-primary/10 px-2 py-1 rounded capitalize">
-                {userRole}
-              </span>
-            </div>
+            <RoleSwitcher />
+          </div>
+          <div className="flex items-center gap-2">
+            <NotificationBell userId={user.id} />
+            <Button variant="outline" onClick={signOut} className="flex items-center gap-2">
+              <LogOut className="h-4 w-4" />
+              Sign Out
+            </Button>
           </div>
-          <Button variant="outline" onClick={signOut} className="flex items-center gap-2">
-            <LogOut className="h-4 w-4" />
-            Sign Out
-          </Button>
         </div>
       </header>
 
       <main className="container mx-auto px-4 py-8">
-        {userRole === 'admin' ? <AdminPanel /> : <ReferrerDashboard />}
+        <AdminMfaGate>
+          <Outlet />
+        </AdminMfaGate>
       </main>
     </div>
   );
@@ -0,0 +1,223 @@
+import { useState, useEffect } from 'react';
+import { useParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { CheckCircle } from 'lucide-react';
+
+const emptyLead = {
+  client_name: '',
+  client_email: '',
+  client_phone: '',
+  client_address: '',
+  website: '',
+  consented: false
+};
+
+const Refer = () => {
+  const { code = '' } = useParams();
+  const [referrerName, setReferrerName] = useState<string | null>(null);
+  const [consentText, setConsentText] = useState<{ version: string; body: string } | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [lead, setLead] = useState(emptyLead);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+
+  useEffect(() => {
+    const fetchReferrer = async () => {
+      const { data, error } = await supabase.rpc('get_referrer_by_code', { _code: code });
+
+      if (error) {
+        console.error('Error looking up referral code:', error);
+      } else {
+        setReferrerName(data?.[0]?.first_name ?? null);
+      }
+      setLoading(false);
+    };
+
+    const fetchConsentText = async () => {
+      const { data, error } = await supabase
+        .from('consent_texts')
+        .select('version, body')
+        .eq('is_current', true)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching consent text:', error);
+      } else {
+        setConsentText(data);
+      }
+    };
+
+    fetchReferrer();
+    fetchConsentText();
+  }, [code]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!consentText) return;
+    setIsSubmitting(true);
+    try {
+      const { error } = await supabase.rpc('submit_link_referral', {
+        _code: code,
+        _client_name: lead.client_name,
+        _consent_text_version: consentText.version,
+        _client_email: lead.client_email,
+        _client_phone: lead.client_phone,
+        _client_address: lead.client_address,
+        _website: lead.website
+      });
+
+      if (error) throw error;
+
+      setSubmitted(true);
+      setLead(emptyLead);
+    } catch (error) {
+      console.error('Error submitting referral:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to send your details",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderContent = () => {
+    if (loading) {
+      return <p className="text-center text-muted-foreground">Loading...</p>;
+    }
+
+    if (referrerName === null) {
+      return (
+        <Card>
+          <CardHeader>
+            <CardTitle>Link not found</CardTitle>
+            <CardDescription>
+              This referral link is not valid. Please check it with the person who shared it.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      );
+    }
+
+    if (submitted) {
+      return (
+        <Card>
+          <CardContent className="text-center py-8 space-y-4">
+            <CheckCircle className="h-12 w-12 text-accent mx-auto" />
+            <h2 className="text-xl font-semibold">Thanks, we'll be in touch!</h2>
+            <p className="text-muted-foreground">
+              A solar advisor will contact you soon to talk about your home.
+            </p>
+          </CardContent>
+        </Card>
+      );
+    }
+
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>{referrerName} thinks your home could go solar</CardTitle>
+          <CardDescription>
+            Leave your details and a solar advisor will get in touch. There's no obligation.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="lead_name">Your Name *</Label>
+              <Input
+                id="lead_name"
+                required
+                value={lead.client_name}
+                onChange={(e) => setLead({...lead, client_name: e.target.value})}
+              />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="lead_email">Email</Label>
+                <Input
+                  id="lead_email"
+                  type="email"
+                  value={lead.client_email}
+                  onChange={(e) => setLead({...lead, client_email: e.target.value})}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="lead_phone">Phone</Label>
+                <Input
+                  id="lead_phone"
+                  type="tel"
+                  value={lead.client_phone}
+                  onChange={(e) => setLead({...lead, client_phone: e.target.value})}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="lead_address">Home Address</Label>
+              <Textarea
+                id="lead_address"
+                value={lead.client_address}
+                onChange={(e) => setLead({...lead, client_address: e.target.value})}
+                rows={2}
+              />
+            </div>
+            {/* Honeypot: hidden from people, filled in by bots */}
+            <div className="hidden" aria-hidden="true">
+              <Label htmlFor="lead_website">Website</Label>
+              <Input
+                id="lead_website"
+                tabIndex={-1}
+                autoComplete="off"
+                value={lead.website}
+                onChange={(e) => setLead({...lead, website: e.target.value})}
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">Please give us an email address or phone number.</p>
+            {consentText && (
+              <div className="flex items-start gap-3 rounded-md border p-3">
+                <Checkbox
+                  id="lead_consent"
+                  checked={lead.consented}
+                  onCheckedChange={(checked) => setLead({...lead, consented: checked === true})}
+                  className="mt-0.5"
+                />
+                <Label htmlFor="lead_consent" className="text-xs font-normal leading-relaxed text-muted-foreground">
+                  {consentText.body}
+                </Label>
+              </div>
+            )}
+            <Button
+              type="submit"
+              disabled={isSubmitting || !consentText || !lead.consented || !lead.client_name || (!lead.client_email && !lead.client_phone)}
+              className="w-full"
+            >
+              {isSubmitting ? 'Sending...' : 'Send My Details'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-secondary/20 flex items-center justify-center p-4">
+      <div className="w-full max-w-lg space-y-6">
+        <div className="text-center">
+          <h1 className="text-3xl font-bold text-primary">SolarPay Referrals</h1>
+          <p className="text-lg text-gold font-medium">by Sunnova</p>
+        </div>
+        {renderContent()}
+      </div>
+    </div>
+  );
+};
+
+export default Refer;
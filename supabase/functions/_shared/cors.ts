@@ -0,0 +1,5 @@
+/** For functions the app calls from the browser with supabase.functions.invoke */
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
+};
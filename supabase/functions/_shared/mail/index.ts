@@ -0,0 +1,47 @@
+import { createResendTransport } from './resend.ts';
+import { createSmtpTransport } from './smtp.ts';
+import { MailMessage, MailTransport } from './types.ts';
+
+export type { MailMessage, MailTransport };
+
+/** Writes messages to the function log instead of sending them. */
+export function createLogTransport(): MailTransport {
+  return {
+    async send(message: MailMessage) {
+      console.log(`Email to ${message.to}: ${message.subject}\n\n${message.text}`);
+    }
+  };
+}
+
+const requireEnv = (name: string) => {
+  const value = Deno.env.get(name);
+  if (!value) throw new Error(`${name} is not set`);
+  return value;
+};
+
+/**
+ * Builds the transport named by MAIL_TRANSPORT: "smtp", "resend" or "log" (the default,
+ * so nothing is sent until a real transport is configured).
+ */
+export function getMailTransport(): MailTransport {
+  const transport = Deno.env.get('MAIL_TRANSPORT') ?? 'log';
+  const from = Deno.env.get('MAIL_FROM') ?? 'SolarPay Referrals <no-reply@solarpay.example>';
+
+  switch (transport) {
+    case 'smtp':
+      return createSmtpTransport({
+        host: requireEnv('SMTP_HOST'),
+        port: Number(Deno.env.get('SMTP_PORT') ?? 465),
+        secure: Deno.env.get('SMTP_SECURE') !== 'false',
+        user: Deno.env.get('SMTP_USER'),
+        pass: Deno.env.get('SMTP_PASS'),
+        from
+      });
+    case 'resend':
+      return createResendTransport(requireEnv('RESEND_API_KEY'), from);
+    case 'log':
+      return createLogTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${transport}"`);
+  }
+}
@@ -0,0 +1,26 @@
+import { MailMessage, MailTransport } from './types.ts';
+
+/** Sends through the Resend HTTP API, which works from hosted edge functions. */
+export function createResendTransport(apiKey: string, from: string): MailTransport {
+  return {
+    async send(message: MailMessage) {
+      const response = await fetch('https://api.resend.com/emails', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          from,
+          to: [message.to],
+          subject: message.subject,
+          text: message.text
+        })
+      });
+
+      if (!response.ok) {
+        throw new Error(`Resend rejected the message (${response.status}): ${await response.text()}`);
+      }
+    }
+  };
+}
@@ -0,0 +1,36 @@
+import nodemailer from 'npm:nodemailer@6.9.16';
+import { MailMessage, MailTransport } from './types.ts';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  from: string;
+}
+
+/**
+ * Plain SMTP. Locally this points at the Inbucket mail catcher that `supabase start` runs.
+ * Hosted edge functions block ports 25 and 587, so in production use port 465 or the
+ * resend transport.
+ */
+export function createSmtpTransport(config: SmtpConfig): MailTransport {
+  const transporter = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    auth: config.user ? { user: config.user, pass: config.pass } : undefined
+  });
+
+  return {
+    async send(message: MailMessage) {
+      await transporter.sendMail({
+        from: config.from,
+        to: message.to,
+        subject: message.subject,
+        text: message.text
+      });
+    }
+  };
+}
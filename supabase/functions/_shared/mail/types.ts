@@ -0,0 +1,10 @@
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/** Anything that can deliver a message. Pick one with MAIL_TRANSPORT (see ./index.ts). */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
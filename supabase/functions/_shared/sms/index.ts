@@ -0,0 +1,59 @@
+import { createTwilioProvider } from './twilio.ts';
+import { SmsMessage, SmsProvider } from './types.ts';
+
+export type { SmsMessage, SmsProvider };
+
+/**
+ * Development provider: writes messages to the function log. It cannot check who sent an
+ * inbound webhook, so it rejects them all unless SMS_ALLOW_FAKE=true, which lets STOP
+ * handling be tried locally with a plain curl request.
+ */
+export function createFakeProvider(): SmsProvider {
+  return {
+    async send(message: SmsMessage) {
+      const id = `fake-${crypto.randomUUID()}`;
+      console.log(`SMS ${id} to ${message.to}: ${message.body}`);
+      return { id };
+    },
+    async verifyInbound() {
+      return Deno.env.get('SMS_ALLOW_FAKE') === 'true';
+    }
+  };
+}
+
+const requireEnv = (name: string) => {
+  const value = Deno.env.get(name);
+  if (!value) throw new Error(`${name} is not set`);
+  return value;
+};
+
+/** Builds the provider named by SMS_PROVIDER: "twilio" or "fake" (the default). */
+export function getSmsProvider(): SmsProvider {
+  const provider = Deno.env.get('SMS_PROVIDER') ?? 'fake';
+
+  switch (provider) {
+    case 'twilio':
+      return createTwilioProvider({
+        accountSid: requireEnv('TWILIO_ACCOUNT_SID'),
+        authToken: requireEnv('TWILIO_AUTH_TOKEN'),
+        from: requireEnv('SMS_FROM'),
+        baseUrl: Deno.env.get('TWILIO_API_URL'),
+        inboundUrl: Deno.env.get('SMS_INBOUND_URL')
+      });
+    case 'fake':
+      return createFakeProvider();
+    default:
+      throw new Error(`Unknown SMS_PROVIDER "${provider}"`);
+  }
+}
+
+// Carrier-standard opt-out and opt-in keywords
+const STOP_KEYWORDS = ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT'];
+const START_KEYWORDS = ['START', 'UNSTOP', 'YES'];
+
+export function parseKeyword(body: string): { keyword: string; action: 'stop' | 'start' } | null {
+  const keyword = body.trim().toUpperCase();
+  if (STOP_KEYWORDS.includes(keyword)) return { keyword, action: 'stop' };
+  if (START_KEYWORDS.includes(keyword)) return { keyword, action: 'start' };
+  return null;
+}
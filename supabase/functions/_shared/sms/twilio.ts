@@ -0,0 +1,63 @@
+import { encodeBase64 } from 'jsr:@std/encoding@1/base64';
+import { SmsMessage, SmsProvider } from './types.ts';
+
+export interface TwilioConfig {
+  accountSid: string;
+  authToken: string;
+  from: string;
+  /** Override for Twilio-compatible APIs */
+  baseUrl?: string;
+  /** Public URL of the sms-inbound function, as configured at the provider */
+  inboundUrl?: string;
+}
+
+/**
+ * Twilio's Messages API. Other providers that accept the same form-encoded payloads and
+ * sign webhooks the same way work by setting baseUrl.
+ */
+export function createTwilioProvider(config: TwilioConfig): SmsProvider {
+  const baseUrl = config.baseUrl ?? 'https://api.twilio.com';
+
+  return {
+    async send(message: SmsMessage) {
+      const response = await fetch(`${baseUrl}/2010-04-01/Accounts/${config.accountSid}/Messages.json`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Basic ${btoa(`${config.accountSid}:${config.authToken}`)}`,
+          'Content-Type': 'application/x-www-form-urlencoded'
+        },
+        body: new URLSearchParams({
+          To: message.to,
+          From: config.from,
+          Body: message.body
+        })
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(`SMS provider rejected the message (${response.status}): ${result.message ?? JSON.stringify(result)}`);
+      }
+      return { id: result.sid };
+    },
+
+    // https://www.twilio.com/docs/usage/webhooks/webhooks-security
+    async verifyInbound(req: Request, params: URLSearchParams) {
+      const signature = req.headers.get('X-Twilio-Signature');
+      if (!signature) return false;
+
+      const signed = [...params.keys()]
+        .sort()
+        .reduce((data, key) => data + key + params.get(key), config.inboundUrl ?? req.url);
+
+      const key = await crypto.subtle.importKey(
+        'raw',
+        new TextEncoder().encode(config.authToken),
+        { name: 'HMAC', hash: 'SHA-1' },
+        false,
+        ['sign']
+      );
+      const digest = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(signed));
+      return encodeBase64(digest) === signature;
+    }
+  };
+}
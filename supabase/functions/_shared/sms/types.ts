@@ -0,0 +1,12 @@
+export interface SmsMessage {
+  /** E.164 number */
+  to: string;
+  body: string;
+}
+
+/** Anything that can deliver a text message. Pick one with SMS_PROVIDER (see ./index.ts). */
+export interface SmsProvider {
+  send(message: SmsMessage): Promise<{ id: string }>;
+  /** Checks that an inbound webhook really came from the provider. */
+  verifyInbound(req: Request, params: URLSearchParams): Promise<boolean>;
+}
@@ -0,0 +1,4 @@
+/** Replaces {{name}} placeholders. Unknown placeholders are left as they are. */
+export function renderTemplate(template: string, values: Record<string, string>) {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => values[name] ?? match);
+}
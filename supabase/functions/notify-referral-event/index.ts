@@ -0,0 +1,170 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { getMailTransport } from '../_shared/mail/index.ts';
+import { getSmsProvider } from '../_shared/sms/index.ts';
+import { renderTemplate } from '../_shared/templates.ts';
+
+// Called by the dispatch_referral_event_notification trigger with { event_id }.
+// Works out which emails and texts the event calls for and sends them to the referrer,
+// plus a confirmation text to homeowners who agreed to be contacted.
+
+type NotificationKind = 'referral_received' | 'stage_changed' | 'bonus_paid';
+type SmsKind = 'stage_changed' | 'bonus_paid' | 'client_confirmation';
+
+interface ReferralEvent {
+  id: string;
+  event_type: string;
+  old_stage: string | null;
+  new_stage: string | null;
+  old_bonus_status: string | null;
+  new_bonus_status: string | null;
+  referrals: {
+    user_id: string;
+    client_name: string;
+    bonus_amount: number | null;
+    normalized_phone: string | null;
+    consented_at: string | null;
+  } | null;
+}
+
+const currencyFormatter = new Intl.NumberFormat('en-US', {
+  style: 'currency',
+  currency: 'USD'
+});
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+
+function notificationKinds(event: ReferralEvent): NotificationKind[] {
+  if (event.event_type === 'created') return ['referral_received'];
+  if (event.event_type !== 'updated') return [];
+
+  const kinds: NotificationKind[] = [];
+  if (event.new_stage !== event.old_stage) kinds.push('stage_changed');
+  if (event.new_bonus_status === 'Paid' && event.old_bonus_status !== 'Paid') kinds.push('bonus_paid');
+  return kinds;
+}
+
+Deno.serve(async (req) => {
+  const secret = Deno.env.get('NOTIFY_WEBHOOK_SECRET');
+  if (!secret || req.headers.get('x-webhook-secret') !== secret) {
+    return json({ error: 'Unauthorized' }, 401);
+  }
+
+  const { event_id } = await req.json();
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  );
+
+  const { data: event, error: eventError } = await supabase
+    .from('referral_events')
+    .select('id, event_type, old_stage, new_stage, old_bonus_status, new_bonus_status, referrals(user_id, client_name, bonus_amount, normalized_phone, consented_at)')
+    .eq('id', event_id)
+    .maybeSingle<ReferralEvent>();
+
+  if (eventError) {
+    console.error('Error fetching referral event:', eventError);
+    return json({ error: eventError.message }, 500);
+  }
+  if (!event?.referrals) return json({ error: 'Event not found' }, 404);
+
+  const kinds = notificationKinds(event);
+  if (kinds.length === 0) return json({ sent: [], texted: [] });
+
+  const referral = event.referrals;
+  const [profileResult, preferencesResult, templatesResult, smsTemplatesResult, stagesResult] = await Promise.all([
+    supabase.from('profiles').select('name, phone').eq('user_id', referral.user_id).maybeSingle(),
+    supabase.from('notification_preferences').select('*').eq('user_id', referral.user_id).maybeSingle(),
+    supabase.from('notification_templates').select('kind, subject, body').in('kind', kinds),
+    supabase.from('sms_templates').select('kind, body'),
+    supabase.from('referral_stages').select('key, label')
+  ]);
+
+  const failed = [profileResult, preferencesResult, templatesResult, smsTemplatesResult, stagesResult].find(result => result.error);
+  if (failed) {
+    console.error('Error loading notification data:', failed.error);
+    return json({ error: failed.error.message }, 500);
+  }
+
+  // The account email is the one the referrer signs in with, so it is always current
+  const { data: userData } = await supabase.auth.admin.getUserById(referral.user_id);
+  const email = userData.user?.email;
+
+  const stageLabel = (key: string | null) =>
+    stagesResult.data.find(stage => stage.key === key)?.label ?? key ?? '';
+
+  const values = {
+    first_name: (profileResult.data?.name ?? '').split(' ')[0] || 'there',
+    client_name: referral.client_name,
+    stage: stageLabel(event.new_stage),
+    previous_stage: stageLabel(event.old_stage),
+    bonus_amount: currencyFormatter.format(Number(referral.bonus_amount) || 0),
+    dashboard_url: Deno.env.get('APP_URL') ?? ''
+  };
+
+  const transport = getMailTransport();
+  const sent: NotificationKind[] = [];
+
+  for (const kind of kinds) {
+    if (!email || preferencesResult.data?.[`email_${kind}`] === false) continue;
+
+    const template = templatesResult.data.find(t => t.kind === kind);
+    if (!template) continue;
+
+    try {
+      await transport.send({
+        to: email,
+        subject: renderTemplate(template.subject, values),
+        text: renderTemplate(template.body, values)
+      });
+      sent.push(kind);
+    } catch (error) {
+      console.error(`Error sending ${kind} email for event ${event.id}:`, error);
+    }
+  }
+
+  // Texts: referrers opt in per kind; homeowners only get one if they gave consent
+  const texts: { kind: SmsKind; to: string }[] = [];
+  const referrerPhone = profileResult.data?.phone;
+  for (const kind of kinds) {
+    if (kind !== 'referral_received' && referrerPhone && preferencesResult.data?.[`sms_${kind}`] === true) {
+      texts.push({ kind, to: referrerPhone });
+    }
+  }
+  if (event.event_type === 'created' && referral.consented_at && referral.normalized_phone) {
+    texts.push({ kind: 'client_confirmation', to: referral.normalized_phone });
+  }
+
+  const texted: SmsKind[] = [];
+  if (texts.length > 0) {
+    const { data: optOuts, error: optOutsError } = await supabase
+      .from('sms_opt_outs')
+      .select('phone')
+      .in('phone', texts.map(text => text.to));
+
+    if (optOutsError) {
+      console.error('Error fetching SMS opt-outs:', optOutsError);
+      return json({ error: optOutsError.message }, 500);
+    }
+
+    const provider = getSmsProvider();
+    for (const text of texts) {
+      if (optOuts.some(optOut => optOut.phone === text.to)) continue;
+
+      const template = smsTemplatesResult.data.find(t => t.kind === text.kind);
+      if (!template) continue;
+
+      try {
+        await provider.send({ to: text.to, body: renderTemplate(template.body, values) });
+        texted.push(text.kind);
+      } catch (error) {
+        console.error(`Error sending ${text.kind} text for event ${event.id}:`, error);
+      }
+    }
+  }
+
+  return json({ sent, texted });
+});
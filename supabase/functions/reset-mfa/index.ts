@@ -0,0 +1,86 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+
+// Removes a user's MFA factors so they can enroll again. Either the user proves who they
+// are with a recovery code ({ recovery_code }), or an admin who has verified with MFA
+// resets someone else ({ user_id }). Deleting a verified factor needs the admin API.
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  // Runs queries as the caller, so auth.uid() and the session's aal are theirs
+  const userClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } }
+  });
+  const adminClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+  const { data: { user } } = await userClient.auth.getUser();
+  if (!user) return json({ error: 'Unauthorized' }, 401);
+
+  const { recovery_code, user_id } = await req.json();
+  let targetUserId: string;
+
+  if (recovery_code) {
+    const { data: accepted, error } = await adminClient.rpc('consume_mfa_recovery_code', {
+      _user_id: user.id,
+      _code: recovery_code
+    });
+
+    if (error) {
+      console.error('Error checking recovery code:', error);
+      return json({ error: 'Failed to check recovery code' }, 500);
+    }
+    if (!accepted) return json({ error: 'That recovery code is not valid or has already been used' }, 400);
+
+    targetUserId = user.id;
+  } else if (user_id) {
+    const [roleResult, mfaResult] = await Promise.all([
+      userClient.rpc('has_role', { _user_id: user.id, _role: 'admin' }),
+      userClient.rpc('is_mfa_verified')
+    ]);
+
+    if (!roleResult.data || !mfaResult.data) {
+      return json({ error: 'Only admins who have verified with MFA can reset another user\'s factors' }, 403);
+    }
+
+    targetUserId = user_id;
+  } else {
+    return json({ error: 'Provide a recovery code or a user' }, 400);
+  }
+
+  const { data: factorData, error: listError } = await adminClient.auth.admin.mfa.listFactors({ userId: targetUserId });
+  if (listError) {
+    console.error('Error listing MFA factors:', listError);
+    return json({ error: listError.message }, 500);
+  }
+
+  for (const factor of factorData.factors) {
+    const { error } = await adminClient.auth.admin.mfa.deleteFactor({ id: factor.id, userId: targetUserId });
+    if (error) {
+      console.error('Error deleting MFA factor:', error);
+      return json({ error: error.message }, 500);
+    }
+  }
+
+  // New codes are issued when the user enrolls again
+  await adminClient.from('mfa_recovery_codes').delete().eq('user_id', targetUserId);
+
+  const { error: auditError } = await adminClient.from('admin_audit_log').insert({
+    actor_id: user.id,
+    target_user_id: targetUserId,
+    action: 'mfa_reset',
+    details: recovery_code ? { method: 'recovery_code' } : {}
+  });
+  if (auditError) console.error('Error writing audit log:', auditError);
+
+  return json({ removed: factorData.factors.length });
+});
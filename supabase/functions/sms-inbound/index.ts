@@ -0,0 +1,54 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { getSmsProvider, parseKeyword } from '../_shared/sms/index.ts';
+
+// Webhook for replies to our texts, in Twilio's form-encoded format (From, Body).
+// Records STOP and START so notify-referral-event knows who not to text.
+
+const twiml = (reply?: string) => {
+  const escaped = reply?.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  return new Response(
+    `<?xml version="1.0" encoding="UTF-8"?><Response>${escaped ? `<Message>${escaped}</Message>` : ''}</Response>`,
+    { headers: { 'Content-Type': 'text/xml' } }
+  );
+};
+
+Deno.serve(async (req) => {
+  const params = new URLSearchParams(await req.text());
+  const provider = getSmsProvider();
+
+  if (!(await provider.verifyInbound(req, params))) {
+    return new Response('Invalid signature', { status: 403 });
+  }
+
+  const from = params.get('From');
+  const command = parseKeyword(params.get('Body') ?? '');
+  if (!from || !command) return twiml();
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  );
+
+  if (command.action === 'stop') {
+    const { error } = await supabase
+      .from('sms_opt_outs')
+      .upsert({ phone: from, keyword: command.keyword, opted_out_at: new Date().toISOString() });
+
+    if (error) {
+      console.error('Error recording SMS opt-out:', error);
+      return new Response('Failed to record opt-out', { status: 500 });
+    }
+    return twiml('You have been unsubscribed from SolarPay texts. Reply START to resubscribe.');
+  }
+
+  const { error } = await supabase
+    .from('sms_opt_outs')
+    .delete()
+    .eq('phone', from);
+
+  if (error) {
+    console.error('Error removing SMS opt-out:', error);
+    return new Response('Failed to record opt-in', { status: 500 });
+  }
+  return twiml('You have been resubscribed to SolarPay texts. Reply STOP to unsubscribe.');
+});
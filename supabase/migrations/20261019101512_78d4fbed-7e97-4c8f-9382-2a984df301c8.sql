@@ -0,0 +1,92 @@
+-- Create table to keep the history of every referral stage and bonus status change
+CREATE TABLE public.referral_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  referral_id UUID NOT NULL REFERENCES public.referrals(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL CHECK (event_type IN ('created', 'updated')),
+  old_stage referral_stage,
+  new_stage referral_stage,
+  old_bonus_status bonus_status,
+  new_bonus_status bonus_status,
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  actor_name TEXT,
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_referral_events_referral_id ON public.referral_events(referral_id, created_at);
+
+-- Enable RLS on referral_events
+ALTER TABLE public.referral_events ENABLE ROW LEVEL SECURITY;
+
+-- Events are only ever written by the trigger below, so there are no insert/update policies
+CREATE POLICY "Users can view events of their own referrals"
+  ON public.referral_events
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.referrals
+      WHERE referrals.id = referral_events.referral_id
+        AND referrals.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all referral events"
+  ON public.referral_events
+  FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Record an event whenever a referral is created or its stage, bonus status or notes change
+CREATE OR REPLACE FUNCTION public.record_referral_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  _actor_name TEXT;
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.stage IS NOT DISTINCT FROM OLD.stage
+    AND NEW.bonus_status IS NOT DISTINCT FROM OLD.bonus_status
+    AND NEW.notes IS NOT DISTINCT FROM OLD.notes THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT name INTO _actor_name
+  FROM public.profiles
+  WHERE user_id = auth.uid();
+
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.referral_events (referral_id, event_type, new_stage, new_bonus_status, actor_id, actor_name)
+    VALUES (NEW.id, 'created', NEW.stage, NEW.bonus_status, auth.uid(), COALESCE(_actor_name, 'System'));
+  ELSE
+    INSERT INTO public.referral_events (
+      referral_id, event_type, old_stage, new_stage, old_bonus_status, new_bonus_status, actor_id, actor_name, note
+    )
+    VALUES (
+      NEW.id,
+      'updated',
+      OLD.stage,
+      NEW.stage,
+      OLD.bonus_status,
+      NEW.bonus_status,
+      auth.uid(),
+      COALESCE(_actor_name, 'System'),
+      CASE WHEN NEW.notes IS DISTINCT FROM OLD.notes THEN NEW.notes END
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_referral_event
+  AFTER INSERT OR UPDATE ON public.referrals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_referral_event();
+
+-- Backfill a "created" event for referrals that existed before history was tracked
+INSERT INTO public.referral_events (referral_id, event_type, new_stage, new_bonus_status, actor_id, actor_name, created_at)
+SELECT r.id, 'created', r.stage, r.bonus_status, r.user_id, p.name, r.created_at
+FROM public.referrals r
+LEFT JOIN public.profiles p ON p.user_id = r.user_id;
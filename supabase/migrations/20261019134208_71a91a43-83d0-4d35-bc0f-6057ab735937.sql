@@ -0,0 +1,163 @@
+-- Store the bonus amount on every referral instead of assuming a fixed $500
+ALTER TABLE public.referrals
+ADD COLUMN bonus_amount NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (bonus_amount >= 0);
+
+-- Create bonus rules table managed by admins
+-- - flat: paid once the referral reaches "Solar Installed"
+-- - tiered: replaces the flat amount once the referrer has at least min_installs installs
+-- - milestone: paid as soon as the referral reaches the given stage
+CREATE TABLE public.bonus_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  rule_type TEXT NOT NULL CHECK (rule_type IN ('flat', 'tiered', 'milestone')),
+  name TEXT NOT NULL,
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount >= 0),
+  min_installs INTEGER CHECK (min_installs >= 1),
+  stage referral_stage,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((rule_type = 'tiered') = (min_installs IS NOT NULL)),
+  CHECK ((rule_type = 'milestone') = (stage IS NOT NULL))
+);
+
+-- Enable RLS on bonus_rules
+ALTER TABLE public.bonus_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view bonus rules"
+  ON public.bonus_rules
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage bonus rules"
+  ON public.bonus_rules
+  FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_bonus_rules_updated_at
+  BEFORE UPDATE ON public.bonus_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Position of a stage in the pipeline (the enum sort order does not match the pipeline order)
+CREATE OR REPLACE FUNCTION public.referral_stage_rank(_stage referral_stage)
+RETURNS INTEGER
+LANGUAGE SQL
+IMMUTABLE
+SET search_path = ''
+AS $$
+  SELECT CASE _stage
+    WHEN 'Referred Connection' THEN 1
+    WHEN 'Client Signed' THEN 2
+    WHEN 'Site Inspection Done' THEN 3
+    WHEN 'Documents Verified' THEN 4
+    WHEN 'Solar Installed' THEN 5
+  END
+$$;
+
+-- Calculate the bonus a referral has earned at the given stage from the active rules
+CREATE OR REPLACE FUNCTION public.calculate_bonus_amount(_referral_id UUID, _user_id UUID, _stage referral_stage)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  _milestone_total NUMERIC := 0;
+  _completion_amount NUMERIC := 0;
+  _install_count INTEGER;
+BEGIN
+  SELECT COALESCE(SUM(amount), 0) INTO _milestone_total
+  FROM public.bonus_rules
+  WHERE is_active
+    AND rule_type = 'milestone'
+    AND public.referral_stage_rank(stage) <= public.referral_stage_rank(_stage);
+
+  IF _stage = 'Solar Installed' THEN
+    -- Count this referral as one of the referrer's installs
+    SELECT COUNT(*) + 1 INTO _install_count
+    FROM public.referrals
+    WHERE user_id = _user_id
+      AND stage = 'Solar Installed'
+      AND id IS DISTINCT FROM _referral_id;
+
+    SELECT amount INTO _completion_amount
+    FROM public.bonus_rules
+    WHERE is_active
+      AND rule_type = 'tiered'
+      AND min_installs <= _install_count
+    ORDER BY min_installs DESC
+    LIMIT 1;
+
+    IF _completion_amount IS NULL THEN
+      SELECT amount INTO _completion_amount
+      FROM public.bonus_rules
+      WHERE is_active
+        AND rule_type = 'flat'
+      ORDER BY created_at DESC
+      LIMIT 1;
+    END IF;
+  END IF;
+
+  RETURN _milestone_total + COALESCE(_completion_amount, 0);
+END;
+$$;
+
+-- Keep bonus_amount in sync with the stage unless the bonus was paid or the amount was set explicitly
+CREATE OR REPLACE FUNCTION public.set_referral_bonus_amount()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND (
+    OLD.bonus_status = 'Paid'
+    OR NEW.stage IS NOT DISTINCT FROM OLD.stage
+    OR NEW.bonus_amount IS DISTINCT FROM OLD.bonus_amount
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.bonus_amount := public.calculate_bonus_amount(NEW.id, NEW.user_id, NEW.stage);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_referral_bonus_amount
+  BEFORE INSERT OR UPDATE ON public.referrals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_referral_bonus_amount();
+
+-- Re-apply the current rules to every referral whose bonus has not been paid yet
+CREATE OR REPLACE FUNCTION public.recalculate_pending_bonus_amounts()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  _updated INTEGER;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can recalculate bonus amounts';
+  END IF;
+
+  UPDATE public.referrals
+  SET bonus_amount = public.calculate_bonus_amount(id, user_id, stage)
+  WHERE bonus_status = 'Pending';
+
+  GET DIAGNOSTICS _updated = ROW_COUNT;
+  RETURN _updated;
+END;
+$$;
+
+-- Seed the rule that matches the amount previously hard-coded in the dashboard
+INSERT INTO public.bonus_rules (rule_type, name, amount)
+VALUES ('flat', 'Installation bonus', 500);
+
+-- Bonuses already paid were paid at the old fixed amount
+UPDATE public.referrals
+SET bonus_amount = CASE
+  WHEN bonus_status = 'Paid' THEN 500
+  ELSE public.calculate_bonus_amount(id, user_id, stage)
+END;
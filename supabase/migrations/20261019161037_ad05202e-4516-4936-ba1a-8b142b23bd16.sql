@@ -0,0 +1,188 @@
+-- Create payout batches used to pay out pending bonuses in one go
+CREATE TABLE public.payout_batches (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'sent', 'cancelled')),
+  total_amount NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  reference_number TEXT,
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  sent_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (status <> 'sent' OR (reference_number IS NOT NULL AND sent_at IS NOT NULL))
+);
+
+-- One payout item per referrer in a batch, with a snapshot of where the money goes
+CREATE TABLE public.payout_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  batch_id UUID NOT NULL REFERENCES public.payout_batches(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  profile_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  payee_name TEXT NOT NULL,
+  payment_method TEXT NOT NULL,
+  payment_details JSONB,
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount > 0),
+  referral_count INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(batch_id, user_id)
+);
+
+-- Link each referral to the batch that pays its bonus
+ALTER TABLE public.referrals
+ADD COLUMN payout_batch_id UUID REFERENCES public.payout_batches(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_payout_items_batch_id ON public.payout_items(batch_id);
+CREATE INDEX idx_referrals_payout_batch_id ON public.referrals(payout_batch_id);
+
+-- Enable RLS on payout tables
+ALTER TABLE public.payout_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payout_items ENABLE ROW LEVEL SECURITY;
+
+-- Batches are created and updated through the functions below only
+CREATE POLICY "Admins can view all payout batches"
+  ON public.payout_batches
+  FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can view all payout items"
+  ON public.payout_items
+  FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can view their own payout items"
+  ON public.payout_items
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_payout_batches_updated_at
+  BEFORE UPDATE ON public.payout_batches
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create a draft batch from pending referrals, grouped into one item per referrer
+CREATE OR REPLACE FUNCTION public.create_payout_batch(_referral_ids UUID[], _notes TEXT DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  _batch_id UUID;
+  _eligible_count INTEGER;
+  _missing_payees TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can create payout batches';
+  END IF;
+
+  IF COALESCE(array_length(_referral_ids, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'Select at least one referral to pay out';
+  END IF;
+
+  -- Lock the referrals so they cannot be added to two batches at once
+  SELECT COUNT(*) INTO _eligible_count
+  FROM (
+    SELECT id
+    FROM public.referrals
+    WHERE id = ANY(_referral_ids)
+      AND bonus_status = 'Pending'
+      AND payout_batch_id IS NULL
+      AND bonus_amount > 0
+    FOR UPDATE
+  ) eligible;
+
+  IF _eligible_count <> array_length(_referral_ids, 1) THEN
+    RAISE EXCEPTION 'Some referrals are not eligible for payout (already paid, already in a batch or without a bonus amount)';
+  END IF;
+
+  SELECT string_agg(DISTINCT COALESCE(p.name, r.user_id::TEXT), ', ') INTO _missing_payees
+  FROM public.referrals r
+  LEFT JOIN public.profiles p ON p.user_id = r.user_id
+  WHERE r.id = ANY(_referral_ids)
+    AND (p.payment_method IS NULL OR p.payment_details IS NULL);
+
+  IF _missing_payees IS NOT NULL THEN
+    RAISE EXCEPTION 'Missing payment details for: %', _missing_payees;
+  END IF;
+
+  INSERT INTO public.payout_batches (notes, created_by)
+  VALUES (_notes, auth.uid())
+  RETURNING id INTO _batch_id;
+
+  INSERT INTO public.payout_items (batch_id, user_id, profile_id, payee_name, payment_method, payment_details, amount, referral_count)
+  SELECT _batch_id, r.user_id, p.id, p.name, p.payment_method, p.payment_details, SUM(r.bonus_amount), COUNT(*)
+  FROM public.referrals r
+  JOIN public.profiles p ON p.user_id = r.user_id
+  WHERE r.id = ANY(_referral_ids)
+  GROUP BY r.user_id, p.id, p.name, p.payment_method, p.payment_details;
+
+  UPDATE public.payout_batches
+  SET total_amount = (SELECT SUM(amount) FROM public.payout_items WHERE batch_id = _batch_id)
+  WHERE id = _batch_id;
+
+  UPDATE public.referrals
+  SET payout_batch_id = _batch_id
+  WHERE id = ANY(_referral_ids);
+
+  RETURN _batch_id;
+END;
+$$;
+
+-- Record that the money went out and flip the batch's referrals to Paid
+CREATE OR REPLACE FUNCTION public.mark_payout_batch_sent(_batch_id UUID, _reference_number TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can mark payout batches as sent';
+  END IF;
+
+  IF COALESCE(trim(_reference_number), '') = '' THEN
+    RAISE EXCEPTION 'A reference number is required';
+  END IF;
+
+  UPDATE public.payout_batches
+  SET status = 'sent',
+      reference_number = trim(_reference_number),
+      sent_by = auth.uid(),
+      sent_at = now()
+  WHERE id = _batch_id
+    AND status = 'draft';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only draft payout batches can be marked as sent';
+  END IF;
+
+  UPDATE public.referrals
+  SET bonus_status = 'Paid'
+  WHERE payout_batch_id = _batch_id;
+END;
+$$;
+
+-- Cancel a draft batch and release its referrals so they can be batched again
+CREATE OR REPLACE FUNCTION public.cancel_payout_batch(_batch_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can cancel payout batches';
+  END IF;
+
+  UPDATE public.payout_batches
+  SET status = 'cancelled'
+  WHERE id = _batch_id
+    AND status = 'draft';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only draft payout batches can be cancelled';
+  END IF;
+
+  UPDATE public.referrals
+  SET payout_batch_id = NULL
+  WHERE payout_batch_id = _batch_id;
+END;
+$$;
@@ -0,0 +1,135 @@
+-- Validate ABA routing numbers with their weighted mod-10 check digit (weights 3, 7, 1)
+CREATE OR REPLACE FUNCTION public.is_valid_routing_number(_routing_number TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = ''
+AS $$
+DECLARE
+  _weights INTEGER[] := ARRAY[3, 7, 1, 3, 7, 1, 3, 7, 1];
+  _sum INTEGER := 0;
+BEGIN
+  IF _routing_number IS NULL OR _routing_number !~ '^\d{9}$' THEN
+    RETURN false;
+  END IF;
+
+  FOR i IN 1..9 LOOP
+    _sum := _sum + substr(_routing_number, i, 1)::INTEGER * _weights[i];
+  END LOOP;
+
+  RETURN _sum % 10 = 0;
+END;
+$$;
+
+-- Validate payment details for a payment method and return them in their canonical shape.
+-- Keep in sync with src/lib/paymentDetails.ts
+CREATE OR REPLACE FUNCTION public.normalize_payment_details(_method TEXT, _details JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = ''
+AS $$
+DECLARE
+  _email_pattern CONSTANT TEXT := '^[^\s@]+@[^\s@]+\.[^\s@]+$';
+  _value TEXT;
+  _digits TEXT;
+  _account_type TEXT;
+BEGIN
+  IF jsonb_typeof(_details) IS DISTINCT FROM 'object' THEN
+    RAISE EXCEPTION 'Payment details must be an object' USING ERRCODE = 'check_violation';
+  END IF;
+
+  CASE _method
+    WHEN 'zelle' THEN
+      _value := trim(COALESCE(_details ->> 'email_or_phone', ''));
+      IF position('@' IN _value) > 0 THEN
+        IF lower(_value) !~ _email_pattern THEN
+          RAISE EXCEPTION 'Enter a valid email address or US phone number' USING ERRCODE = 'check_violation';
+        END IF;
+        RETURN jsonb_build_object('email_or_phone', lower(_value));
+      END IF;
+
+      _digits := regexp_replace(_value, '\D', '', 'g');
+      IF length(_digits) = 10 THEN
+        RETURN jsonb_build_object('email_or_phone', '+1' || _digits);
+      ELSIF length(_digits) = 11 AND left(_digits, 1) = '1' THEN
+        RETURN jsonb_build_object('email_or_phone', '+' || _digits);
+      END IF;
+      RAISE EXCEPTION 'Enter a valid email address or US phone number' USING ERRCODE = 'check_violation';
+
+    WHEN 'paypal' THEN
+      _value := lower(trim(COALESCE(_details ->> 'email', '')));
+      IF _value !~ _email_pattern THEN
+        RAISE EXCEPTION 'Enter a valid email address' USING ERRCODE = 'check_violation';
+      END IF;
+      RETURN jsonb_build_object('email', _value);
+
+    WHEN 'bank_transfer' THEN
+      IF trim(COALESCE(_details ->> 'full_name', '')) = '' THEN
+        RAISE EXCEPTION 'Enter the name on the account' USING ERRCODE = 'check_violation';
+      END IF;
+      IF trim(COALESCE(_details ->> 'bank_name', '')) = '' THEN
+        RAISE EXCEPTION 'Enter the bank name' USING ERRCODE = 'check_violation';
+      END IF;
+
+      _account_type := COALESCE(_details ->> 'account_type', 'checking');
+      IF _account_type NOT IN ('checking', 'savings') THEN
+        RAISE EXCEPTION 'Account type must be checking or savings' USING ERRCODE = 'check_violation';
+      END IF;
+
+      _digits := regexp_replace(COALESCE(_details ->> 'account_number', ''), '\D', '', 'g');
+      IF _digits !~ '^\d{4,17}$' THEN
+        RAISE EXCEPTION 'Account number must be 4 to 17 digits' USING ERRCODE = 'check_violation';
+      END IF;
+
+      _value := regexp_replace(COALESCE(_details ->> 'routing_number', ''), '\D', '', 'g');
+      IF NOT public.is_valid_routing_number(_value) THEN
+        RAISE EXCEPTION 'Enter a valid 9-digit ABA routing number' USING ERRCODE = 'check_violation';
+      END IF;
+
+      RETURN jsonb_build_object(
+        'full_name', trim(_details ->> 'full_name'),
+        'bank_name', trim(_details ->> 'bank_name'),
+        'account_type', _account_type,
+        'account_number', _digits,
+        'routing_number', _value
+      );
+
+    ELSE
+      RAISE EXCEPTION 'Unknown payment method: %', _method USING ERRCODE = 'check_violation';
+  END CASE;
+END;
+$$;
+
+-- Reject invalid payment details on every write and store them in canonical form
+CREATE OR REPLACE FUNCTION public.validate_profile_payment_details()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.payment_method IS NOT DISTINCT FROM OLD.payment_method
+    AND NEW.payment_details IS NOT DISTINCT FROM OLD.payment_details THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.payment_method IS NULL THEN
+    NEW.payment_details := NULL;
+    RETURN NEW;
+  END IF;
+
+  NEW.payment_details := public.normalize_payment_details(NEW.payment_method, NEW.payment_details);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_profile_payment_details
+  BEFORE INSERT OR UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_profile_payment_details();
+
+COMMENT ON COLUMN public.profiles.payment_details IS 'Payment details for payment_method, validated by public.normalize_payment_details():
+- zelle: {"email_or_phone": "lower-cased email or E.164 phone"}
+- paypal: {"email": "lower-cased email"}
+- bank_transfer: {"full_name": "value", "bank_name": "value", "account_type": "checking|savings", "account_number": "4-17 digits", "routing_number": "9-digit ABA number"}';
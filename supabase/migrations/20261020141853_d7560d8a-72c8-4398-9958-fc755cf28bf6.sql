@@ -0,0 +1,295 @@
+-- Enable extensions used to encrypt bank details at rest
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+CREATE EXTENSION IF NOT EXISTS supabase_vault WITH SCHEMA vault;
+
+-- Create the encryption key in Vault once; it never leaves the database
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM vault.secrets WHERE name = 'payment_details_key') THEN
+    PERFORM vault.create_secret(
+      encode(extensions.gen_random_bytes(32), 'hex'),
+      'payment_details_key',
+      'Symmetric key for bank account and routing numbers in public.payment_detail_secrets'
+    );
+  END IF;
+END;
+$$;
+
+-- Encrypted bank numbers, one row per user. No policies: only the functions below can read or write it
+CREATE TABLE public.payment_detail_secrets (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  account_number_encrypted BYTEA NOT NULL,
+  routing_number_encrypted BYTEA NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.payment_detail_secrets ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.payment_detail_secrets FROM anon, authenticated;
+
+-- Extra permissions granted to admins on top of their role
+CREATE TABLE public.admin_permissions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  permission TEXT NOT NULL CHECK (permission IN ('finance')),
+  granted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, permission)
+);
+
+ALTER TABLE public.admin_permissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own permissions"
+  ON public.admin_permissions
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can manage all permissions"
+  ON public.admin_permissions
+  FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Check whether an admin holds an extra permission
+CREATE OR REPLACE FUNCTION public.has_permission(_user_id UUID, _permission TEXT)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER SET search_path = ''
+AS $$
+  SELECT public.has_role(_user_id, 'admin') AND EXISTS (
+    SELECT 1
+    FROM public.admin_permissions
+    WHERE user_id = _user_id
+      AND permission = _permission
+  )
+$$;
+
+-- Audit trail of every time full bank details were revealed
+CREATE TABLE public.payment_detail_access_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL,
+  payout_batch_id UUID REFERENCES public.payout_batches(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_payment_detail_access_log_user_id ON public.payment_detail_access_log(user_id, created_at);
+
+ALTER TABLE public.payment_detail_access_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view payment detail access log"
+  ON public.payment_detail_access_log
+  FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Encryption helpers, not callable through the API
+CREATE OR REPLACE FUNCTION public.encrypt_payment_secret(_value TEXT)
+RETURNS BYTEA
+LANGUAGE SQL
+SECURITY DEFINER SET search_path = ''
+AS $$
+  SELECT extensions.pgp_sym_encrypt(
+    _value,
+    (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'payment_details_key')
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.decrypt_payment_secret(_value BYTEA)
+RETURNS TEXT
+LANGUAGE SQL
+SECURITY DEFINER SET search_path = ''
+AS $$
+  SELECT extensions.pgp_sym_decrypt(
+    _value,
+    (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'payment_details_key')
+  )
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.encrypt_payment_secret(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.decrypt_payment_secret(BYTEA) FROM PUBLIC, anon, authenticated;
+
+-- Move bank numbers out of a canonical payment_details object into the encrypted table
+-- and return the masked object that is stored on the profile
+CREATE OR REPLACE FUNCTION public.store_payment_secrets(_user_id UUID, _details JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+BEGIN
+  INSERT INTO public.payment_detail_secrets (user_id, account_number_encrypted, routing_number_encrypted)
+  VALUES (
+    _user_id,
+    public.encrypt_payment_secret(_details ->> 'account_number'),
+    public.encrypt_payment_secret(_details ->> 'routing_number')
+  )
+  ON CONFLICT (user_id) DO UPDATE
+  SET account_number_encrypted = EXCLUDED.account_number_encrypted,
+      routing_number_encrypted = EXCLUDED.routing_number_encrypted,
+      updated_at = now();
+
+  RETURN (_details - 'account_number' - 'routing_number')
+    || jsonb_build_object(
+      'account_last4', right(_details ->> 'account_number', 4),
+      'routing_last4', right(_details ->> 'routing_number', 4)
+    );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.store_payment_secrets(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Validate, then encrypt bank numbers so profiles only ever hold masked bank details
+CREATE OR REPLACE FUNCTION public.validate_profile_payment_details()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.payment_method IS NOT DISTINCT FROM OLD.payment_method
+    AND NEW.payment_details IS NOT DISTINCT FROM OLD.payment_details THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.payment_method IS DISTINCT FROM 'bank_transfer' THEN
+    DELETE FROM public.payment_detail_secrets WHERE user_id = NEW.user_id;
+  END IF;
+
+  IF NEW.payment_method IS NULL THEN
+    NEW.payment_details := NULL;
+    RETURN NEW;
+  END IF;
+
+  NEW.payment_details := public.normalize_payment_details(NEW.payment_method, NEW.payment_details);
+
+  IF NEW.payment_method = 'bank_transfer' THEN
+    NEW.payment_details := public.store_payment_secrets(NEW.user_id, NEW.payment_details);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Return full bank details for one user, for admins with the finance permission, and log the access
+CREATE OR REPLACE FUNCTION public.reveal_payment_details(_user_id UUID, _reason TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  _details JSONB;
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'finance') THEN
+    RAISE EXCEPTION 'Only admins with the finance permission can reveal bank details';
+  END IF;
+
+  IF COALESCE(trim(_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to reveal bank details';
+  END IF;
+
+  SELECT (p.payment_details - 'account_last4' - 'routing_last4')
+    || jsonb_build_object(
+      'account_number', public.decrypt_payment_secret(s.account_number_encrypted),
+      'routing_number', public.decrypt_payment_secret(s.routing_number_encrypted)
+    )
+  INTO _details
+  FROM public.profiles p
+  JOIN public.payment_detail_secrets s ON s.user_id = p.user_id
+  WHERE p.user_id = _user_id
+    AND p.payment_method = 'bank_transfer';
+
+  IF _details IS NULL THEN
+    RAISE EXCEPTION 'No bank details on file for this user';
+  END IF;
+
+  INSERT INTO public.payment_detail_access_log (actor_id, user_id, reason)
+  VALUES (auth.uid(), _user_id, trim(_reason));
+
+  RETURN _details;
+END;
+$$;
+
+-- Return full bank details for every bank transfer payee in a payout batch, for file exports
+CREATE OR REPLACE FUNCTION public.reveal_payout_batch_payment_details(_batch_id UUID)
+RETURNS TABLE(item_id UUID, payment_details JSONB)
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'finance') THEN
+    RAISE EXCEPTION 'Only admins with the finance permission can export bank details';
+  END IF;
+
+  INSERT INTO public.payment_detail_access_log (actor_id, user_id, reason, payout_batch_id)
+  SELECT auth.uid(), i.user_id, 'Payout batch export', _batch_id
+  FROM public.payout_items i
+  WHERE i.batch_id = _batch_id
+    AND i.payment_method = 'bank_transfer';
+
+  RETURN QUERY
+  SELECT
+    i.id,
+    (p.payment_details - 'account_last4' - 'routing_last4')
+      || jsonb_build_object(
+        'account_number', public.decrypt_payment_secret(s.account_number_encrypted),
+        'routing_number', public.decrypt_payment_secret(s.routing_number_encrypted)
+      )
+  FROM public.payout_items i
+  JOIN public.profiles p ON p.user_id = i.user_id
+  JOIN public.payment_detail_secrets s ON s.user_id = i.user_id
+  WHERE i.batch_id = _batch_id
+    AND i.payment_method = 'bank_transfer'
+    AND p.payment_method = 'bank_transfer';
+END;
+$$;
+
+-- Encrypt existing bank details; the rows are masked directly, so skip the validation trigger
+ALTER TABLE public.profiles DISABLE TRIGGER validate_profile_payment_details;
+
+DO $$
+DECLARE
+  _profile RECORD;
+  _details JSONB;
+BEGIN
+  FOR _profile IN
+    SELECT id, user_id, payment_details
+    FROM public.profiles
+    WHERE payment_method = 'bank_transfer'
+      AND payment_details ? 'account_number'
+  LOOP
+    BEGIN
+      _details := public.normalize_payment_details('bank_transfer', _profile.payment_details);
+    EXCEPTION WHEN check_violation THEN
+      _details := jsonb_build_object(
+        'full_name', _profile.payment_details ->> 'full_name',
+        'bank_name', _profile.payment_details ->> 'bank_name',
+        'account_type', 'checking',
+        'account_number', regexp_replace(COALESCE(_profile.payment_details ->> 'account_number', ''), '\D', '', 'g'),
+        'routing_number', regexp_replace(COALESCE(_profile.payment_details ->> 'routing_number', ''), '\D', '', 'g')
+      );
+    END;
+
+    UPDATE public.profiles
+    SET payment_details = public.store_payment_secrets(user_id, _details)
+    WHERE id = _profile.id;
+  END LOOP;
+END;
+$$;
+
+ALTER TABLE public.profiles ENABLE TRIGGER validate_profile_payment_details;
+
+-- Payout snapshots only keep the masked numbers
+UPDATE public.payout_items
+SET payment_details = (payment_details - 'account_number' - 'routing_number')
+  || jsonb_build_object(
+    'account_last4', right(payment_details ->> 'account_number', 4),
+    'routing_last4', right(payment_details ->> 'routing_number', 4)
+  )
+WHERE payment_method = 'bank_transfer'
+  AND payment_details ? 'account_number';
+
+COMMENT ON COLUMN public.profiles.payment_details IS 'Payment details for payment_method, validated by public.normalize_payment_details():
+- zelle: {"email_or_phone": "lower-cased email or E.164 phone"}
+- paypal: {"email": "lower-cased email"}
+- bank_transfer: {"full_name": "value", "bank_name": "value", "account_type": "checking|savings", "account_last4": "1234", "routing_last4": "1234"}
+  Full bank numbers are encrypted in public.payment_detail_secrets and returned by public.reveal_payment_details().';
@@ -0,0 +1,58 @@
+-- Referrers may only edit their referrals while they are still a referred connection
+DROP POLICY IF EXISTS "Users can update their own referrals" ON public.referrals;
+
+CREATE POLICY "Users can update their own early referrals"
+  ON public.referrals
+  FOR UPDATE
+  USING (auth.uid() = user_id AND stage = 'Referred Connection')
+  WITH CHECK (auth.uid() = user_id AND stage = 'Referred Connection');
+
+-- Referrers can withdraw a referral before the client signs
+CREATE POLICY "Users can delete their own early referrals"
+  ON public.referrals
+  FOR DELETE
+  USING (auth.uid() = user_id AND stage = 'Referred Connection' AND payout_batch_id IS NULL);
+
+-- Admins can delete any referral
+CREATE POLICY "Admins can delete all referrals"
+  ON public.referrals
+  FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Referrers can only change the client's contact details; everything else is managed by admins
+CREATE OR REPLACE FUNCTION public.enforce_referrer_referral_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  -- Admins and server-side jobs (no auth context) are not restricted
+  IF auth.uid() IS NULL OR public.has_role(auth.uid(), 'admin') THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.stage <> 'Referred Connection' THEN
+    RAISE EXCEPTION 'Referrals can no longer be edited once the client has signed'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id
+    OR NEW.profile_id IS DISTINCT FROM OLD.profile_id
+    OR NEW.stage IS DISTINCT FROM OLD.stage
+    OR NEW.bonus_status IS DISTINCT FROM OLD.bonus_status
+    OR NEW.bonus_amount IS DISTINCT FROM OLD.bonus_amount
+    OR NEW.payout_batch_id IS DISTINCT FROM OLD.payout_batch_id
+    OR NEW.notes IS DISTINCT FROM OLD.notes
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+    RAISE EXCEPTION 'Referrers can only update the client name, email, phone and address'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_referrer_referral_update
+  BEFORE UPDATE ON public.referrals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_referrer_referral_update();
@@ -0,0 +1,63 @@
+-- Replace the update-only guard with one that also covers inserts
+DROP TRIGGER IF EXISTS enforce_referrer_referral_update ON public.referrals;
+DROP FUNCTION IF EXISTS public.enforce_referrer_referral_update();
+
+-- Only admins can set stage, bonus status, bonus amount, payout batch and notes.
+-- RLS decides which rows a referrer can touch; this decides which columns.
+CREATE OR REPLACE FUNCTION public.enforce_referrer_referral_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  -- Admins and server-side jobs (no auth context) are not restricted
+  IF auth.uid() IS NULL OR public.has_role(auth.uid(), 'admin') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.stage <> 'Referred Connection'
+      OR NEW.bonus_status <> 'Pending'
+      OR NEW.payout_batch_id IS NOT NULL
+      OR NEW.notes IS NOT NULL THEN
+      RAISE EXCEPTION 'Referrers can only submit new referrals with the client''s details'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF NEW.profile_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM public.profiles WHERE id = NEW.profile_id AND user_id = auth.uid()
+    ) THEN
+      RAISE EXCEPTION 'Referrals can only be linked to your own profile'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    -- The amount always comes from the bonus rules (see set_referral_bonus_amount)
+    NEW.bonus_amount := 0;
+    RETURN NEW;
+  END IF;
+
+  IF OLD.stage <> 'Referred Connection' THEN
+    RAISE EXCEPTION 'Referrals can no longer be edited once the client has signed'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id
+    OR NEW.profile_id IS DISTINCT FROM OLD.profile_id
+    OR NEW.stage IS DISTINCT FROM OLD.stage
+    OR NEW.bonus_status IS DISTINCT FROM OLD.bonus_status
+    OR NEW.bonus_amount IS DISTINCT FROM OLD.bonus_amount
+    OR NEW.payout_batch_id IS DISTINCT FROM OLD.payout_batch_id
+    OR NEW.notes IS DISTINCT FROM OLD.notes
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+    RAISE EXCEPTION 'Referrers can only update the client name, email, phone and address'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_referrer_referral_columns
+  BEFORE INSERT OR UPDATE ON public.referrals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_referrer_referral_columns();
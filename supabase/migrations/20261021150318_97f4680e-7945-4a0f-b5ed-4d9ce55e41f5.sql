@@ -0,0 +1,409 @@
+-- Program-wide settings that admins can change without a deploy
+CREATE TABLE public.program_settings (
+  key TEXT NOT NULL PRIMARY KEY,
+  value JSONB NOT NULL,
+  description TEXT,
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.program_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view program settings"
+  ON public.program_settings
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage program settings"
+  ON public.program_settings
+  FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_program_settings_updated_at
+  BEFORE UPDATE ON public.program_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- first_referral_wins: a new duplicate is attributed to the earlier referral straight away and earns no bonus
+-- manual_review: duplicates are only flagged, and keep their bonus until an admin confirms them
+INSERT INTO public.program_settings (key, value, description)
+VALUES (
+  'duplicate_attribution',
+  '"first_referral_wins"',
+  'How probable duplicate referrals are attributed: first_referral_wins or manual_review'
+);
+
+-- Lower-cased, trimmed email; NULL when blank
+CREATE OR REPLACE FUNCTION public.normalize_email(_email TEXT)
+RETURNS TEXT
+LANGUAGE SQL
+IMMUTABLE
+SET search_path = ''
+AS $$
+  SELECT NULLIF(lower(trim(_email)), '')
+$$;
+
+-- E.164 phone number, assuming US numbers when there is no country code; NULL when unparseable
+CREATE OR REPLACE FUNCTION public.normalize_phone(_phone TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = ''
+AS $$
+DECLARE
+  _digits TEXT := regexp_replace(COALESCE(_phone, ''), '\D', '', 'g');
+BEGIN
+  IF trim(COALESCE(_phone, '')) LIKE '+%' AND length(_digits) BETWEEN 8 AND 15 THEN
+    RETURN '+' || _digits;
+  ELSIF length(_digits) = 10 THEN
+    RETURN '+1' || _digits;
+  ELSIF length(_digits) = 11 AND left(_digits, 1) = '1' THEN
+    RETURN '+' || _digits;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Lower-cased address with punctuation stripped and common street words abbreviated,
+-- so "123 Main Street, Apt. 4" and "123 main st apt 4" compare equal
+CREATE OR REPLACE FUNCTION public.normalize_address(_address TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = ''
+AS $$
+DECLARE
+  _abbreviations CONSTANT TEXT[][] := ARRAY[
+    ['street', 'st'], ['avenue', 'ave'], ['road', 'rd'], ['drive', 'dr'], ['lane', 'ln'],
+    ['boulevard', 'blvd'], ['court', 'ct'], ['place', 'pl'], ['terrace', 'ter'], ['circle', 'cir'],
+    ['highway', 'hwy'], ['parkway', 'pkwy'], ['apartment', 'apt'], ['suite', 'ste'],
+    ['north', 'n'], ['south', 's'], ['east', 'e'], ['west', 'w']
+  ];
+  _pair TEXT[];
+  _normalized TEXT;
+BEGIN
+  _normalized := regexp_replace(lower(COALESCE(_address, '')), '[^a-z0-9]+', ' ', 'g');
+
+  FOREACH _pair SLICE 1 IN ARRAY _abbreviations LOOP
+    _normalized := regexp_replace(_normalized, '\m' || _pair[1] || '\M', _pair[2], 'g');
+  END LOOP;
+
+  RETURN NULLIF(trim(_normalized), '');
+END;
+$$;
+
+-- Match keys and attribution on referrals
+ALTER TABLE public.referrals
+  ADD COLUMN normalized_email TEXT,
+  ADD COLUMN normalized_phone TEXT,
+  ADD COLUMN normalized_address TEXT,
+  ADD COLUMN duplicate_of UUID REFERENCES public.referrals(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_referrals_normalized_email ON public.referrals(normalized_email);
+CREATE INDEX idx_referrals_normalized_phone ON public.referrals(normalized_phone);
+CREATE INDEX idx_referrals_normalized_address ON public.referrals(normalized_address);
+
+-- Probable duplicates awaiting or after admin review
+CREATE TABLE public.referral_duplicates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  referral_id UUID NOT NULL REFERENCES public.referrals(id) ON DELETE CASCADE,
+  original_referral_id UUID NOT NULL REFERENCES public.referrals(id) ON DELETE CASCADE,
+  matched_on TEXT[] NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'confirmed', 'dismissed')),
+  reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(referral_id, original_referral_id)
+);
+
+CREATE INDEX idx_referral_duplicates_status ON public.referral_duplicates(status, created_at);
+
+ALTER TABLE public.referral_duplicates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view referral duplicates"
+  ON public.referral_duplicates
+  FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Earliest earlier referral sharing an email, phone or address with the given match keys
+CREATE OR REPLACE FUNCTION public.find_original_referral(
+  _referral_id UUID,
+  _created_at TIMESTAMP WITH TIME ZONE,
+  _email TEXT,
+  _phone TEXT,
+  _address TEXT
+)
+RETURNS TABLE(original_referral_id UUID, matched_on TEXT[])
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER SET search_path = ''
+AS $$
+  SELECT
+    r.id,
+    array_remove(ARRAY[
+      CASE WHEN r.normalized_email = _email THEN 'email' END,
+      CASE WHEN r.normalized_phone = _phone THEN 'phone' END,
+      CASE WHEN r.normalized_address = _address THEN 'address' END
+    ], NULL)
+  FROM public.referrals r
+  WHERE (r.created_at, r.id) < (_created_at, _referral_id)
+    AND r.duplicate_of IS NULL
+    AND (r.normalized_email = _email OR r.normalized_phone = _phone OR r.normalized_address = _address)
+  ORDER BY r.created_at, r.id
+  LIMIT 1
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.find_original_referral(UUID, TIMESTAMP WITH TIME ZONE, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Keep match keys current and, on insert, apply the attribution rule to probable duplicates
+CREATE OR REPLACE FUNCTION public.detect_referral_duplicate()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  _original_id UUID;
+BEGIN
+  NEW.normalized_email := public.normalize_email(NEW.client_email);
+  NEW.normalized_phone := public.normalize_phone(NEW.client_phone);
+  NEW.normalized_address := public.normalize_address(NEW.client_address);
+
+  IF TG_OP = 'UPDATE' THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.duplicate_of := NULL;
+
+  SELECT f.original_referral_id INTO _original_id
+  FROM public.find_original_referral(NEW.id, NEW.created_at, NEW.normalized_email, NEW.normalized_phone, NEW.normalized_address) f;
+
+  IF _original_id IS NOT NULL AND (
+    SELECT value #>> '{}' FROM public.program_settings WHERE key = 'duplicate_attribution'
+  ) = 'first_referral_wins' THEN
+    NEW.duplicate_of := _original_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Runs before set_referral_bonus_amount so a duplicate's bonus is calculated as zero
+CREATE TRIGGER detect_referral_duplicate
+  BEFORE INSERT OR UPDATE ON public.referrals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.detect_referral_duplicate();
+
+-- Flag the duplicate for review once the new referral exists
+CREATE OR REPLACE FUNCTION public.flag_referral_duplicate()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+BEGIN
+  INSERT INTO public.referral_duplicates (referral_id, original_referral_id, matched_on)
+  SELECT NEW.id, f.original_referral_id, f.matched_on
+  FROM public.find_original_referral(NEW.id, NEW.created_at, NEW.normalized_email, NEW.normalized_phone, NEW.normalized_address) f;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER flag_referral_duplicate
+  AFTER INSERT ON public.referrals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.flag_referral_duplicate();
+
+-- Duplicates earn no bonus and do not count towards the referrer's installs
+CREATE OR REPLACE FUNCTION public.calculate_bonus_amount(_referral_id UUID, _user_id UUID, _stage referral_stage)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  _milestone_total NUMERIC := 0;
+  _completion_amount NUMERIC := 0;
+  _install_count INTEGER;
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.referrals WHERE id = _referral_id AND duplicate_of IS NOT NULL) THEN
+    RETURN 0;
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO _milestone_total
+  FROM public.bonus_rules
+  WHERE is_active
+    AND rule_type = 'milestone'
+    AND public.referral_stage_rank(stage) <= public.referral_stage_rank(_stage);
+
+  IF _stage = 'Solar Installed' THEN
+    -- Count this referral as one of the referrer's installs
+    SELECT COUNT(*) + 1 INTO _install_count
+    FROM public.referrals
+    WHERE user_id = _user_id
+      AND stage = 'Solar Installed'
+      AND duplicate_of IS NULL
+      AND id IS DISTINCT FROM _referral_id;
+
+    SELECT amount INTO _completion_amount
+    FROM public.bonus_rules
+    WHERE is_active
+      AND rule_type = 'tiered'
+      AND min_installs <= _install_count
+    ORDER BY min_installs DESC
+    LIMIT 1;
+
+    IF _completion_amount IS NULL THEN
+      SELECT amount INTO _completion_amount
+      FROM public.bonus_rules
+      WHERE is_active
+        AND rule_type = 'flat'
+      ORDER BY created_at DESC
+      LIMIT 1;
+    END IF;
+  END IF;
+
+  RETURN _milestone_total + COALESCE(_completion_amount, 0);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_referral_bonus_amount()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND (
+    OLD.bonus_status = 'Paid'
+    OR NEW.stage IS NOT DISTINCT FROM OLD.stage
+    OR NEW.bonus_amount IS DISTINCT FROM OLD.bonus_amount
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.duplicate_of IS NOT NULL THEN
+    NEW.bonus_amount := 0;
+  ELSE
+    NEW.bonus_amount := public.calculate_bonus_amount(NEW.id, NEW.user_id, NEW.stage);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Referrers cannot change attribution themselves
+CREATE OR REPLACE FUNCTION public.enforce_referrer_referral_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  -- Admins and server-side jobs (no auth context) are not restricted
+  IF auth.uid() IS NULL OR public.has_role(auth.uid(), 'admin') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.stage <> 'Referred Connection'
+      OR NEW.bonus_status <> 'Pending'
+      OR NEW.payout_batch_id IS NOT NULL
+      OR NEW.notes IS NOT NULL THEN
+      RAISE EXCEPTION 'Referrers can only submit new referrals with the client''s details'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF NEW.profile_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM public.profiles WHERE id = NEW.profile_id AND user_id = auth.uid()
+    ) THEN
+      RAISE EXCEPTION 'Referrals can only be linked to your own profile'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    -- The amount always comes from the bonus rules (see set_referral_bonus_amount)
+    NEW.bonus_amount := 0;
+    RETURN NEW;
+  END IF;
+
+  IF OLD.stage <> 'Referred Connection' THEN
+    RAISE EXCEPTION 'Referrals can no longer be edited once the client has signed'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id
+    OR NEW.profile_id IS DISTINCT FROM OLD.profile_id
+    OR NEW.stage IS DISTINCT FROM OLD.stage
+    OR NEW.bonus_status IS DISTINCT FROM OLD.bonus_status
+    OR NEW.bonus_amount IS DISTINCT FROM OLD.bonus_amount
+    OR NEW.payout_batch_id IS DISTINCT FROM OLD.payout_batch_id
+    OR NEW.duplicate_of IS DISTINCT FROM OLD.duplicate_of
+    OR NEW.notes IS DISTINCT FROM OLD.notes
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+    RAISE EXCEPTION 'Referrers can only update the client name, email, phone and address'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Confirm or dismiss a probable duplicate. Confirming attributes the referral to the original;
+-- dismissing restores its own attribution. Bonuses that are paid or batched are left alone.
+CREATE OR REPLACE FUNCTION public.resolve_referral_duplicate(_duplicate_id UUID, _status TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  _duplicate public.referral_duplicates%ROWTYPE;
+  _duplicate_of UUID;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can review duplicate referrals';
+  END IF;
+
+  IF _status NOT IN ('confirmed', 'dismissed') THEN
+    RAISE EXCEPTION 'Unknown review status: %', _status;
+  END IF;
+
+  UPDATE public.referral_duplicates
+  SET status = _status,
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  WHERE id = _duplicate_id
+  RETURNING * INTO _duplicate;
+
+  IF _duplicate.id IS NULL THEN
+    RAISE EXCEPTION 'Duplicate not found';
+  END IF;
+
+  _duplicate_of := CASE WHEN _status = 'confirmed' THEN _duplicate.original_referral_id END;
+
+  UPDATE public.referrals
+  SET duplicate_of = _duplicate_of
+  WHERE id = _duplicate.referral_id;
+
+  UPDATE public.referrals
+  SET bonus_amount = public.calculate_bonus_amount(id, user_id, stage)
+  WHERE id = _duplicate.referral_id
+    AND bonus_status = 'Pending'
+    AND payout_batch_id IS NULL;
+END;
+$$;
+
+-- Compute match keys for existing referrals without touching updated_at
+ALTER TABLE public.referrals DISABLE TRIGGER update_referrals_updated_at;
+
+UPDATE public.referrals
+SET normalized_email = public.normalize_email(client_email),
+    normalized_phone = public.normalize_phone(client_phone),
+    normalized_address = public.normalize_address(client_address);
+
+ALTER TABLE public.referrals ENABLE TRIGGER update_referrals_updated_at;
+
+-- Flag existing duplicates for review; their bonuses are left as they are
+INSERT INTO public.referral_duplicates (referral_id, original_referral_id, matched_on)
+SELECT r.id, f.original_referral_id, f.matched_on
+FROM public.referrals r
+CROSS JOIN LATERAL public.find_original_referral(r.id, r.created_at, r.normalized_email, r.normalized_phone, r.normalized_address) f;
@@ -0,0 +1,22 @@
+-- Indexes for the paginated admin referrals table
+CREATE INDEX IF NOT EXISTS idx_referrals_created_at ON public.referrals(created_at DESC, id);
+CREATE INDEX IF NOT EXISTS idx_referrals_user_id ON public.referrals(user_id);
+CREATE INDEX IF NOT EXISTS idx_referrals_stage ON public.referrals(stage);
+CREATE INDEX IF NOT EXISTS idx_referrals_bonus_status ON public.referrals(bonus_status);
+
+-- Referral counts and bonus totals per referrer, so the admin header and users list
+-- do not need to load every referral. Runs with the caller's RLS.
+CREATE OR REPLACE FUNCTION public.get_referral_totals()
+RETURNS TABLE(user_id UUID, referral_count BIGINT, pending_total NUMERIC, paid_total NUMERIC)
+LANGUAGE SQL
+STABLE
+SET search_path = ''
+AS $$
+  SELECT
+    r.user_id,
+    COUNT(*),
+    COALESCE(SUM(r.bonus_amount) FILTER (WHERE r.bonus_status = 'Pending'), 0),
+    COALESCE(SUM(r.bonus_amount) FILTER (WHERE r.bonus_status = 'Paid'), 0)
+  FROM public.referrals r
+  GROUP BY r.user_id
+$$;
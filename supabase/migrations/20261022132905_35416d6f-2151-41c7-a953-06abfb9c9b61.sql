@@ -0,0 +1,46 @@
+-- When a referral entered its current stage, for aging on the pipeline board
+ALTER TABLE public.referrals
+  ADD COLUMN stage_entered_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+-- Backfill from the latest history event that moved the referral into its current stage
+ALTER TABLE public.referrals DISABLE TRIGGER update_referrals_updated_at;
+
+UPDATE public.referrals r
+SET stage_entered_at = COALESCE(
+  (
+    SELECT MAX(e.created_at)
+    FROM public.referral_events e
+    WHERE e.referral_id = r.id
+      AND e.new_stage = r.stage
+      AND e.old_stage IS DISTINCT FROM e.new_stage
+  ),
+  r.created_at
+);
+
+ALTER TABLE public.referrals ENABLE TRIGGER update_referrals_updated_at;
+
+-- Maintained by the database only: reset on every stage change, otherwise left as it was
+CREATE OR REPLACE FUNCTION public.set_referral_stage_entered_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.stage_entered_at := now();
+  ELSIF NEW.stage IS DISTINCT FROM OLD.stage THEN
+    NEW.stage_entered_at := now();
+  ELSE
+    NEW.stage_entered_at := OLD.stage_entered_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_referral_stage_entered_at
+  BEFORE INSERT OR UPDATE ON public.referrals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_referral_stage_entered_at();
+
+CREATE INDEX idx_referrals_stage_entered_at ON public.referrals(stage, stage_entered_at);
@@ -0,0 +1,209 @@
+-- Pipeline stages managed by admins, replacing the referral_stage enum.
+-- key is what referrals store and never changes; label is what users see.
+CREATE TABLE public.referral_stages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  key TEXT NOT NULL UNIQUE,
+  label TEXT NOT NULL,
+  position INTEGER NOT NULL,
+  color TEXT NOT NULL DEFAULT 'gray' CHECK (color IN ('gray', 'pink', 'purple', 'blue', 'red', 'orange', 'yellow', 'green')),
+  is_terminal BOOLEAN NOT NULL DEFAULT false,
+  is_bonus_eligible BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.referral_stages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view referral stages"
+  ON public.referral_stages
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage referral stages"
+  ON public.referral_stages
+  FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_referral_stages_updated_at
+  BEFORE UPDATE ON public.referral_stages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Seed the stages the enum had, in pipeline order
+INSERT INTO public.referral_stages (key, label, position, color, is_terminal, is_bonus_eligible) VALUES
+  ('Referred Connection', 'Referred Connection', 1, 'pink', false, false),
+  ('Client Signed', 'Client Signed', 2, 'purple', false, false),
+  ('Site Inspection Done', 'Site Inspection Done', 3, 'yellow', false, false),
+  ('Documents Verified', 'Documents Verified', 4, 'orange', false, false),
+  ('Solar Installed', 'Solar Installed', 5, 'green', true, true);
+
+-- The first stage of the pipeline, where new referrals start and referrers can still edit them
+CREATE OR REPLACE FUNCTION public.initial_referral_stage()
+RETURNS TEXT
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER SET search_path = ''
+AS $$
+  SELECT key
+  FROM public.referral_stages
+  ORDER BY position, created_at
+  LIMIT 1
+$$;
+
+-- Policies and functions that reference the enum have to go before the columns can change type
+DROP POLICY "Users can update their own early referrals" ON public.referrals;
+DROP POLICY "Users can delete their own early referrals" ON public.referrals;
+DROP FUNCTION public.calculate_bonus_amount(UUID, UUID, referral_stage);
+DROP FUNCTION public.referral_stage_rank(referral_stage);
+
+ALTER TABLE public.referrals
+  ALTER COLUMN stage DROP DEFAULT,
+  ALTER COLUMN stage TYPE TEXT USING stage::TEXT,
+  ALTER COLUMN stage SET DEFAULT public.initial_referral_stage(),
+  ADD CONSTRAINT referrals_stage_fkey FOREIGN KEY (stage) REFERENCES public.referral_stages(key);
+
+ALTER TABLE public.bonus_rules
+  ALTER COLUMN stage TYPE TEXT USING stage::TEXT,
+  ADD CONSTRAINT bonus_rules_stage_fkey FOREIGN KEY (stage) REFERENCES public.referral_stages(key);
+
+-- History keeps the stage key as it was, even if the stage is later removed
+ALTER TABLE public.referral_events
+  ALTER COLUMN old_stage TYPE TEXT USING old_stage::TEXT,
+  ALTER COLUMN new_stage TYPE TEXT USING new_stage::TEXT;
+
+DROP TYPE public.referral_stage;
+
+CREATE POLICY "Users can update their own early referrals"
+  ON public.referrals
+  FOR UPDATE
+  USING (auth.uid() = user_id AND stage = public.initial_referral_stage())
+  WITH CHECK (auth.uid() = user_id AND stage = public.initial_referral_stage());
+
+CREATE POLICY "Users can delete their own early referrals"
+  ON public.referrals
+  FOR DELETE
+  USING (auth.uid() = user_id AND stage = public.initial_referral_stage() AND payout_batch_id IS NULL);
+
+-- Position of a stage in the pipeline
+CREATE OR REPLACE FUNCTION public.referral_stage_rank(_stage TEXT)
+RETURNS INTEGER
+LANGUAGE SQL
+STABLE
+SET search_path = ''
+AS $$
+  SELECT position FROM public.referral_stages WHERE key = _stage
+$$;
+
+-- Calculate the bonus a referral has earned at the given stage from the active rules.
+-- Flat and tiered amounts apply once the referral reaches a bonus-eligible stage.
+CREATE OR REPLACE FUNCTION public.calculate_bonus_amount(_referral_id UUID, _user_id UUID, _stage TEXT)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  _milestone_total NUMERIC := 0;
+  _completion_amount NUMERIC := 0;
+  _install_count INTEGER;
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.referrals WHERE id = _referral_id AND duplicate_of IS NOT NULL) THEN
+    RETURN 0;
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO _milestone_total
+  FROM public.bonus_rules
+  WHERE is_active
+    AND rule_type = 'milestone'
+    AND public.referral_stage_rank(stage) <= public.referral_stage_rank(_stage);
+
+  IF EXISTS (SELECT 1 FROM public.referral_stages WHERE key = _stage AND is_bonus_eligible) THEN
+    -- Count this referral as one of the referrer's completed referrals
+    SELECT COUNT(*) + 1 INTO _install_count
+    FROM public.referrals r
+    JOIN public.referral_stages s ON s.key = r.stage
+    WHERE r.user_id = _user_id
+      AND s.is_bonus_eligible
+      AND r.duplicate_of IS NULL
+      AND r.id IS DISTINCT FROM _referral_id;
+
+    SELECT amount INTO _completion_amount
+    FROM public.bonus_rules
+    WHERE is_active
+      AND rule_type = 'tiered'
+      AND min_installs <= _install_count
+    ORDER BY min_installs DESC
+    LIMIT 1;
+
+    IF _completion_amount IS NULL THEN
+      SELECT amount INTO _completion_amount
+      FROM public.bonus_rules
+      WHERE is_active
+        AND rule_type = 'flat'
+      ORDER BY created_at DESC
+      LIMIT 1;
+    END IF;
+  END IF;
+
+  RETURN _milestone_total + COALESCE(_completion_amount, 0);
+END;
+$$;
+
+-- Same rules as before, with the first stage read from referral_stages
+CREATE OR REPLACE FUNCTION public.enforce_referrer_referral_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  -- Admins and server-side jobs (no auth context) are not restricted
+  IF auth.uid() IS NULL OR public.has_role(auth.uid(), 'admin') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.stage IS DISTINCT FROM public.initial_referral_stage()
+      OR NEW.bonus_status <> 'Pending'
+      OR NEW.payout_batch_id IS NOT NULL
+      OR NEW.notes IS NOT NULL THEN
+      RAISE EXCEPTION 'Referrers can only submit new referrals with the client''s details'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF NEW.profile_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM public.profiles WHERE id = NEW.profile_id AND user_id = auth.uid()
+    ) THEN
+      RAISE EXCEPTION 'Referrals can only be linked to your own profile'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    -- The amount always comes from the bonus rules (see set_referral_bonus_amount)
+    NEW.bonus_amount := 0;
+    RETURN NEW;
+  END IF;
+
+  IF OLD.stage IS DISTINCT FROM public.initial_referral_stage() THEN
+    RAISE EXCEPTION 'Referrals can no longer be edited once the client has signed'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id
+    OR NEW.profile_id IS DISTINCT FROM OLD.profile_id
+    OR NEW.stage IS DISTINCT FROM OLD.stage
+    OR NEW.bonus_status IS DISTINCT FROM OLD.bonus_status
+    OR NEW.bonus_amount IS DISTINCT FROM OLD.bonus_amount
+    OR NEW.payout_batch_id IS DISTINCT FROM OLD.payout_batch_id
+    OR NEW.duplicate_of IS DISTINCT FROM OLD.duplicate_of
+    OR NEW.notes IS DISTINCT FROM OLD.notes
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+    RAISE EXCEPTION 'Referrers can only update the client name, email, phone and address'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+COMMENT ON COLUMN public.referrals.stage IS 'Key of the referral''s stage in public.referral_stages';
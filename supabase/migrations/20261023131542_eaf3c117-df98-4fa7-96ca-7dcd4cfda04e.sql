@@ -0,0 +1,315 @@
+-- Referrals that drop out of the funnel are closed with an outcome and a reason.
+-- Their stage is kept as the last stage they reached.
+ALTER TABLE public.referrals
+  ADD COLUMN outcome TEXT NOT NULL DEFAULT 'open' CHECK (outcome IN ('open', 'lost', 'cancelled')),
+  ADD COLUMN close_reason TEXT CHECK (close_reason IN (
+    'homeowner_declined',
+    'unresponsive',
+    'chose_competitor',
+    'failed_site_inspection',
+    'not_eligible',
+    'other'
+  )),
+  ADD COLUMN closed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN closed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD CONSTRAINT referrals_close_reason_required CHECK ((outcome = 'open') = (close_reason IS NULL));
+
+CREATE INDEX idx_referrals_outcome ON public.referrals(outcome);
+
+-- History records closing and reopening as their own events
+ALTER TABLE public.referral_events
+  DROP CONSTRAINT referral_events_event_type_check,
+  ADD CONSTRAINT referral_events_event_type_check CHECK (event_type IN ('created', 'updated', 'closed', 'reopened')),
+  ADD COLUMN outcome TEXT,
+  ADD COLUMN close_reason TEXT;
+
+CREATE OR REPLACE FUNCTION public.record_referral_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  _actor_name TEXT;
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.stage IS NOT DISTINCT FROM OLD.stage
+    AND NEW.bonus_status IS NOT DISTINCT FROM OLD.bonus_status
+    AND NEW.notes IS NOT DISTINCT FROM OLD.notes
+    AND NEW.outcome IS NOT DISTINCT FROM OLD.outcome THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT name INTO _actor_name
+  FROM public.profiles
+  WHERE user_id = auth.uid();
+
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.referral_events (referral_id, event_type, new_stage, new_bonus_status, actor_id, actor_name)
+    VALUES (NEW.id, 'created', NEW.stage, NEW.bonus_status, auth.uid(), COALESCE(_actor_name, 'System'));
+  ELSIF NEW.outcome IS DISTINCT FROM OLD.outcome THEN
+    INSERT INTO public.referral_events (
+      referral_id, event_type, old_stage, new_stage, outcome, close_reason, actor_id, actor_name, note
+    )
+    VALUES (
+      NEW.id,
+      CASE WHEN NEW.outcome = 'open' THEN 'reopened' ELSE 'closed' END,
+      OLD.stage,
+      NEW.stage,
+      NEW.outcome,
+      NEW.close_reason,
+      auth.uid(),
+      COALESCE(_actor_name, 'System'),
+      CASE WHEN NEW.notes IS DISTINCT FROM OLD.notes THEN NEW.notes END
+    );
+  ELSE
+    INSERT INTO public.referral_events (
+      referral_id, event_type, old_stage, new_stage, old_bonus_status, new_bonus_status, actor_id, actor_name, note
+    )
+    VALUES (
+      NEW.id,
+      'updated',
+      OLD.stage,
+      NEW.stage,
+      OLD.bonus_status,
+      NEW.bonus_status,
+      auth.uid(),
+      COALESCE(_actor_name, 'System'),
+      CASE WHEN NEW.notes IS DISTINCT FROM OLD.notes THEN NEW.notes END
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Closed referrals earn nothing and do not count towards the referrer's completed referrals
+CREATE OR REPLACE FUNCTION public.calculate_bonus_amount(_referral_id UUID, _user_id UUID, _stage TEXT)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  _milestone_total NUMERIC := 0;
+  _completion_amount NUMERIC := 0;
+  _install_count INTEGER;
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.referrals
+    WHERE id = _referral_id AND (duplicate_of IS NOT NULL OR outcome <> 'open')
+  ) THEN
+    RETURN 0;
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO _milestone_total
+  FROM public.bonus_rules
+  WHERE is_active
+    AND rule_type = 'milestone'
+    AND public.referral_stage_rank(stage) <= public.referral_stage_rank(_stage);
+
+  IF EXISTS (SELECT 1 FROM public.referral_stages WHERE key = _stage AND is_bonus_eligible) THEN
+    -- Count this referral as one of the referrer's completed referrals
+    SELECT COUNT(*) + 1 INTO _install_count
+    FROM public.referrals r
+    JOIN public.referral_stages s ON s.key = r.stage
+    WHERE r.user_id = _user_id
+      AND s.is_bonus_eligible
+      AND r.duplicate_of IS NULL
+      AND r.outcome = 'open'
+      AND r.id IS DISTINCT FROM _referral_id;
+
+    SELECT amount INTO _completion_amount
+    FROM public.bonus_rules
+    WHERE is_active
+      AND rule_type = 'tiered'
+      AND min_installs <= _install_count
+    ORDER BY min_installs DESC
+    LIMIT 1;
+
+    IF _completion_amount IS NULL THEN
+      SELECT amount INTO _completion_amount
+      FROM public.bonus_rules
+      WHERE is_active
+        AND rule_type = 'flat'
+      ORDER BY created_at DESC
+      LIMIT 1;
+    END IF;
+  END IF;
+
+  RETURN _milestone_total + COALESCE(_completion_amount, 0);
+END;
+$$;
+
+-- Close a referral as lost or cancelled. Its pending bonus drops to zero; paid bonuses are left alone.
+CREATE OR REPLACE FUNCTION public.close_referral(_referral_id UUID, _outcome TEXT, _reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  _referral public.referrals%ROWTYPE;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can close referrals';
+  END IF;
+
+  IF _outcome NOT IN ('lost', 'cancelled') THEN
+    RAISE EXCEPTION 'Unknown outcome: %', _outcome;
+  END IF;
+
+  IF _reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to close a referral';
+  END IF;
+
+  SELECT * INTO _referral
+  FROM public.referrals
+  WHERE id = _referral_id
+  FOR UPDATE;
+
+  IF _referral.id IS NULL THEN
+    RAISE EXCEPTION 'Referral not found';
+  END IF;
+
+  IF _referral.outcome <> 'open' THEN
+    RAISE EXCEPTION 'Referral is already closed';
+  END IF;
+
+  IF _referral.payout_batch_id IS NOT NULL AND _referral.bonus_status = 'Pending' THEN
+    RAISE EXCEPTION 'Cancel the payout batch containing this referral before closing it';
+  END IF;
+
+  UPDATE public.referrals
+  SET outcome = _outcome,
+      close_reason = _reason,
+      closed_at = now(),
+      closed_by = auth.uid(),
+      bonus_amount = CASE WHEN bonus_status = 'Pending' THEN 0 ELSE bonus_amount END
+  WHERE id = _referral_id;
+END;
+$$;
+
+-- Put a closed referral back in the pipeline at the stage it reached and recalculate its bonus
+CREATE OR REPLACE FUNCTION public.reopen_referral(_referral_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can reopen referrals';
+  END IF;
+
+  UPDATE public.referrals
+  SET outcome = 'open',
+      close_reason = NULL,
+      closed_at = NULL,
+      closed_by = NULL
+  WHERE id = _referral_id
+    AND outcome <> 'open';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Referral not found or not closed';
+  END IF;
+
+  UPDATE public.referrals
+  SET bonus_amount = public.calculate_bonus_amount(id, user_id, stage)
+  WHERE id = _referral_id
+    AND bonus_status = 'Pending'
+    AND payout_batch_id IS NULL;
+END;
+$$;
+
+-- Closed referrals no longer count towards pending bonuses
+CREATE OR REPLACE FUNCTION public.get_referral_totals()
+RETURNS TABLE(user_id UUID, referral_count BIGINT, pending_total NUMERIC, paid_total NUMERIC)
+LANGUAGE SQL
+STABLE
+SET search_path = ''
+AS $$
+  SELECT
+    r.user_id,
+    COUNT(*),
+    COALESCE(SUM(r.bonus_amount) FILTER (WHERE r.bonus_status = 'Pending' AND r.outcome = 'open'), 0),
+    COALESCE(SUM(r.bonus_amount) FILTER (WHERE r.bonus_status = 'Paid'), 0)
+  FROM public.referrals r
+  GROUP BY r.user_id
+$$;
+
+-- Referrers cannot close, reopen, edit or withdraw closed referrals
+CREATE OR REPLACE FUNCTION public.enforce_referrer_referral_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  -- Admins and server-side jobs (no auth context) are not restricted
+  IF auth.uid() IS NULL OR public.has_role(auth.uid(), 'admin') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.stage IS DISTINCT FROM public.initial_referral_stage()
+      OR NEW.bonus_status <> 'Pending'
+      OR NEW.payout_batch_id IS NOT NULL
+      OR NEW.notes IS NOT NULL
+      OR NEW.outcome <> 'open'
+      OR NEW.closed_at IS NOT NULL
+      OR NEW.closed_by IS NOT NULL THEN
+      RAISE EXCEPTION 'Referrers can only submit new referrals with the client''s details'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF NEW.profile_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM public.profiles WHERE id = NEW.profile_id AND user_id = auth.uid()
+    ) THEN
+      RAISE EXCEPTION 'Referrals can only be linked to your own profile'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    -- The amount always comes from the bonus rules (see set_referral_bonus_amount)
+    NEW.bonus_amount := 0;
+    RETURN NEW;
+  END IF;
+
+  IF OLD.outcome <> 'open' THEN
+    RAISE EXCEPTION 'Closed referrals can no longer be edited'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF OLD.stage IS DISTINCT FROM public.initial_referral_stage() THEN
+    RAISE EXCEPTION 'Referrals can no longer be edited once the client has signed'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id
+    OR NEW.profile_id IS DISTINCT FROM OLD.profile_id
+    OR NEW.stage IS DISTINCT FROM OLD.stage
+    OR NEW.bonus_status IS DISTINCT FROM OLD.bonus_status
+    OR NEW.bonus_amount IS DISTINCT FROM OLD.bonus_amount
+    OR NEW.payout_batch_id IS DISTINCT FROM OLD.payout_batch_id
+    OR NEW.duplicate_of IS DISTINCT FROM OLD.duplicate_of
+    OR NEW.outcome IS DISTINCT FROM OLD.outcome
+    OR NEW.close_reason IS DISTINCT FROM OLD.close_reason
+    OR NEW.closed_at IS DISTINCT FROM OLD.closed_at
+    OR NEW.closed_by IS DISTINCT FROM OLD.closed_by
+    OR NEW.notes IS DISTINCT FROM OLD.notes
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+    RAISE EXCEPTION 'Referrers can only update the client name, email, phone and address'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP POLICY "Users can delete their own early referrals" ON public.referrals;
+
+CREATE POLICY "Users can delete their own early referrals"
+  ON public.referrals
+  FOR DELETE
+  USING (
+    auth.uid() = user_id
+    AND stage = public.initial_referral_stage()
+    AND outcome = 'open'
+    AND payout_batch_id IS NULL
+  );
@@ -0,0 +1,154 @@
+-- When each referral first entered each stage, from its history.
+-- security_invoker keeps the referral_events policies in force for whoever queries it.
+CREATE VIEW public.referral_stage_entries
+WITH (security_invoker = true)
+AS
+  SELECT referral_id, new_stage AS stage, MIN(created_at) AS entered_at
+  FROM public.referral_events
+  WHERE new_stage IS NOT NULL
+    AND (event_type = 'created' OR (event_type = 'updated' AND old_stage IS DISTINCT FROM new_stage))
+  GROUP BY referral_id, new_stage;
+
+-- Program analytics for the admin dashboard. All of them cover referrals created in
+-- [_from, _to) (either bound may be NULL), leave out confirmed duplicates and run with
+-- the caller's RLS.
+
+-- How many referrals reached each stage, conversion from the first and the previous
+-- stage, and the median days it took to get there from the previous stage
+CREATE OR REPLACE FUNCTION public.get_stage_funnel(_from TIMESTAMP WITH TIME ZONE DEFAULT NULL, _to TIMESTAMP WITH TIME ZONE DEFAULT NULL)
+RETURNS TABLE(
+  stage TEXT,
+  label TEXT,
+  stage_position INTEGER,
+  reached BIGINT,
+  conversion_from_start NUMERIC,
+  conversion_from_previous NUMERIC,
+  median_days_from_previous NUMERIC
+)
+LANGUAGE SQL
+STABLE
+SET search_path = ''
+AS $$
+  WITH scoped AS (
+    SELECT r.id, r.stage
+    FROM public.referrals r
+    WHERE r.duplicate_of IS NULL
+      AND (_from IS NULL OR r.created_at >= _from)
+      AND (_to IS NULL OR r.created_at < _to)
+  ),
+  -- A referral has reached every stage up to the furthest one it has been in,
+  -- even if it skipped some or was later moved back or closed
+  furthest AS (
+    SELECT sc.id, GREATEST(cur.position, COALESCE(MAX(s.position), 0)) AS position
+    FROM scoped sc
+    JOIN public.referral_stages cur ON cur.key = sc.stage
+    LEFT JOIN public.referral_stage_entries e ON e.referral_id = sc.id
+    LEFT JOIN public.referral_stages s ON s.key = e.stage
+    GROUP BY sc.id, cur.position
+  ),
+  ordered AS (
+    SELECT key, label, position, LAG(key) OVER (ORDER BY position) AS previous_key
+    FROM public.referral_stages
+  ),
+  reached AS (
+    SELECT o.key, o.label, o.position, COUNT(f.id) AS reached
+    FROM ordered o
+    LEFT JOIN furthest f ON f.position >= o.position
+    GROUP BY o.key, o.label, o.position
+  ),
+  durations AS (
+    SELECT o.key,
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY EXTRACT(EPOCH FROM e.entered_at - p.entered_at) / 86400) AS median_days
+    FROM ordered o
+    JOIN public.referral_stage_entries e ON e.stage = o.key
+    JOIN public.referral_stage_entries p ON p.referral_id = e.referral_id AND p.stage = o.previous_key
+    JOIN scoped sc ON sc.id = e.referral_id
+    WHERE e.entered_at >= p.entered_at
+    GROUP BY o.key
+  )
+  SELECT
+    r.key,
+    r.label,
+    r.position,
+    r.reached,
+    ROUND(r.reached * 100.0 / NULLIF(FIRST_VALUE(r.reached) OVER (ORDER BY r.position), 0), 1),
+    ROUND(r.reached * 100.0 / NULLIF(LAG(r.reached) OVER (ORDER BY r.position), 0), 1),
+    ROUND(d.median_days::NUMERIC, 1)
+  FROM reached r
+  LEFT JOIN durations d ON d.key = r.key
+  ORDER BY r.position
+$$;
+
+-- Referrals created per week (weeks start on Monday), including weeks with none
+CREATE OR REPLACE FUNCTION public.get_weekly_referral_counts(_from TIMESTAMP WITH TIME ZONE DEFAULT NULL, _to TIMESTAMP WITH TIME ZONE DEFAULT NULL)
+RETURNS TABLE(week_start DATE, referral_count BIGINT)
+LANGUAGE SQL
+STABLE
+SET search_path = ''
+AS $$
+  WITH scoped AS (
+    SELECT r.created_at
+    FROM public.referrals r
+    WHERE r.duplicate_of IS NULL
+      AND (_from IS NULL OR r.created_at >= _from)
+      AND (_to IS NULL OR r.created_at < _to)
+  ),
+  weeks AS (
+    SELECT generate_series(
+      date_trunc('week', COALESCE(_from, (SELECT MIN(created_at) FROM scoped))),
+      date_trunc('week', COALESCE(_to - INTERVAL '1 microsecond', now())),
+      INTERVAL '1 week'
+    ) AS week
+  )
+  SELECT w.week::DATE, COUNT(sc.created_at)
+  FROM weeks w
+  LEFT JOIN scoped sc ON date_trunc('week', sc.created_at) = w.week
+  GROUP BY w.week
+  ORDER BY w.week
+$$;
+
+-- Referrers with the most completed (bonus-eligible, still open) referrals
+CREATE OR REPLACE FUNCTION public.get_top_referrers(
+  _from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _to TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _limit INTEGER DEFAULT 10
+)
+RETURNS TABLE(user_id UUID, name TEXT, referral_count BIGINT, completed_count BIGINT, bonus_total NUMERIC)
+LANGUAGE SQL
+STABLE
+SET search_path = ''
+AS $$
+  SELECT
+    r.user_id,
+    p.name,
+    COUNT(*),
+    COUNT(*) FILTER (WHERE s.is_bonus_eligible AND r.outcome = 'open'),
+    COALESCE(SUM(r.bonus_amount) FILTER (WHERE r.bonus_status = 'Paid' OR r.outcome = 'open'), 0)
+  FROM public.referrals r
+  JOIN public.referral_stages s ON s.key = r.stage
+  LEFT JOIN public.profiles p ON p.user_id = r.user_id
+  WHERE r.duplicate_of IS NULL
+    AND (_from IS NULL OR r.created_at >= _from)
+    AND (_to IS NULL OR r.created_at < _to)
+  GROUP BY r.user_id, p.name
+  ORDER BY 4 DESC, 3 DESC, p.name
+  LIMIT _limit
+$$;
+
+-- Bonus dollars still owed on open referrals versus already paid out
+CREATE OR REPLACE FUNCTION public.get_bonus_liability(_from TIMESTAMP WITH TIME ZONE DEFAULT NULL, _to TIMESTAMP WITH TIME ZONE DEFAULT NULL)
+RETURNS TABLE(pending_total NUMERIC, pending_count BIGINT, paid_total NUMERIC, paid_count BIGINT)
+LANGUAGE SQL
+STABLE
+SET search_path = ''
+AS $$
+  SELECT
+    COALESCE(SUM(r.bonus_amount) FILTER (WHERE r.bonus_status = 'Pending' AND r.outcome = 'open'), 0),
+    COUNT(*) FILTER (WHERE r.bonus_status = 'Pending' AND r.outcome = 'open' AND r.bonus_amount > 0),
+    COALESCE(SUM(r.bonus_amount) FILTER (WHERE r.bonus_status = 'Paid'), 0),
+    COUNT(*) FILTER (WHERE r.bonus_status = 'Paid')
+  FROM public.referrals r
+  WHERE r.duplicate_of IS NULL
+    AND (_from IS NULL OR r.created_at >= _from)
+    AND (_to IS NULL OR r.created_at < _to)
+$$;
@@ -0,0 +1,57 @@
+-- Bonuses paid to the current user per month, dated by when the bonus was marked paid
+-- (or last updated, for bonuses paid before history was tracked)
+CREATE OR REPLACE FUNCTION public.get_my_monthly_earnings()
+RETURNS TABLE(month DATE, paid_total NUMERIC, paid_count BIGINT)
+LANGUAGE SQL
+STABLE
+SET search_path = ''
+AS $$
+  WITH paid AS (
+    SELECT r.id, r.bonus_amount, COALESCE(MAX(e.created_at), r.updated_at) AS paid_at
+    FROM public.referrals r
+    LEFT JOIN public.referral_events e
+      ON e.referral_id = r.id
+      AND e.new_bonus_status = 'Paid'
+      AND e.old_bonus_status IS DISTINCT FROM 'Paid'
+    WHERE r.user_id = auth.uid()
+      AND r.bonus_status = 'Paid'
+    GROUP BY r.id, r.bonus_amount, r.updated_at
+  )
+  SELECT date_trunc('month', paid_at)::DATE, SUM(bonus_amount), COUNT(*)
+  FROM paid
+  GROUP BY 1
+  ORDER BY 1
+$$;
+
+-- Estimated bonus for the current user's open referrals in the last stage before the first
+-- bonus-eligible one, as if each completed today under the active rules
+CREATE OR REPLACE FUNCTION public.get_my_projected_bonuses()
+RETURNS TABLE(referral_id UUID, stage TEXT, projected_amount NUMERIC)
+LANGUAGE SQL
+STABLE
+SET search_path = ''
+AS $$
+  WITH completion AS (
+    SELECT key, position
+    FROM public.referral_stages
+    WHERE is_bonus_eligible
+    ORDER BY position
+    LIMIT 1
+  ),
+  threshold AS (
+    SELECT MAX(s.position) AS position
+    FROM public.referral_stages s, completion c
+    WHERE s.position < c.position
+  )
+  SELECT r.id, r.stage, public.calculate_bonus_amount(r.id, r.user_id, c.key)
+  FROM public.referrals r
+  JOIN public.referral_stages s ON s.key = r.stage
+  CROSS JOIN completion c
+  CROSS JOIN threshold t
+  WHERE r.user_id = auth.uid()
+    AND r.outcome = 'open'
+    AND r.duplicate_of IS NULL
+    AND r.bonus_status = 'Pending'
+    AND NOT s.is_bonus_eligible
+    AND s.position >= t.position
+$$;
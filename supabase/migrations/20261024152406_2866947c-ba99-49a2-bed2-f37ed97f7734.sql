@@ -0,0 +1,178 @@
+-- Random code for a referrer's shareable link. Leaves out characters that are easy to misread.
+CREATE OR REPLACE FUNCTION public.generate_referral_code()
+RETURNS TEXT
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  _alphabet CONSTANT TEXT := 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  _code TEXT;
+BEGIN
+  LOOP
+    SELECT string_agg(substr(_alphabet, 1 + get_byte(b, 0) % length(_alphabet), 1), '')
+    INTO _code
+    FROM generate_series(1, 8),
+      LATERAL (SELECT extensions.gen_random_bytes(1) AS b) r;
+
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM public.profiles WHERE referral_code = _code);
+  END LOOP;
+
+  RETURN _code;
+END;
+$$;
+
+ALTER TABLE public.profiles ADD COLUMN referral_code TEXT;
+
+UPDATE public.profiles
+SET referral_code = public.generate_referral_code()
+WHERE referral_code IS NULL;
+
+ALTER TABLE public.profiles
+  ALTER COLUMN referral_code SET DEFAULT public.generate_referral_code(),
+  ALTER COLUMN referral_code SET NOT NULL,
+  ADD CONSTRAINT profiles_referral_code_key UNIQUE (referral_code);
+
+-- Codes are handed out by the system; referrers cannot pick or change their own
+CREATE OR REPLACE FUNCTION public.protect_profile_referral_code()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.referral_code IS DISTINCT FROM OLD.referral_code
+    AND auth.uid() IS NOT NULL
+    AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Referral codes cannot be changed'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_profile_referral_code
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_profile_referral_code();
+
+-- Where a referral came from: typed in by the referrer or an admin, or submitted through a referral link
+ALTER TABLE public.referrals
+  ADD COLUMN source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'link'));
+
+-- Every submission through a referral link, kept for rate limiting
+CREATE TABLE public.referral_link_submissions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  profile_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  referral_id UUID REFERENCES public.referrals(id) ON DELETE SET NULL,
+  ip_address TEXT,
+  rejected_reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_referral_link_submissions_profile ON public.referral_link_submissions(profile_id, created_at);
+CREATE INDEX idx_referral_link_submissions_ip ON public.referral_link_submissions(ip_address, created_at);
+
+ALTER TABLE public.referral_link_submissions ENABLE ROW LEVEL SECURITY;
+
+-- Only written by submit_link_referral
+CREATE POLICY "Admins can view referral link submissions"
+  ON public.referral_link_submissions
+  FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- First name of the referrer behind a code, for the public referral page
+CREATE OR REPLACE FUNCTION public.get_referrer_by_code(_code TEXT)
+RETURNS TABLE(first_name TEXT)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER SET search_path = ''
+AS $$
+  SELECT split_part(trim(name), ' ', 1)
+  FROM public.profiles
+  WHERE referral_code = upper(trim(_code))
+$$;
+
+-- Create a referral from the public referral page. _website is a honeypot field that people
+-- never see; anything in it means a bot filled in the form, so the submission is dropped
+-- while still looking successful.
+CREATE OR REPLACE FUNCTION public.submit_link_referral(
+  _code TEXT,
+  _client_name TEXT,
+  _client_email TEXT DEFAULT NULL,
+  _client_phone TEXT DEFAULT NULL,
+  _client_address TEXT DEFAULT NULL,
+  _website TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  _profile public.profiles%ROWTYPE;
+  _ip TEXT;
+  _referral_id UUID;
+BEGIN
+  SELECT * INTO _profile
+  FROM public.profiles
+  WHERE referral_code = upper(trim(_code));
+
+  IF _profile.id IS NULL THEN
+    RAISE EXCEPTION 'This referral link is not valid';
+  END IF;
+
+  -- First address in X-Forwarded-For, as passed through by the API gateway
+  _ip := trim(split_part(
+    COALESCE(current_setting('request.headers', true)::JSONB ->> 'x-forwarded-for', ''), ',', 1
+  ));
+
+  IF NULLIF(trim(_website), '') IS NOT NULL THEN
+    INSERT INTO public.referral_link_submissions (profile_id, ip_address, rejected_reason)
+    VALUES (_profile.id, NULLIF(_ip, ''), 'honeypot');
+    RETURN;
+  END IF;
+
+  IF (SELECT COUNT(*) FROM public.referral_link_submissions
+      WHERE ip_address = NULLIF(_ip, '') AND created_at > now() - INTERVAL '1 hour') >= 5
+    OR (SELECT COUNT(*) FROM public.referral_link_submissions
+      WHERE profile_id = _profile.id AND created_at > now() - INTERVAL '1 hour') >= 20 THEN
+    RAISE EXCEPTION 'Too many submissions. Please try again later.';
+  END IF;
+
+  IF length(trim(COALESCE(_client_name, ''))) NOT BETWEEN 2 AND 200 THEN
+    RAISE EXCEPTION 'Please enter your name';
+  END IF;
+
+  IF NULLIF(trim(_client_email), '') IS NULL AND NULLIF(trim(_client_phone), '') IS NULL THEN
+    RAISE EXCEPTION 'Please enter an email address or phone number';
+  END IF;
+
+  IF NULLIF(trim(_client_email), '') IS NOT NULL AND trim(_client_email) !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RAISE EXCEPTION 'Please enter a valid email address';
+  END IF;
+
+  IF length(COALESCE(_client_email, '')) > 320
+    OR length(COALESCE(_client_phone, '')) > 50
+    OR length(COALESCE(_client_address, '')) > 500 THEN
+    RAISE EXCEPTION 'Some details are too long';
+  END IF;
+
+  INSERT INTO public.referrals (user_id, profile_id, client_name, client_email, client_phone, client_address, source)
+  VALUES (
+    _profile.user_id,
+    _profile.id,
+    trim(_client_name),
+    NULLIF(trim(_client_email), ''),
+    NULLIF(trim(_client_phone), ''),
+    NULLIF(trim(_client_address), ''),
+    'link'
+  )
+  RETURNING id INTO _referral_id;
+
+  INSERT INTO public.referral_link_submissions (profile_id, referral_id, ip_address)
+  VALUES (_profile.id, _referral_id, NULLIF(_ip, ''));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_referrer_by_code(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.submit_link_referral(TEXT, TEXT, TEXT, TEXT, TEXT, TEXT) TO anon, authenticated;
@@ -0,0 +1,213 @@
+-- Versions of the contact consent shown on the public referral page. Versions are never
+-- edited: a wording change is published as a new version in a migration (and the old one
+-- marked not current), so every referral points at the exact text the homeowner agreed to.
+CREATE TABLE public.consent_texts (
+  version TEXT NOT NULL PRIMARY KEY,
+  body TEXT NOT NULL,
+  is_current BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_consent_texts_current ON public.consent_texts(is_current) WHERE is_current;
+
+ALTER TABLE public.consent_texts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view consent texts"
+  ON public.consent_texts
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+INSERT INTO public.consent_texts (version, body, is_current) VALUES (
+  '2026-10-01',
+  'By checking this box and submitting this form, I agree that Sunnova and its authorized solar advisors may contact me about solar energy products and services at the phone number and email address I provided, including by calls and text messages sent using an automatic telephone dialing system or prerecorded voice. Message and data rates may apply. Consent is not a condition of purchase. I can opt out at any time by replying STOP to a text message or by asking to be removed.',
+  true
+);
+
+-- Homeowner consent to be contacted, captured on the public referral page
+ALTER TABLE public.referrals
+  ADD COLUMN consent_text_version TEXT REFERENCES public.consent_texts(version),
+  ADD COLUMN consented_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN consent_ip TEXT,
+  ADD CONSTRAINT referrals_consent_complete CHECK ((consent_text_version IS NULL) = (consented_at IS NULL));
+
+-- Referrers cannot record consent or claim a referral came through their link
+CREATE OR REPLACE FUNCTION public.enforce_referrer_referral_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  -- Admins and server-side jobs (no auth context) are not restricted
+  IF auth.uid() IS NULL OR public.has_role(auth.uid(), 'admin') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.stage IS DISTINCT FROM public.initial_referral_stage()
+      OR NEW.bonus_status <> 'Pending'
+      OR NEW.payout_batch_id IS NOT NULL
+      OR NEW.notes IS NOT NULL
+      OR NEW.outcome <> 'open'
+      OR NEW.closed_at IS NOT NULL
+      OR NEW.closed_by IS NOT NULL
+      OR NEW.source <> 'manual'
+      OR NEW.consent_text_version IS NOT NULL
+      OR NEW.consented_at IS NOT NULL
+      OR NEW.consent_ip IS NOT NULL THEN
+      RAISE EXCEPTION 'Referrers can only submit new referrals with the client''s details'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF NEW.profile_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM public.profiles WHERE id = NEW.profile_id AND user_id = auth.uid()
+    ) THEN
+      RAISE EXCEPTION 'Referrals can only be linked to your own profile'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    -- The amount always comes from the bonus rules (see set_referral_bonus_amount)
+    NEW.bonus_amount := 0;
+    RETURN NEW;
+  END IF;
+
+  IF OLD.outcome <> 'open' THEN
+    RAISE EXCEPTION 'Closed referrals can no longer be edited'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF OLD.stage IS DISTINCT FROM public.initial_referral_stage() THEN
+    RAISE EXCEPTION 'Referrals can no longer be edited once the client has signed'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id
+    OR NEW.profile_id IS DISTINCT FROM OLD.profile_id
+    OR NEW.stage IS DISTINCT FROM OLD.stage
+    OR NEW.bonus_status IS DISTINCT FROM OLD.bonus_status
+    OR NEW.bonus_amount IS DISTINCT FROM OLD.bonus_amount
+    OR NEW.payout_batch_id IS DISTINCT FROM OLD.payout_batch_id
+    OR NEW.duplicate_of IS DISTINCT FROM OLD.duplicate_of
+    OR NEW.outcome IS DISTINCT FROM OLD.outcome
+    OR NEW.close_reason IS DISTINCT FROM OLD.close_reason
+    OR NEW.closed_at IS DISTINCT FROM OLD.closed_at
+    OR NEW.closed_by IS DISTINCT FROM OLD.closed_by
+    OR NEW.source IS DISTINCT FROM OLD.source
+    OR NEW.consent_text_version IS DISTINCT FROM OLD.consent_text_version
+    OR NEW.consented_at IS DISTINCT FROM OLD.consented_at
+    OR NEW.consent_ip IS DISTINCT FROM OLD.consent_ip
+    OR NEW.notes IS DISTINCT FROM OLD.notes
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+    RAISE EXCEPTION 'Referrers can only update the client name, email, phone and address'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- The homeowner consented to be contacted at the details they gave, not at new ones
+  IF OLD.consented_at IS NOT NULL AND (
+    NEW.client_email IS DISTINCT FROM OLD.client_email
+    OR NEW.client_phone IS DISTINCT FROM OLD.client_phone
+  ) THEN
+    RAISE EXCEPTION 'Contact details given by the homeowner cannot be changed'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Submissions now have to agree to the current consent text
+DROP FUNCTION public.submit_link_referral(TEXT, TEXT, TEXT, TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.submit_link_referral(
+  _code TEXT,
+  _client_name TEXT,
+  _consent_text_version TEXT,
+  _client_email TEXT DEFAULT NULL,
+  _client_phone TEXT DEFAULT NULL,
+  _client_address TEXT DEFAULT NULL,
+  _website TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  _profile public.profiles%ROWTYPE;
+  _ip TEXT;
+  _referral_id UUID;
+BEGIN
+  SELECT * INTO _profile
+  FROM public.profiles
+  WHERE referral_code = upper(trim(_code));
+
+  IF _profile.id IS NULL THEN
+    RAISE EXCEPTION 'This referral link is not valid';
+  END IF;
+
+  -- First address in X-Forwarded-For, as passed through by the API gateway
+  _ip := trim(split_part(
+    COALESCE(current_setting('request.headers', true)::JSONB ->> 'x-forwarded-for', ''), ',', 1
+  ));
+
+  IF NULLIF(trim(_website), '') IS NOT NULL THEN
+    INSERT INTO public.referral_link_submissions (profile_id, ip_address, rejected_reason)
+    VALUES (_profile.id, NULLIF(_ip, ''), 'honeypot');
+    RETURN;
+  END IF;
+
+  IF (SELECT COUNT(*) FROM public.referral_link_submissions
+      WHERE ip_address = NULLIF(_ip, '') AND created_at > now() - INTERVAL '1 hour') >= 5
+    OR (SELECT COUNT(*) FROM public.referral_link_submissions
+      WHERE profile_id = _profile.id AND created_at > now() - INTERVAL '1 hour') >= 20 THEN
+    RAISE EXCEPTION 'Too many submissions. Please try again later.';
+  END IF;
+
+  -- The page may have been open while a new version was published; ask them to agree to it
+  IF NOT EXISTS (
+    SELECT 1 FROM public.consent_texts WHERE version = _consent_text_version AND is_current
+  ) THEN
+    RAISE EXCEPTION 'Please review and accept the current consent statement';
+  END IF;
+
+  IF length(trim(COALESCE(_client_name, ''))) NOT BETWEEN 2 AND 200 THEN
+    RAISE EXCEPTION 'Please enter your name';
+  END IF;
+
+  IF NULLIF(trim(_client_email), '') IS NULL AND NULLIF(trim(_client_phone), '') IS NULL THEN
+    RAISE EXCEPTION 'Please enter an email address or phone number';
+  END IF;
+
+  IF NULLIF(trim(_client_email), '') IS NOT NULL AND trim(_client_email) !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RAISE EXCEPTION 'Please enter a valid email address';
+  END IF;
+
+  IF length(COALESCE(_client_email, '')) > 320
+    OR length(COALESCE(_client_phone, '')) > 50
+    OR length(COALESCE(_client_address, '')) > 500 THEN
+    RAISE EXCEPTION 'Some details are too long';
+  END IF;
+
+  INSERT INTO public.referrals (
+    user_id, profile_id, client_name, client_email, client_phone, client_address, source,
+    consent_text_version, consented_at, consent_ip
+  )
+  VALUES (
+    _profile.user_id,
+    _profile.id,
+    trim(_client_name),
+    NULLIF(trim(_client_email), ''),
+    NULLIF(trim(_client_phone), ''),
+    NULLIF(trim(_client_address), ''),
+    'link',
+    _consent_text_version,
+    now(),
+    NULLIF(_ip, '')
+  )
+  RETURNING id INTO _referral_id;
+
+  INSERT INTO public.referral_link_submissions (profile_id, referral_id, ip_address)
+  VALUES (_profile.id, _referral_id, NULLIF(_ip, ''));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.submit_link_referral(TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT) TO anon, authenticated;
@@ -0,0 +1,158 @@
+-- Email templates for referrer notifications, one per kind. Admins edit the wording;
+-- {{placeholders}} are filled in by the notify-referral-event edge function.
+CREATE TABLE public.notification_templates (
+  kind TEXT NOT NULL PRIMARY KEY CHECK (kind IN ('referral_received', 'stage_changed', 'bonus_paid')),
+  subject TEXT NOT NULL,
+  body TEXT NOT NULL,
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.notification_templates ENABLE ROW LEVEL SECURITY;
+
+-- The set of kinds is fixed by the edge function, so admins can only edit existing rows
+CREATE POLICY "Admins can view notification templates"
+  ON public.notification_templates
+  FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update notification templates"
+  ON public.notification_templates
+  FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_notification_templates_updated_at
+  BEFORE UPDATE ON public.notification_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.notification_templates (kind, subject, body) VALUES
+  (
+    'referral_received',
+    'We received your referral of {{client_name}}',
+    E'Hi {{first_name}},\n\nThanks for referring {{client_name}}. Their referral is now at "{{stage}}" and our team will be in touch with them soon.\n\nYou can follow its progress at {{dashboard_url}}.\n\nSolarPay Referrals by Sunnova'
+  ),
+  (
+    'stage_changed',
+    'Your referral of {{client_name}} moved to {{stage}}',
+    E'Hi {{first_name}},\n\nGood news: your referral of {{client_name}} has moved from "{{previous_stage}}" to "{{stage}}".\n\nSee the details at {{dashboard_url}}.\n\nSolarPay Referrals by Sunnova'
+  ),
+  (
+    'bonus_paid',
+    'Your {{bonus_amount}} referral bonus has been paid',
+    E'Hi {{first_name}},\n\nWe have paid your {{bonus_amount}} bonus for referring {{client_name}}. Depending on your payment method it can take a few business days to arrive.\n\nSee your earnings at {{dashboard_url}}.\n\nSolarPay Referrals by Sunnova'
+  );
+
+-- Which notification emails each user wants. A missing row means all of them.
+CREATE TABLE public.notification_preferences (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  email_referral_received BOOLEAN NOT NULL DEFAULT true,
+  email_stage_changed BOOLEAN NOT NULL DEFAULT true,
+  email_bonus_paid BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notification preferences"
+  ON public.notification_preferences
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own notification preferences"
+  ON public.notification_preferences
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own notification preferences"
+  ON public.notification_preferences
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_notification_preferences_updated_at
+  BEFORE UPDATE ON public.notification_preferences
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Referral events are handed to the edge function over HTTP. pg_net queues the request
+-- and only sends it once the transaction commits.
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+-- The function URL and a shared secret live in Vault. The secret must also be set as
+-- NOTIFY_WEBHOOK_SECRET on the edge function (see README); locally the URL is overridden.
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM vault.secrets WHERE name = 'notify_function_url') THEN
+    PERFORM vault.create_secret(
+      'https://bwiejzcoumsqqtoyxpnz.supabase.co/functions/v1/notify-referral-event',
+      'notify_function_url',
+      'Endpoint of the notify-referral-event edge function'
+    );
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM vault.secrets WHERE name = 'notify_webhook_secret') THEN
+    PERFORM vault.create_secret(
+      encode(extensions.gen_random_bytes(32), 'hex'),
+      'notify_webhook_secret',
+      'Sent as x-webhook-secret so the edge function only accepts calls from the database'
+    );
+  END IF;
+END;
+$$;
+
+-- Only events that can lead to an email are sent; the edge function decides the rest
+CREATE OR REPLACE FUNCTION public.dispatch_referral_event_notification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  _url TEXT;
+  _secret TEXT;
+BEGIN
+  IF NOT (
+    NEW.event_type = 'created'
+    OR (
+      NEW.event_type = 'updated'
+      AND (
+        NEW.new_stage IS DISTINCT FROM NEW.old_stage
+        OR (NEW.new_bonus_status = 'Paid' AND NEW.old_bonus_status IS DISTINCT FROM 'Paid')
+      )
+    )
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT decrypted_secret INTO _url
+  FROM vault.decrypted_secrets
+  WHERE name = 'notify_function_url';
+
+  SELECT decrypted_secret INTO _secret
+  FROM vault.decrypted_secrets
+  WHERE name = 'notify_webhook_secret';
+
+  IF _url IS NULL OR _secret IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM net.http_post(
+    url := _url,
+    body := jsonb_build_object('event_id', NEW.id),
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'x-webhook-secret', _secret
+    )
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER dispatch_referral_event_notification
+  AFTER INSERT ON public.referral_events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.dispatch_referral_event_notification();
@@ -0,0 +1,122 @@
+-- In-app notification feed, one row per recipient
+CREATE TABLE public.notifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  referral_id UUID REFERENCES public.referrals(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('referral_received', 'referral_submitted', 'stage_changed', 'bonus_paid')),
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_notifications_user_id ON public.notifications(user_id, created_at DESC);
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+-- Notifications are only ever written by the trigger below; users can only mark them read
+CREATE POLICY "Users can view their own notifications"
+  ON public.notifications
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can mark their own notifications read"
+  ON public.notifications
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+REVOKE INSERT, UPDATE, DELETE ON public.notifications FROM anon, authenticated;
+GRANT UPDATE (read_at) ON public.notifications TO authenticated;
+
+-- Turn referral history events into notifications for the referrer, and for admins
+-- when a new referral comes in
+CREATE OR REPLACE FUNCTION public.create_referral_notifications()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  _referral RECORD;
+  _referrer_name TEXT;
+  _old_label TEXT;
+  _new_label TEXT;
+BEGIN
+  SELECT user_id, client_name, bonus_amount INTO _referral
+  FROM public.referrals
+  WHERE id = NEW.referral_id;
+
+  IF NEW.event_type = 'created' THEN
+    -- Referrers already know about referrals they entered themselves
+    IF NEW.actor_id IS DISTINCT FROM _referral.user_id THEN
+      INSERT INTO public.notifications (user_id, referral_id, kind, title, body)
+      VALUES (
+        _referral.user_id,
+        NEW.referral_id,
+        'referral_received',
+        'New referral added',
+        format('%s has been added to your referrals.', _referral.client_name)
+      );
+    END IF;
+
+    SELECT name INTO _referrer_name
+    FROM public.profiles
+    WHERE user_id = _referral.user_id;
+
+    INSERT INTO public.notifications (user_id, referral_id, kind, title, body)
+    SELECT
+      ur.user_id,
+      NEW.referral_id,
+      'referral_submitted',
+      'New referral submitted',
+      format('%s referred %s.', COALESCE(_referrer_name, 'A referrer'), _referral.client_name)
+    FROM public.user_roles ur
+    WHERE ur.role = 'admin'
+      AND ur.user_id IS DISTINCT FROM NEW.actor_id;
+  ELSIF NEW.event_type = 'updated' THEN
+    IF NEW.new_stage IS DISTINCT FROM NEW.old_stage THEN
+      SELECT label INTO _old_label FROM public.referral_stages WHERE key = NEW.old_stage;
+      SELECT label INTO _new_label FROM public.referral_stages WHERE key = NEW.new_stage;
+
+      INSERT INTO public.notifications (user_id, referral_id, kind, title, body)
+      VALUES (
+        _referral.user_id,
+        NEW.referral_id,
+        'stage_changed',
+        format('Referral moved to %s', COALESCE(_new_label, NEW.new_stage)),
+        format(
+          '%s moved from %s to %s.',
+          _referral.client_name,
+          COALESCE(_old_label, NEW.old_stage),
+          COALESCE(_new_label, NEW.new_stage)
+        )
+      );
+    END IF;
+
+    IF NEW.new_bonus_status = 'Paid' AND NEW.old_bonus_status IS DISTINCT FROM 'Paid' THEN
+      INSERT INTO public.notifications (user_id, referral_id, kind, title, body)
+      VALUES (
+        _referral.user_id,
+        NEW.referral_id,
+        'bonus_paid',
+        'Bonus paid',
+        format(
+          'Your %s bonus for referring %s has been paid.',
+          to_char(COALESCE(_referral.bonus_amount, 0), 'FM$999,999,990.00'),
+          _referral.client_name
+        )
+      );
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER create_referral_notifications
+  AFTER INSERT ON public.referral_events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.create_referral_notifications();
+
+-- Stream changes to the dashboards. Realtime applies each table's RLS policies to subscribers.
+ALTER PUBLICATION supabase_realtime ADD TABLE public.referrals, public.notifications;
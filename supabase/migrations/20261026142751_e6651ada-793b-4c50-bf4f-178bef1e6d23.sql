@@ -0,0 +1,93 @@
+-- Referrer mobile number for SMS alerts, stored as E.164
+ALTER TABLE public.profiles
+  ADD COLUMN phone TEXT;
+
+CREATE OR REPLACE FUNCTION public.normalize_profile_phone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF NULLIF(trim(COALESCE(NEW.phone, '')), '') IS NULL THEN
+    NEW.phone := NULL;
+    RETURN NEW;
+  END IF;
+
+  NEW.phone := public.normalize_phone(NEW.phone);
+  IF NEW.phone IS NULL THEN
+    RAISE EXCEPTION 'Enter a valid mobile number'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER normalize_profile_phone
+  BEFORE INSERT OR UPDATE OF phone ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.normalize_profile_phone();
+
+-- SMS alerts are opt-in, unlike email
+ALTER TABLE public.notification_preferences
+  ADD COLUMN sms_stage_changed BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN sms_bonus_paid BOOLEAN NOT NULL DEFAULT false;
+
+-- Text message templates. client_confirmation goes to homeowners who agreed to be
+-- contacted on the public referral page; the others go to referrers who opted in.
+CREATE TABLE public.sms_templates (
+  kind TEXT NOT NULL PRIMARY KEY CHECK (kind IN ('stage_changed', 'bonus_paid', 'client_confirmation')),
+  body TEXT NOT NULL,
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.sms_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view SMS templates"
+  ON public.sms_templates
+  FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update SMS templates"
+  ON public.sms_templates
+  FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_sms_templates_updated_at
+  BEFORE UPDATE ON public.sms_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.sms_templates (kind, body) VALUES
+  ('stage_changed', 'SolarPay: your referral of {{client_name}} moved to {{stage}}. Reply STOP to opt out.'),
+  ('bonus_paid', 'SolarPay: your {{bonus_amount}} bonus for referring {{client_name}} has been paid. Reply STOP to opt out.'),
+  ('client_confirmation', 'Hi {{client_name}}, thanks for your interest in solar! {{first_name}} referred you to Sunnova and a solar advisor will contact you soon. Reply STOP to opt out.');
+
+-- Numbers that replied STOP. Nothing is texted to them until they reply START.
+CREATE TABLE public.sms_opt_outs (
+  phone TEXT NOT NULL PRIMARY KEY,
+  keyword TEXT NOT NULL,
+  opted_out_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.sms_opt_outs ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the sms-inbound edge function
+CREATE POLICY "Users can view the opt-out for their own phone"
+  ON public.sms_opt_outs
+  FOR SELECT
+  USING (
+    phone = (
+      SELECT profiles.phone
+      FROM public.profiles
+      WHERE profiles.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all SMS opt-outs"
+  ON public.sms_opt_outs
+  FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
@@ -0,0 +1,185 @@
+-- Whether the caller's session was verified with a second factor (Supabase MFA sets aal2)
+CREATE OR REPLACE FUNCTION public.is_mfa_verified()
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SET search_path = ''
+AS $$
+  SELECT COALESCE(auth.jwt() ->> 'aal', 'aal1') = 'aal2'
+$$;
+
+-- Admins only get their extra access once their session is at aal2. Everyone else is unaffected.
+CREATE OR REPLACE FUNCTION public.admin_mfa_satisfied()
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SET search_path = ''
+AS $$
+  SELECT NOT public.has_role(auth.uid(), 'admin') OR public.is_mfa_verified()
+$$;
+
+-- Restrictive policies are ANDed with the existing ones, so an admin who has only entered
+-- a password sees no more than nothing on these tables. user_roles is left out so the app
+-- can still tell the admin they need to verify.
+DO $$
+DECLARE
+  _table TEXT;
+BEGIN
+  FOREACH _table IN ARRAY ARRAY[
+    'profiles',
+    'referrals',
+    'referral_events',
+    'referral_duplicates',
+    'payout_batches',
+    'payout_items',
+    'payment_detail_access_log',
+    'admin_permissions',
+    'bonus_rules',
+    'program_settings',
+    'notification_templates',
+    'sms_templates',
+    'sms_opt_outs'
+  ] LOOP
+    EXECUTE format(
+      'CREATE POLICY "Admins must verify with MFA" ON public.%I AS RESTRICTIVE FOR ALL USING (public.admin_mfa_satisfied()) WITH CHECK (public.admin_mfa_satisfied())',
+      _table
+    );
+  END LOOP;
+END;
+$$;
+
+-- SECURITY DEFINER functions (payout batches, closing referrals, revealing bank details)
+-- bypass RLS, so the tables they write to also check the caller in a trigger
+CREATE OR REPLACE FUNCTION public.enforce_admin_mfa()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF NOT public.admin_mfa_satisfied() THEN
+    RAISE EXCEPTION 'Verify your sign-in with your authenticator app to make admin changes'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DO $$
+DECLARE
+  _table TEXT;
+BEGIN
+  FOREACH _table IN ARRAY ARRAY[
+    'referrals',
+    'payout_batches',
+    'payout_items',
+    'payment_detail_access_log',
+    'bonus_rules',
+    'referral_stages',
+    'program_settings',
+    'admin_permissions',
+    'user_roles'
+  ] LOOP
+    EXECUTE format(
+      'CREATE TRIGGER enforce_admin_mfa BEFORE INSERT OR UPDATE OR DELETE ON public.%I FOR EACH STATEMENT EXECUTE FUNCTION public.enforce_admin_mfa()',
+      _table
+    );
+  END LOOP;
+END;
+$$;
+
+-- One-time recovery codes for users who lose their authenticator. Only hashes are stored,
+-- and nothing but the functions below can read them.
+CREATE TABLE public.mfa_recovery_codes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  code_hash TEXT NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_mfa_recovery_codes_user_id ON public.mfa_recovery_codes(user_id);
+
+ALTER TABLE public.mfa_recovery_codes ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.mfa_recovery_codes FROM anon, authenticated;
+
+-- Replace the caller's recovery codes with ten new ones, returned once in plain text
+CREATE OR REPLACE FUNCTION public.generate_mfa_recovery_codes()
+RETURNS TEXT[]
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  _codes TEXT[] := '{}';
+  _code TEXT;
+BEGIN
+  IF auth.uid() IS NULL OR NOT public.is_mfa_verified() THEN
+    RAISE EXCEPTION 'Verify with your authenticator app before creating recovery codes';
+  END IF;
+
+  DELETE FROM public.mfa_recovery_codes
+  WHERE user_id = auth.uid();
+
+  FOR i IN 1..10 LOOP
+    _code := upper(encode(extensions.gen_random_bytes(5), 'hex'));
+    _code := left(_code, 5) || '-' || right(_code, 5);
+    _codes := array_append(_codes, _code);
+
+    INSERT INTO public.mfa_recovery_codes (user_id, code_hash)
+    VALUES (auth.uid(), extensions.crypt(_code, extensions.gen_salt('bf')));
+  END LOOP;
+
+  RETURN _codes;
+END;
+$$;
+
+-- Use up one of a user's recovery codes. Called by the reset-mfa edge function, which
+-- then removes the user's factors so they can enroll again.
+CREATE OR REPLACE FUNCTION public.consume_mfa_recovery_code(_user_id UUID, _code TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  _normalized TEXT := upper(regexp_replace(COALESCE(_code, ''), '[^0-9A-Fa-f]', '', 'g'));
+  _code_id UUID;
+BEGIN
+  IF length(_normalized) <> 10 THEN
+    RETURN false;
+  END IF;
+  _normalized := left(_normalized, 5) || '-' || right(_normalized, 5);
+
+  SELECT id INTO _code_id
+  FROM public.mfa_recovery_codes
+  WHERE user_id = _user_id
+    AND used_at IS NULL
+    AND code_hash = extensions.crypt(_normalized, code_hash)
+  LIMIT 1;
+
+  IF _code_id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.mfa_recovery_codes
+  SET used_at = now()
+  WHERE id = _code_id;
+
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.consume_mfa_recovery_code(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_mfa_recovery_code(UUID, TEXT) TO service_role;
+
+-- How many unused recovery codes the caller has left
+CREATE OR REPLACE FUNCTION public.count_mfa_recovery_codes()
+RETURNS INTEGER
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER SET search_path = ''
+AS $$
+  SELECT count(*)::INTEGER
+  FROM public.mfa_recovery_codes
+  WHERE user_id = auth.uid()
+    AND used_at IS NULL
+$$;
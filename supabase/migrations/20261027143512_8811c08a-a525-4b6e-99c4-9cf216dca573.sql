@@ -0,0 +1,260 @@
+-- When an admin deactivated the account. Sign-in is blocked through auth.users.banned_until;
+-- this copy lets the app hide the account without reading the auth schema.
+ALTER TABLE public.profiles
+  ADD COLUMN deactivated_at TIMESTAMP WITH TIME ZONE;
+
+-- Audit trail of admin changes to user accounts
+CREATE TABLE public.admin_audit_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  target_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  action TEXT NOT NULL CHECK (action IN (
+    'role_granted',
+    'role_revoked',
+    'account_deactivated',
+    'account_reactivated',
+    'confirmation_resent',
+    'mfa_reset'
+  )),
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_admin_audit_log_created_at ON public.admin_audit_log(created_at DESC);
+CREATE INDEX idx_admin_audit_log_target_user_id ON public.admin_audit_log(target_user_id, created_at);
+
+ALTER TABLE public.admin_audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by the functions below and the reset-mfa edge function
+CREATE POLICY "Admins can view admin audit log"
+  ON public.admin_audit_log
+  FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins must verify with MFA"
+  ON public.admin_audit_log
+  AS RESTRICTIVE
+  FOR ALL
+  USING (public.admin_mfa_satisfied())
+  WITH CHECK (public.admin_mfa_satisfied());
+
+-- Sign-in details from auth.users for the admin users view
+CREATE OR REPLACE FUNCTION public.get_user_accounts()
+RETURNS TABLE(
+  user_id UUID,
+  roles public.app_role[],
+  last_sign_in_at TIMESTAMP WITH TIME ZONE,
+  email_confirmed_at TIMESTAMP WITH TIME ZONE,
+  deactivated_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER SET search_path = ''
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') OR NOT public.is_mfa_verified() THEN
+    RAISE EXCEPTION 'Only admins can view user accounts'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    u.id,
+    COALESCE(
+      (SELECT array_agg(r.role ORDER BY r.role) FROM public.user_roles r WHERE r.user_id = u.id),
+      '{}'
+    ),
+    u.last_sign_in_at,
+    u.email_confirmed_at,
+    p.deactivated_at
+  FROM auth.users u
+  LEFT JOIN public.profiles p ON p.user_id = u.id;
+END;
+$$;
+
+-- Grant or revoke one role. Admins cannot take admin away from themselves, and every
+-- account keeps at least one role; deactivate the account to remove access instead.
+CREATE OR REPLACE FUNCTION public.set_user_role(_user_id UUID, _role public.app_role, _granted BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') OR NOT public.is_mfa_verified() THEN
+    RAISE EXCEPTION 'Only admins can change roles'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF _granted THEN
+    IF public.has_role(_user_id, _role) THEN
+      RETURN;
+    END IF;
+
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (_user_id, _role);
+  ELSE
+    IF NOT public.has_role(_user_id, _role) THEN
+      RETURN;
+    END IF;
+
+    IF _user_id = auth.uid() AND _role = 'admin' THEN
+      RAISE EXCEPTION 'You cannot remove your own admin role';
+    END IF;
+
+    IF (SELECT COUNT(*) FROM public.user_roles WHERE user_id = _user_id) = 1 THEN
+      RAISE EXCEPTION 'This is the user''s only role. Deactivate the account instead.';
+    END IF;
+
+    DELETE FROM public.user_roles
+    WHERE user_id = _user_id
+      AND role = _role;
+  END IF;
+
+  INSERT INTO public.admin_audit_log (actor_id, target_user_id, action, details)
+  VALUES (
+    auth.uid(),
+    _user_id,
+    CASE WHEN _granted THEN 'role_granted' ELSE 'role_revoked' END,
+    jsonb_build_object('role', _role)
+  );
+END;
+$$;
+
+-- Deactivate or reactivate an account. Deactivating bans the user in Supabase Auth, which
+-- blocks sign-in, and ends their sessions so they cannot refresh the one they have.
+CREATE OR REPLACE FUNCTION public.set_user_active(_user_id UUID, _active BOOLEAN, _reason TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') OR NOT public.is_mfa_verified() THEN
+    RAISE EXCEPTION 'Only admins can deactivate accounts'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF _user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot deactivate your own account';
+  END IF;
+
+  IF NOT _active AND COALESCE(trim(_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to deactivate an account';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM auth.users WHERE id = _user_id) THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  IF _active THEN
+    UPDATE auth.users SET banned_until = NULL WHERE id = _user_id;
+    UPDATE public.profiles SET deactivated_at = NULL WHERE user_id = _user_id;
+  ELSE
+    UPDATE auth.users SET banned_until = 'infinity' WHERE id = _user_id;
+    UPDATE public.profiles SET deactivated_at = now() WHERE user_id = _user_id;
+    DELETE FROM auth.sessions WHERE user_id = _user_id;
+  END IF;
+
+  INSERT INTO public.admin_audit_log (actor_id, target_user_id, action, details)
+  VALUES (
+    auth.uid(),
+    _user_id,
+    CASE WHEN _active THEN 'account_reactivated' ELSE 'account_deactivated' END,
+    CASE WHEN _active THEN '{}'::jsonb ELSE jsonb_build_object('reason', trim(_reason)) END
+  );
+END;
+$$;
+
+-- Log a confirmation email resend and return the address to send it to. The email itself
+-- is sent by Supabase Auth, which the app asks for right after this call.
+CREATE OR REPLACE FUNCTION public.record_confirmation_resend(_user_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  _email TEXT;
+  _confirmed_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') OR NOT public.is_mfa_verified() THEN
+    RAISE EXCEPTION 'Only admins can resend confirmation emails'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT email, email_confirmed_at INTO _email, _confirmed_at
+  FROM auth.users
+  WHERE id = _user_id;
+
+  IF _email IS NULL THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  IF _confirmed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This user has already confirmed their email address';
+  END IF;
+
+  INSERT INTO public.admin_audit_log (actor_id, target_user_id, action, details)
+  VALUES (auth.uid(), _user_id, 'confirmation_resent', jsonb_build_object('email', _email));
+
+  RETURN _email;
+END;
+$$;
+
+-- Deactivated referrers' links stop working
+CREATE OR REPLACE FUNCTION public.get_referrer_by_code(_code TEXT)
+RETURNS TABLE(first_name TEXT)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER SET search_path = ''
+AS $$
+  SELECT split_part(trim(name), ' ', 1)
+  FROM public.profiles
+  WHERE referral_code = upper(trim(_code))
+    AND deactivated_at IS NULL
+$$;
+
+-- Referrals cannot be added for a deactivated account, from the public page or by an admin
+CREATE OR REPLACE FUNCTION public.reject_deactivated_referrer()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE user_id = NEW.user_id
+      AND deactivated_at IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'This referrer''s account has been deactivated';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reject_deactivated_referrer
+  BEFORE INSERT ON public.referrals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.reject_deactivated_referrer();
+
+-- Users cannot reactivate themselves by editing their profile
+CREATE OR REPLACE FUNCTION public.protect_profile_deactivated_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.deactivated_at IS DISTINCT FROM OLD.deactivated_at
+    AND auth.uid() IS NOT NULL
+    AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Use set_user_active to deactivate or reactivate an account'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_profile_deactivated_at
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_profile_deactivated_at();
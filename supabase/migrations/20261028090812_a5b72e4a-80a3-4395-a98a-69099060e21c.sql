@@ -0,0 +1,5 @@
+-- Staff roles with narrower access than admin. Added in their own migration because new
+-- enum values cannot be used in the transaction that adds them.
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'finance';
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'sales_rep';
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'auditor';
@@ -0,0 +1,420 @@
+-- The sales rep working a referral
+ALTER TABLE public.referrals
+  ADD COLUMN assigned_to UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_referrals_assigned_to ON public.referrals(assigned_to);
+
+-- Check whether a user holds any of the given roles
+CREATE OR REPLACE FUNCTION public.has_any_role(_user_id UUID, _roles public.app_role[])
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_roles
+    WHERE user_id = _user_id
+      AND role = ANY(_roles)
+  )
+$$;
+
+-- Everyone who works in the admin panel rather than only referring customers
+CREATE OR REPLACE FUNCTION public.is_staff(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER SET search_path = ''
+AS $$
+  SELECT public.has_any_role(_user_id, ARRAY['admin', 'finance', 'sales_rep', 'auditor']::public.app_role[])
+$$;
+
+-- The finance permission becomes the finance role. Existing holders keep it.
+INSERT INTO public.user_roles (user_id, role)
+SELECT user_id, 'finance'
+FROM public.admin_permissions
+WHERE permission = 'finance'
+ON CONFLICT (user_id, role) DO NOTHING;
+
+-- Kept for existing callers; finance is the only permission and now comes from the role
+CREATE OR REPLACE FUNCTION public.has_permission(_user_id UUID, _permission TEXT)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER SET search_path = ''
+AS $$
+  SELECT _permission = 'finance' AND public.has_role(_user_id, 'finance')
+$$;
+
+-- Every staff role sees data referrers cannot, so they all need MFA like admins
+CREATE OR REPLACE FUNCTION public.admin_mfa_satisfied()
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SET search_path = ''
+AS $$
+  SELECT NOT public.is_staff(auth.uid()) OR public.is_mfa_verified()
+$$;
+
+-- Finance and auditors see every referral; sales reps only the ones assigned to them
+CREATE POLICY "Finance and auditors can view all referrals"
+  ON public.referrals
+  FOR SELECT
+  USING (public.has_any_role(auth.uid(), ARRAY['finance', 'auditor']::public.app_role[]));
+
+CREATE POLICY "Sales reps can view assigned referrals"
+  ON public.referrals
+  FOR SELECT
+  USING (assigned_to = auth.uid() AND public.has_role(auth.uid(), 'sales_rep'));
+
+-- Which columns each role may change is checked by enforce_staff_referral_columns
+CREATE POLICY "Sales reps can update assigned referrals"
+  ON public.referrals
+  FOR UPDATE
+  USING (assigned_to = auth.uid() AND public.has_role(auth.uid(), 'sales_rep'))
+  WITH CHECK (assigned_to = auth.uid() AND public.has_role(auth.uid(), 'sales_rep'));
+
+CREATE POLICY "Finance can update referral bonuses"
+  ON public.referrals
+  FOR UPDATE
+  USING (public.has_role(auth.uid(), 'finance'))
+  WITH CHECK (public.has_role(auth.uid(), 'finance'));
+
+-- History follows the referral: staff see the events of the referrals they can see
+CREATE POLICY "Staff can view events of visible referrals"
+  ON public.referral_events
+  FOR SELECT
+  USING (
+    public.is_staff(auth.uid())
+    AND EXISTS (SELECT 1 FROM public.referrals r WHERE r.id = referral_id)
+  );
+
+CREATE POLICY "Finance and auditors can view all profiles"
+  ON public.profiles
+  FOR SELECT
+  USING (public.has_any_role(auth.uid(), ARRAY['finance', 'auditor']::public.app_role[]));
+
+CREATE POLICY "Sales reps can view profiles of assigned referrers"
+  ON public.profiles
+  FOR SELECT
+  USING (
+    public.has_role(auth.uid(), 'sales_rep')
+    AND EXISTS (
+      SELECT 1 FROM public.referrals r
+      WHERE r.user_id = profiles.user_id
+        AND r.assigned_to = auth.uid()
+    )
+  );
+
+-- Finance runs payouts; auditors can look at them
+DO $$
+DECLARE
+  _table TEXT;
+BEGIN
+  FOREACH _table IN ARRAY ARRAY[
+    'payout_batches',
+    'payout_items',
+    'payment_detail_access_log'
+  ] LOOP
+    EXECUTE format(
+      'CREATE POLICY "Finance and auditors can view %s" ON public.%I FOR SELECT USING (public.has_any_role(auth.uid(), ARRAY[''finance'', ''auditor'']::public.app_role[]))',
+      replace(_table, '_', ' '),
+      _table
+    );
+  END LOOP;
+END;
+$$;
+
+-- Auditors can read everything admins can, and change nothing
+DO $$
+DECLARE
+  _table TEXT;
+BEGIN
+  FOREACH _table IN ARRAY ARRAY[
+    'user_roles',
+    'referral_duplicates',
+    'referral_link_submissions',
+    'admin_audit_log',
+    'notification_templates',
+    'sms_templates',
+    'sms_opt_outs'
+  ] LOOP
+    EXECUTE format(
+      'CREATE POLICY "Auditors can view %s" ON public.%I FOR SELECT USING (public.has_role(auth.uid(), ''auditor''))',
+      replace(_table, '_', ' '),
+      _table
+    );
+  END LOOP;
+END;
+$$;
+
+-- Referrers cannot assign reps. Staff updating someone else's referral are checked by
+-- enforce_staff_referral_columns instead; on their own referrals they are referrers too.
+CREATE OR REPLACE FUNCTION public.enforce_referrer_referral_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  -- Admins and server-side jobs (no auth context) are not restricted
+  IF auth.uid() IS NULL
+    OR public.has_role(auth.uid(), 'admin')
+    OR (TG_OP = 'UPDATE' AND OLD.user_id IS DISTINCT FROM auth.uid()) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.stage IS DISTINCT FROM public.initial_referral_stage()
+      OR NEW.bonus_status <> 'Pending'
+      OR NEW.payout_batch_id IS NOT NULL
+      OR NEW.notes IS NOT NULL
+      OR NEW.outcome <> 'open'
+      OR NEW.closed_at IS NOT NULL
+      OR NEW.closed_by IS NOT NULL
+      OR NEW.source <> 'manual'
+      OR NEW.consent_text_version IS NOT NULL
+      OR NEW.consented_at IS NOT NULL
+      OR NEW.consent_ip IS NOT NULL
+      OR NEW.assigned_to IS NOT NULL THEN
+      RAISE EXCEPTION 'Referrers can only submit new referrals with the client''s details'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF NEW.profile_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM public.profiles WHERE id = NEW.profile_id AND user_id = auth.uid()
+    ) THEN
+      RAISE EXCEPTION 'Referrals can only be linked to your own profile'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    -- The amount always comes from the bonus rules (see set_referral_bonus_amount)
+    NEW.bonus_amount := 0;
+    RETURN NEW;
+  END IF;
+
+  IF OLD.outcome <> 'open' THEN
+    RAISE EXCEPTION 'Closed referrals can no longer be edited'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF OLD.stage IS DISTINCT FROM public.initial_referral_stage() THEN
+    RAISE EXCEPTION 'Referrals can no longer be edited once the client has signed'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id
+    OR NEW.profile_id IS DISTINCT FROM OLD.profile_id
+    OR NEW.stage IS DISTINCT FROM OLD.stage
+    OR NEW.bonus_status IS DISTINCT FROM OLD.bonus_status
+    OR NEW.bonus_amount IS DISTINCT FROM OLD.bonus_amount
+    OR NEW.payout_batch_id IS DISTINCT FROM OLD.payout_batch_id
+    OR NEW.duplicate_of IS DISTINCT FROM OLD.duplicate_of
+    OR NEW.outcome IS DISTINCT FROM OLD.outcome
+    OR NEW.close_reason IS DISTINCT FROM OLD.close_reason
+    OR NEW.closed_at IS DISTINCT FROM OLD.closed_at
+    OR NEW.closed_by IS DISTINCT FROM OLD.closed_by
+    OR NEW.source IS DISTINCT FROM OLD.source
+    OR NEW.consent_text_version IS DISTINCT FROM OLD.consent_text_version
+    OR NEW.consented_at IS DISTINCT FROM OLD.consented_at
+    OR NEW.consent_ip IS DISTINCT FROM OLD.consent_ip
+    OR NEW.assigned_to IS DISTINCT FROM OLD.assigned_to
+    OR NEW.notes IS DISTINCT FROM OLD.notes
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+    RAISE EXCEPTION 'Referrers can only update the client name, email, phone and address'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- The homeowner consented to be contacted at the details they gave, not at new ones
+  IF OLD.consented_at IS NOT NULL AND (
+    NEW.client_email IS DISTINCT FROM OLD.client_email
+    OR NEW.client_phone IS DISTINCT FROM OLD.client_phone
+  ) THEN
+    RAISE EXCEPTION 'Contact details given by the homeowner cannot be changed'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- What each staff role may change on a referral. Only finance decides whether a bonus has
+-- been paid. Admins change everything else; finance only the bonus status and payout
+-- batch, and sales reps only move their own referrals forward through the stages.
+CREATE OR REPLACE FUNCTION public.enforce_staff_referral_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  _allowed TEXT[] := ARRAY['updated_at'];
+BEGIN
+  IF auth.uid() IS NULL OR NOT public.is_staff(auth.uid()) THEN
+    RETURN NEW;
+  END IF;
+
+  IF (NEW.bonus_status = 'Paid') IS DISTINCT FROM (OLD.bonus_status = 'Paid')
+    AND NOT public.has_role(auth.uid(), 'finance') THEN
+    RAISE EXCEPTION 'Only finance can mark bonuses as paid'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF public.has_role(auth.uid(), 'admin') THEN
+    IF NEW.assigned_to IS DISTINCT FROM OLD.assigned_to
+      AND NEW.assigned_to IS NOT NULL
+      AND NOT public.has_role(NEW.assigned_to, 'sales_rep') THEN
+      RAISE EXCEPTION 'Referrals can only be assigned to sales reps';
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  -- Their own referrals follow the referrer rules in enforce_referrer_referral_columns
+  IF OLD.user_id = auth.uid() THEN
+    RETURN NEW;
+  END IF;
+
+  IF public.has_role(auth.uid(), 'finance') THEN
+    _allowed := _allowed || ARRAY['bonus_status', 'payout_batch_id'];
+  END IF;
+
+  IF public.has_role(auth.uid(), 'sales_rep') AND OLD.assigned_to = auth.uid() THEN
+    IF NEW.stage IS DISTINCT FROM OLD.stage THEN
+      IF OLD.outcome <> 'open' THEN
+        RAISE EXCEPTION 'Closed referrals can no longer be moved'
+          USING ERRCODE = 'insufficient_privilege';
+      END IF;
+
+      IF public.referral_stage_rank(NEW.stage) <= public.referral_stage_rank(OLD.stage) THEN
+        RAISE EXCEPTION 'Sales reps can only move referrals forward'
+          USING ERRCODE = 'insufficient_privilege';
+      END IF;
+    END IF;
+
+    _allowed := _allowed || ARRAY['stage'];
+  END IF;
+
+  IF (to_jsonb(NEW) - _allowed) IS DISTINCT FROM (to_jsonb(OLD) - _allowed) THEN
+    RAISE EXCEPTION 'Your role cannot change these referral details'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Runs before set_referral_bonus_amount and set_referral_stage_entered_at, which update
+-- columns of their own when the stage changes
+CREATE TRIGGER enforce_staff_referral_columns
+  BEFORE UPDATE ON public.referrals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_staff_referral_columns();
+
+-- Admins put batches together; finance sends them
+CREATE OR REPLACE FUNCTION public.mark_payout_batch_sent(_batch_id UUID, _reference_number TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'finance') THEN
+    RAISE EXCEPTION 'Only finance can mark payout batches as sent';
+  END IF;
+
+  IF COALESCE(trim(_reference_number), '') = '' THEN
+    RAISE EXCEPTION 'A reference number is required';
+  END IF;
+
+  UPDATE public.payout_batches
+  SET status = 'sent',
+      reference_number = trim(_reference_number),
+      sent_by = auth.uid(),
+      sent_at = now()
+  WHERE id = _batch_id
+    AND status = 'draft';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only draft payout batches can be marked as sent';
+  END IF;
+
+  UPDATE public.referrals
+  SET bonus_status = 'Paid'
+  WHERE payout_batch_id = _batch_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.cancel_payout_batch(_batch_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+BEGIN
+  IF NOT public.has_any_role(auth.uid(), ARRAY['admin', 'finance']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Only admins and finance can cancel payout batches';
+  END IF;
+
+  UPDATE public.payout_batches
+  SET status = 'cancelled'
+  WHERE id = _batch_id
+    AND status = 'draft';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only draft payout batches can be cancelled';
+  END IF;
+
+  UPDATE public.referrals
+  SET payout_batch_id = NULL
+  WHERE payout_batch_id = _batch_id;
+END;
+$$;
+
+-- Auditors can see the users view too
+CREATE OR REPLACE FUNCTION public.get_user_accounts()
+RETURNS TABLE(
+  user_id UUID,
+  roles public.app_role[],
+  last_sign_in_at TIMESTAMP WITH TIME ZONE,
+  email_confirmed_at TIMESTAMP WITH TIME ZONE,
+  deactivated_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER SET search_path = ''
+AS $$
+BEGIN
+  IF NOT public.has_any_role(auth.uid(), ARRAY['admin', 'auditor']::public.app_role[])
+    OR NOT public.is_mfa_verified() THEN
+    RAISE EXCEPTION 'Only admins and auditors can view user accounts'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    u.id,
+    COALESCE(
+      (SELECT array_agg(r.role ORDER BY r.role) FROM public.user_roles r WHERE r.user_id = u.id),
+      '{}'
+    ),
+    u.last_sign_in_at,
+    u.email_confirmed_at,
+    p.deactivated_at
+  FROM auth.users u
+  LEFT JOIN public.profiles p ON p.user_id = u.id;
+END;
+$$;
+
+-- Sales reps who can be assigned referrals, for the admin panel
+CREATE OR REPLACE FUNCTION public.get_sales_reps()
+RETURNS TABLE(user_id UUID, name TEXT)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER SET search_path = ''
+AS $$
+  SELECT r.user_id, COALESCE(p.name, u.email)
+  FROM public.user_roles r
+  JOIN auth.users u ON u.id = r.user_id
+  LEFT JOIN public.profiles p ON p.user_id = r.user_id
+  WHERE r.role = 'sales_rep'
+    AND p.deactivated_at IS NULL
+    AND public.is_staff(auth.uid())
+  ORDER BY 2
+$$;
@@ -0,0 +1,254 @@
+-- off: new referrals stay unassigned until an admin assigns them
+-- round_robin: the active sales rep who was last given a referral automatically the longest ago
+-- territory: the rep whose ZIP code prefix matches the client's address, or round robin if none does
+INSERT INTO public.program_settings (key, value, description)
+VALUES (
+  'referral_assignment',
+  '"round_robin"',
+  'How new referrals are assigned to sales reps: off, round_robin or territory'
+);
+
+-- ZIP code prefixes each sales rep covers. The longest matching prefix wins.
+CREATE TABLE public.sales_territories (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  zip_prefix TEXT NOT NULL UNIQUE CHECK (zip_prefix ~ '^[0-9]{1,5}$'),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_sales_territories_user_id ON public.sales_territories(user_id);
+
+ALTER TABLE public.sales_territories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view sales territories"
+  ON public.sales_territories
+  FOR SELECT
+  USING (public.is_staff(auth.uid()));
+
+CREATE POLICY "Admins can manage sales territories"
+  ON public.sales_territories
+  FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Who each referral has been assigned to, by whom and how. Rows are only written by the
+-- triggers below. The referral key is checked at commit because automatic assignments
+-- are recorded while the referral row itself is still being inserted.
+CREATE TABLE public.referral_assignments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  referral_id UUID NOT NULL REFERENCES public.referrals(id) ON DELETE CASCADE DEFERRABLE INITIALLY DEFERRED,
+  assigned_to UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  previous_assigned_to UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  assigned_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  assigned_by_name TEXT,
+  method TEXT NOT NULL CHECK (method IN ('manual', 'round_robin', 'territory')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_referral_assignments_referral_id ON public.referral_assignments(referral_id, created_at);
+CREATE INDEX idx_referral_assignments_assigned_to ON public.referral_assignments(assigned_to, created_at);
+
+ALTER TABLE public.referral_assignments ENABLE ROW LEVEL SECURITY;
+
+-- Like referral_events, the history follows the referral
+CREATE POLICY "Staff can view assignments of visible referrals"
+  ON public.referral_assignments
+  FOR SELECT
+  USING (
+    public.is_staff(auth.uid())
+    AND EXISTS (SELECT 1 FROM public.referrals r WHERE r.id = referral_id)
+  );
+
+DO $$
+DECLARE
+  _table TEXT;
+BEGIN
+  FOREACH _table IN ARRAY ARRAY[
+    'sales_territories',
+    'referral_assignments'
+  ] LOOP
+    EXECUTE format(
+      'CREATE POLICY "Admins must verify with MFA" ON public.%I AS RESTRICTIVE FOR ALL USING (public.admin_mfa_satisfied()) WITH CHECK (public.admin_mfa_satisfied())',
+      _table
+    );
+  END LOOP;
+END;
+$$;
+
+CREATE TRIGGER enforce_admin_mfa
+  BEFORE INSERT OR UPDATE OR DELETE ON public.sales_territories
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.enforce_admin_mfa();
+
+-- The last five-digit number in an address, which for US addresses is the ZIP code
+CREATE OR REPLACE FUNCTION public.zip_code_from_address(_address TEXT)
+RETURNS TEXT
+LANGUAGE SQL
+IMMUTABLE
+SET search_path = ''
+AS $$
+  SELECT substring(COALESCE(_address, '') FROM '.*\m([0-9]{5})(?:-[0-9]{4})?\M')
+$$;
+
+-- Sales reps whose account is still active can be given referrals
+CREATE OR REPLACE FUNCTION public.is_assignable_sales_rep(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER SET search_path = ''
+AS $$
+  SELECT public.has_role(_user_id, 'sales_rep')
+    AND NOT EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE user_id = _user_id
+        AND deactivated_at IS NOT NULL
+    )
+$$;
+
+-- The sales rep a new referral goes to under the referral_assignment setting, and how they
+-- were picked. Returns no row when assignment is off or there is no rep to pick.
+CREATE OR REPLACE FUNCTION public.choose_sales_rep(_client_address TEXT)
+RETURNS TABLE(rep_id UUID, method TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  _mode TEXT;
+  _zip TEXT := public.zip_code_from_address(_client_address);
+BEGIN
+  SELECT value #>> '{}' INTO _mode
+  FROM public.program_settings
+  WHERE key = 'referral_assignment';
+
+  IF COALESCE(_mode, 'off') = 'off' THEN
+    RETURN;
+  END IF;
+
+  IF _mode = 'territory' AND _zip IS NOT NULL THEN
+    RETURN QUERY
+    SELECT t.user_id, 'territory'::TEXT
+    FROM public.sales_territories t
+    WHERE _zip LIKE t.zip_prefix || '%'
+      AND public.is_assignable_sales_rep(t.user_id)
+    ORDER BY length(t.zip_prefix) DESC
+    LIMIT 1;
+
+    IF FOUND THEN
+      RETURN;
+    END IF;
+  END IF;
+
+  -- Referrals created at the same moment would otherwise all go to the same rep
+  PERFORM pg_advisory_xact_lock(hashtext('referral_assignment'));
+
+  RETURN QUERY
+  SELECT r.user_id, 'round_robin'::TEXT
+  FROM public.user_roles r
+  WHERE r.role = 'sales_rep'
+    AND public.is_assignable_sales_rep(r.user_id)
+  ORDER BY (
+    SELECT MAX(a.created_at)
+    FROM public.referral_assignments a
+    WHERE a.assigned_to = r.user_id
+      AND a.method <> 'manual'
+  ) NULLS FIRST, r.user_id
+  LIMIT 1;
+END;
+$$;
+
+-- New referrals are assigned automatically unless an admin picked a rep when adding them.
+-- Runs after enforce_referrer_referral_columns, so referrers still cannot pick one, and after
+-- detect_referral_duplicate, so duplicates of an earlier referral are left unassigned.
+CREATE OR REPLACE FUNCTION public.set_referral_assigned_to()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  _choice RECORD;
+BEGIN
+  IF NEW.assigned_to IS NOT NULL THEN
+    IF NOT public.is_assignable_sales_rep(NEW.assigned_to) THEN
+      RAISE EXCEPTION 'Referrals can only be assigned to sales reps';
+    END IF;
+
+    INSERT INTO public.referral_assignments (referral_id, assigned_to, assigned_by, assigned_by_name, method)
+    VALUES (
+      NEW.id,
+      NEW.assigned_to,
+      auth.uid(),
+      (SELECT name FROM public.profiles WHERE user_id = auth.uid()),
+      'manual'
+    );
+    RETURN NEW;
+  END IF;
+
+  IF NEW.duplicate_of IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _choice
+  FROM public.choose_sales_rep(NEW.client_address);
+
+  IF _choice.rep_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.assigned_to := _choice.rep_id;
+
+  INSERT INTO public.referral_assignments (referral_id, assigned_to, method)
+  VALUES (NEW.id, _choice.rep_id, _choice.method);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_referral_assigned_to
+  BEFORE INSERT ON public.referrals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_referral_assigned_to();
+
+-- Reassigning, or unassigning, is recorded as a manual assignment by whoever made the change
+CREATE OR REPLACE FUNCTION public.record_referral_reassignment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.assigned_to IS DISTINCT FROM OLD.assigned_to THEN
+    INSERT INTO public.referral_assignments (
+      referral_id, assigned_to, previous_assigned_to, assigned_by, assigned_by_name, method
+    )
+    VALUES (
+      NEW.id,
+      NEW.assigned_to,
+      OLD.assigned_to,
+      auth.uid(),
+      (SELECT name FROM public.profiles WHERE user_id = auth.uid()),
+      'manual'
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER record_referral_reassignment
+  AFTER UPDATE OF assigned_to ON public.referrals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_referral_reassignment();
+
+-- Open referrals per assignee and stage for the workload view; unassigned referrals have a
+-- NULL assigned_to. Runs with the caller's RLS, so sales reps only count their own.
+CREATE OR REPLACE FUNCTION public.get_assignment_workload()
+RETURNS TABLE(assigned_to UUID, stage TEXT, open_count BIGINT)
+LANGUAGE SQL
+STABLE
+SET search_path = ''
+AS $$
+  SELECT r.assigned_to, r.stage, COUNT(*)
+  FROM public.referrals r
+  WHERE r.outcome = 'open'
+    AND r.duplicate_of IS NULL
+  GROUP BY r.assigned_to, r.stage
+$$;
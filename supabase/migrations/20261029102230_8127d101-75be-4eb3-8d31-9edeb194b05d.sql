@@ -0,0 +1,60 @@
+-- A draft payout batch has already totalled the bonuses of its referrals, so their stage,
+-- bonus amount and bonus status stay as they were until the batch is sent or cancelled.
+-- mark_payout_batch_sent marks the batch sent before flipping its referrals to Paid.
+CREATE OR REPLACE FUNCTION public.reject_batched_referral_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+BEGIN
+  IF OLD.payout_batch_id IS NULL
+    OR OLD.bonus_status <> 'Pending'
+    OR NEW.payout_batch_id IS DISTINCT FROM OLD.payout_batch_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.stage IS DISTINCT FROM OLD.stage
+    OR NEW.bonus_amount IS DISTINCT FROM OLD.bonus_amount
+    OR (
+      NEW.bonus_status IS DISTINCT FROM OLD.bonus_status
+      AND NOT EXISTS (
+        SELECT 1 FROM public.payout_batches
+        WHERE id = OLD.payout_batch_id
+          AND status = 'sent'
+      )
+    ) THEN
+    RAISE EXCEPTION 'Cancel the payout batch containing this referral before changing its stage or bonus'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reject_batched_referral_changes
+  BEFORE UPDATE ON public.referrals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.reject_batched_referral_changes();
+
+-- Referrals in a draft payout batch keep the amount the batch was created with
+CREATE OR REPLACE FUNCTION public.recalculate_pending_bonus_amounts()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  _updated INTEGER;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can recalculate bonus amounts';
+  END IF;
+
+  UPDATE public.referrals
+  SET bonus_amount = public.calculate_bonus_amount(id, user_id, stage)
+  WHERE bonus_status = 'Pending'
+    AND payout_batch_id IS NULL;
+
+  GET DIAGNOSTICS _updated = ROW_COUNT;
+  RETURN _updated;
+END;
+$$;
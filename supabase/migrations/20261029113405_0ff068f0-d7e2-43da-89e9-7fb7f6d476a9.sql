@@ -0,0 +1,17 @@
+-- Like the other staff functions, only once the session has been verified with MFA
+CREATE OR REPLACE FUNCTION public.get_sales_reps()
+RETURNS TABLE(user_id UUID, name TEXT)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER SET search_path = ''
+AS $$
+  SELECT r.user_id, COALESCE(p.name, u.email)
+  FROM public.user_roles r
+  JOIN auth.users u ON u.id = r.user_id
+  LEFT JOIN public.profiles p ON p.user_id = r.user_id
+  WHERE r.role = 'sales_rep'
+    AND p.deactivated_at IS NULL
+    AND public.is_staff(auth.uid())
+    AND public.is_mfa_verified()
+  ORDER BY 2
+$$;
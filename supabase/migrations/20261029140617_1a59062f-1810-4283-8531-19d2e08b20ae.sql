@@ -0,0 +1,79 @@
+-- Encrypted bank numbers as they were when each payout item was created, so an export pays
+-- the account the batch was reviewed with even if the referrer has changed it since.
+-- No policies: only the functions below can read or write it.
+CREATE TABLE public.payout_item_secrets (
+  item_id UUID NOT NULL PRIMARY KEY REFERENCES public.payout_items(id) ON DELETE CASCADE,
+  account_number_encrypted BYTEA NOT NULL,
+  routing_number_encrypted BYTEA NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.payout_item_secrets ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.payout_item_secrets FROM anon, authenticated;
+
+-- Copy the payee's encrypted bank numbers alongside the masked snapshot on the item
+CREATE OR REPLACE FUNCTION public.snapshot_payout_item_secrets()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.payment_method = 'bank_transfer' THEN
+    INSERT INTO public.payout_item_secrets (item_id, account_number_encrypted, routing_number_encrypted)
+    SELECT NEW.id, s.account_number_encrypted, s.routing_number_encrypted
+    FROM public.payment_detail_secrets s
+    WHERE s.user_id = NEW.user_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER snapshot_payout_item_secrets
+  AFTER INSERT ON public.payout_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.snapshot_payout_item_secrets();
+
+-- Items in existing draft batches get the current numbers only if they have not changed since
+-- the batch was created. The others are left without, and the export reports them as missing
+-- bank details until the batch is cancelled and created again.
+INSERT INTO public.payout_item_secrets (item_id, account_number_encrypted, routing_number_encrypted)
+SELECT i.id, s.account_number_encrypted, s.routing_number_encrypted
+FROM public.payout_items i
+JOIN public.payout_batches b ON b.id = i.batch_id
+JOIN public.payment_detail_secrets s ON s.user_id = i.user_id
+WHERE b.status = 'draft'
+  AND i.payment_method = 'bank_transfer'
+  AND s.updated_at <= b.created_at;
+
+-- Full bank details for every bank transfer payee in a payout batch, from the item snapshots
+CREATE OR REPLACE FUNCTION public.reveal_payout_batch_payment_details(_batch_id UUID)
+RETURNS TABLE(item_id UUID, payment_details JSONB)
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'finance') THEN
+    RAISE EXCEPTION 'Only finance can export bank details';
+  END IF;
+
+  INSERT INTO public.payment_detail_access_log (actor_id, user_id, reason, payout_batch_id)
+  SELECT auth.uid(), i.user_id, 'Payout batch export', _batch_id
+  FROM public.payout_items i
+  JOIN public.payout_item_secrets s ON s.item_id = i.id
+  WHERE i.batch_id = _batch_id;
+
+  RETURN QUERY
+  SELECT
+    i.id,
+    (i.payment_details - 'account_last4' - 'routing_last4')
+      || jsonb_build_object(
+        'account_number', public.decrypt_payment_secret(s.account_number_encrypted),
+        'routing_number', public.decrypt_payment_secret(s.routing_number_encrypted)
+      )
+  FROM public.payout_items i
+  JOIN public.payout_item_secrets s ON s.item_id = i.id
+  WHERE i.batch_id = _batch_id
+    AND i.payment_method = 'bank_transfer';
+END;
+$$;
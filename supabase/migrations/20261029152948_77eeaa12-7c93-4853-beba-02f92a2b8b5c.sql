@@ -0,0 +1,5 @@
+-- now() is fixed for the whole transaction, so referrals inserted together were all
+-- recorded at the same moment and round robin kept picking the same rep. The wall clock
+-- moves on between the rows.
+ALTER TABLE public.referral_assignments
+  ALTER COLUMN created_at SET DEFAULT clock_timestamp();
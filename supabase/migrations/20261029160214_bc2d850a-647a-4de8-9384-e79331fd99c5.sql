@@ -0,0 +1,63 @@
+-- Admins can no longer reassign referrals to deactivated sales reps, matching the check on
+-- new referrals in set_referral_assigned_to
+CREATE OR REPLACE FUNCTION public.enforce_staff_referral_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  _allowed TEXT[] := ARRAY['updated_at'];
+BEGIN
+  IF auth.uid() IS NULL OR NOT public.is_staff(auth.uid()) THEN
+    RETURN NEW;
+  END IF;
+
+  IF (NEW.bonus_status = 'Paid') IS DISTINCT FROM (OLD.bonus_status = 'Paid')
+    AND NOT public.has_role(auth.uid(), 'finance') THEN
+    RAISE EXCEPTION 'Only finance can mark bonuses as paid'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF public.has_role(auth.uid(), 'admin') THEN
+    IF NEW.assigned_to IS DISTINCT FROM OLD.assigned_to
+      AND NEW.assigned_to IS NOT NULL
+      AND NOT public.is_assignable_sales_rep(NEW.assigned_to) THEN
+      RAISE EXCEPTION 'Referrals can only be assigned to sales reps';
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  -- Their own referrals follow the referrer rules in enforce_referrer_referral_columns
+  IF OLD.user_id = auth.uid() THEN
+    RETURN NEW;
+  END IF;
+
+  IF public.has_role(auth.uid(), 'finance') THEN
+    _allowed := _allowed || ARRAY['bonus_status', 'payout_batch_id'];
+  END IF;
+
+  IF public.has_role(auth.uid(), 'sales_rep') AND OLD.assigned_to = auth.uid() THEN
+    IF NEW.stage IS DISTINCT FROM OLD.stage THEN
+      IF OLD.outcome <> 'open' THEN
+        RAISE EXCEPTION 'Closed referrals can no longer be moved'
+          USING ERRCODE = 'insufficient_privilege';
+      END IF;
+
+      IF public.referral_stage_rank(NEW.stage) <= public.referral_stage_rank(OLD.stage) THEN
+        RAISE EXCEPTION 'Sales reps can only move referrals forward'
+          USING ERRCODE = 'insufficient_privilege';
+      END IF;
+    END IF;
+
+    _allowed := _allowed || ARRAY['stage'];
+  END IF;
+
+  IF (to_jsonb(NEW) - _allowed) IS DISTINCT FROM (to_jsonb(OLD) - _allowed) THEN
+    RAISE EXCEPTION 'Your role cannot change these referral details'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,100 @@
+-- Rate limits key on the address the API gateway saw rather than one the client sent
+CREATE OR REPLACE FUNCTION public.submit_link_referral(
+  _code TEXT,
+  _client_name TEXT,
+  _consent_text_version TEXT,
+  _client_email TEXT DEFAULT NULL,
+  _client_phone TEXT DEFAULT NULL,
+  _client_address TEXT DEFAULT NULL,
+  _website TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  _profile public.profiles%ROWTYPE;
+  _ip TEXT;
+  _referral_id UUID;
+BEGIN
+  SELECT * INTO _profile
+  FROM public.profiles
+  WHERE referral_code = upper(trim(_code));
+
+  IF _profile.id IS NULL THEN
+    RAISE EXCEPTION 'This referral link is not valid';
+  END IF;
+
+  -- The API gateway appends the address it saw to X-Forwarded-For; anything before that
+  -- came from the client and can be made up
+  _ip := trim(split_part(
+    COALESCE(current_setting('request.headers', true)::JSONB ->> 'x-forwarded-for', ''), ',', -1
+  ));
+
+  IF NULLIF(trim(_website), '') IS NOT NULL THEN
+    INSERT INTO public.referral_link_submissions (profile_id, ip_address, rejected_reason)
+    VALUES (_profile.id, NULLIF(_ip, ''), 'honeypot');
+    RETURN;
+  END IF;
+
+  -- Requests without an address share one limit. Rejected submissions count against the
+  -- sender's address but not the link, so bots cannot lock homeowners out of it.
+  IF (SELECT COUNT(*) FROM public.referral_link_submissions
+      WHERE ip_address IS NOT DISTINCT FROM NULLIF(_ip, '') AND created_at > now() - INTERVAL '1 hour') >= 5
+    OR (SELECT COUNT(*) FROM public.referral_link_submissions
+      WHERE profile_id = _profile.id AND rejected_reason IS NULL AND created_at > now() - INTERVAL '1 hour') >= 20 THEN
+    RAISE EXCEPTION 'Too many submissions. Please try again later.';
+  END IF;
+
+  -- The page may have been open while a new version was published; ask them to agree to it
+  IF NOT EXISTS (
+    SELECT 1 FROM public.consent_texts WHERE version = _consent_text_version AND is_current
+  ) THEN
+    RAISE EXCEPTION 'Please review and accept the current consent statement';
+  END IF;
+
+  IF length(trim(COALESCE(_client_name, ''))) NOT BETWEEN 2 AND 200 THEN
+    RAISE EXCEPTION 'Please enter your name';
+  END IF;
+
+  IF NULLIF(trim(_client_email), '') IS NULL AND NULLIF(trim(_client_phone), '') IS NULL THEN
+    RAISE EXCEPTION 'Please enter an email address or phone number';
+  END IF;
+
+  IF NULLIF(trim(_client_email), '') IS NOT NULL AND trim(_client_email) !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RAISE EXCEPTION 'Please enter a valid email address';
+  END IF;
+
+  IF length(COALESCE(_client_email, '')) > 320
+    OR length(COALESCE(_client_phone, '')) > 50
+    OR length(COALESCE(_client_address, '')) > 500 THEN
+    RAISE EXCEPTION 'Some details are too long';
+  END IF;
+
+  -- Only for this insert; see enforce_referrer_referral_columns
+  PERFORM set_config('app.link_submission', 'on', true);
+
+  INSERT INTO public.referrals (
+    user_id, profile_id, client_name, client_email, client_phone, client_address, source,
+    consent_text_version, consented_at, consent_ip
+  )
+  VALUES (
+    _profile.user_id,
+    _profile.id,
+    trim(_client_name),
+    NULLIF(trim(_client_email), ''),
+    NULLIF(trim(_client_phone), ''),
+    NULLIF(trim(_client_address), ''),
+    'link',
+    _consent_text_version,
+    now(),
+    NULLIF(_ip, '')
+  )
+  RETURNING id INTO _referral_id;
+
+  PERFORM set_config('app.link_submission', '', true);
+
+  INSERT INTO public.referral_link_submissions (profile_id, referral_id, ip_address)
+  VALUES (_profile.id, _referral_id, NULLIF(_ip, ''));
+END;
+$$;
@@ -0,0 +1,47 @@
+-- Sales reps hear about referrals given to them, automatically or by an admin
+ALTER TABLE public.notifications DROP CONSTRAINT notifications_kind_check;
+ALTER TABLE public.notifications
+  ADD CONSTRAINT notifications_kind_check
+  CHECK (kind IN ('referral_received', 'referral_submitted', 'referral_assigned', 'stage_changed', 'bonus_paid'));
+
+-- Automatic assignments are recorded before the referral row itself exists, so the
+-- notification is written at commit, once it does
+CREATE OR REPLACE FUNCTION public.notify_referral_assignment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  _client_name TEXT;
+BEGIN
+  IF NEW.assigned_to IS NULL OR NEW.assigned_to IS NOT DISTINCT FROM NEW.assigned_by THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT client_name INTO _client_name
+  FROM public.referrals
+  WHERE id = NEW.referral_id;
+
+  -- Deleted again in the same transaction
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, referral_id, kind, title, body)
+  VALUES (
+    NEW.assigned_to,
+    NEW.referral_id,
+    'referral_assigned',
+    'Referral assigned to you',
+    format('%s has been assigned to you.', _client_name)
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE CONSTRAINT TRIGGER notify_referral_assignment
+  AFTER INSERT ON public.referral_assignments
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_referral_assignment();
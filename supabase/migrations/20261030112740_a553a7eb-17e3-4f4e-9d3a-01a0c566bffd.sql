@@ -0,0 +1,158 @@
+-- Finance staff who also refer customers can send or cancel batches holding their own
+-- referrals. The payout functions mark their update so the referrer rules, which would
+-- refuse changes to a signed referral, do not apply to it.
+CREATE OR REPLACE FUNCTION public.enforce_referrer_referral_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  -- Admins, server-side jobs (no auth context), link submissions and payout batches are not restricted
+  IF auth.uid() IS NULL
+    OR current_setting('app.link_submission', true) = 'on'
+    OR current_setting('app.payout_batch', true) = 'on'
+    OR public.has_role(auth.uid(), 'admin')
+    OR (TG_OP = 'UPDATE' AND OLD.user_id IS DISTINCT FROM auth.uid()) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.stage IS DISTINCT FROM public.initial_referral_stage()
+      OR NEW.bonus_status <> 'Pending'
+      OR NEW.payout_batch_id IS NOT NULL
+      OR NEW.notes IS NOT NULL
+      OR NEW.outcome <> 'open'
+      OR NEW.closed_at IS NOT NULL
+      OR NEW.closed_by IS NOT NULL
+      OR NEW.source <> 'manual'
+      OR NEW.consent_text_version IS NOT NULL
+      OR NEW.consented_at IS NOT NULL
+      OR NEW.consent_ip IS NOT NULL
+      OR NEW.assigned_to IS NOT NULL THEN
+      RAISE EXCEPTION 'Referrers can only submit new referrals with the client''s details'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF NEW.profile_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM public.profiles WHERE id = NEW.profile_id AND user_id = auth.uid()
+    ) THEN
+      RAISE EXCEPTION 'Referrals can only be linked to your own profile'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    -- The amount always comes from the bonus rules (see set_referral_bonus_amount)
+    NEW.bonus_amount := 0;
+    RETURN NEW;
+  END IF;
+
+  IF OLD.outcome <> 'open' THEN
+    RAISE EXCEPTION 'Closed referrals can no longer be edited'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF OLD.stage IS DISTINCT FROM public.initial_referral_stage() THEN
+    RAISE EXCEPTION 'Referrals can no longer be edited once the client has signed'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id
+    OR NEW.profile_id IS DISTINCT FROM OLD.profile_id
+    OR NEW.stage IS DISTINCT FROM OLD.stage
+    OR NEW.bonus_status IS DISTINCT FROM OLD.bonus_status
+    OR NEW.bonus_amount IS DISTINCT FROM OLD.bonus_amount
+    OR NEW.payout_batch_id IS DISTINCT FROM OLD.payout_batch_id
+    OR NEW.duplicate_of IS DISTINCT FROM OLD.duplicate_of
+    OR NEW.outcome IS DISTINCT FROM OLD.outcome
+    OR NEW.close_reason IS DISTINCT FROM OLD.close_reason
+    OR NEW.closed_at IS DISTINCT FROM OLD.closed_at
+    OR NEW.closed_by IS DISTINCT FROM OLD.closed_by
+    OR NEW.source IS DISTINCT FROM OLD.source
+    OR NEW.consent_text_version IS DISTINCT FROM OLD.consent_text_version
+    OR NEW.consented_at IS DISTINCT FROM OLD.consented_at
+    OR NEW.consent_ip IS DISTINCT FROM OLD.consent_ip
+    OR NEW.assigned_to IS DISTINCT FROM OLD.assigned_to
+    OR NEW.notes IS DISTINCT FROM OLD.notes
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+    RAISE EXCEPTION 'Referrers can only update the client name, email, phone and address'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- The homeowner consented to be contacted at the details they gave, not at new ones
+  IF OLD.consented_at IS NOT NULL AND (
+    NEW.client_email IS DISTINCT FROM OLD.client_email
+    OR NEW.client_phone IS DISTINCT FROM OLD.client_phone
+  ) THEN
+    RAISE EXCEPTION 'Contact details given by the homeowner cannot be changed'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.mark_payout_batch_sent(_batch_id UUID, _reference_number TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'finance') THEN
+    RAISE EXCEPTION 'Only finance can mark payout batches as sent';
+  END IF;
+
+  IF COALESCE(trim(_reference_number), '') = '' THEN
+    RAISE EXCEPTION 'A reference number is required';
+  END IF;
+
+  UPDATE public.payout_batches
+  SET status = 'sent',
+      reference_number = trim(_reference_number),
+      sent_by = auth.uid(),
+      sent_at = now()
+  WHERE id = _batch_id
+    AND status = 'draft';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only draft payout batches can be marked as sent';
+  END IF;
+
+  -- Only for this update; see enforce_referrer_referral_columns
+  PERFORM set_config('app.payout_batch', 'on', true);
+
+  UPDATE public.referrals
+  SET bonus_status = 'Paid'
+  WHERE payout_batch_id = _batch_id;
+
+  PERFORM set_config('app.payout_batch', '', true);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.cancel_payout_batch(_batch_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+BEGIN
+  IF NOT public.has_any_role(auth.uid(), ARRAY['admin', 'finance']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Only admins and finance can cancel payout batches';
+  END IF;
+
+  UPDATE public.payout_batches
+  SET status = 'cancelled'
+  WHERE id = _batch_id
+    AND status = 'draft';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only draft payout batches can be cancelled';
+  END IF;
+
+  -- Only for this update; see enforce_referrer_referral_columns
+  PERFORM set_config('app.payout_batch', 'on', true);
+
+  UPDATE public.referrals
+  SET payout_batch_id = NULL
+  WHERE payout_batch_id = _batch_id;
+
+  PERFORM set_config('app.payout_batch', '', true);
+END;
+$$;
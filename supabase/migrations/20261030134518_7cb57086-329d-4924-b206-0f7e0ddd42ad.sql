@@ -0,0 +1,35 @@
+-- Bonus amounts depend on other referrers' installs and on duplicate checks, so only the
+-- functions that set them may calculate them
+REVOKE EXECUTE ON FUNCTION public.calculate_bonus_amount(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Projections are calculated on the caller's behalf, for their own referrals only
+CREATE OR REPLACE FUNCTION public.get_my_projected_bonuses()
+RETURNS TABLE(referral_id UUID, stage TEXT, projected_amount NUMERIC)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER SET search_path = ''
+AS $$
+  WITH completion AS (
+    SELECT key, position
+    FROM public.referral_stages
+    WHERE is_bonus_eligible
+    ORDER BY position
+    LIMIT 1
+  ),
+  threshold AS (
+    SELECT MAX(s.position) AS position
+    FROM public.referral_stages s, completion c
+    WHERE s.position < c.position
+  )
+  SELECT r.id, r.stage, public.calculate_bonus_amount(r.id, r.user_id, c.key)
+  FROM public.referrals r
+  JOIN public.referral_stages s ON s.key = r.stage
+  CROSS JOIN completion c
+  CROSS JOIN threshold t
+  WHERE r.user_id = auth.uid()
+    AND r.outcome = 'open'
+    AND r.duplicate_of IS NULL
+    AND r.bonus_status = 'Pending'
+    AND NOT s.is_bonus_eligible
+    AND s.position >= t.position
+$$;
@@ -0,0 +1,71 @@
+-- Close any gaps or ties left by earlier reorders, keeping the current order
+UPDATE public.referral_stages s
+SET position = ordered.new_position
+FROM (
+  SELECT id, row_number() OVER (ORDER BY position, created_at) AS new_position
+  FROM public.referral_stages
+) ordered
+WHERE ordered.id = s.id
+  AND s.position <> ordered.new_position;
+
+-- Checked at commit, so two stages can swap positions in one transaction
+ALTER TABLE public.referral_stages
+  ADD CONSTRAINT referral_stages_position_key UNIQUE (position) DEFERRABLE INITIALLY DEFERRED;
+
+-- Swap a stage with the one before (_direction -1) or after it (1). New referrals start in
+-- the first stage and referrers can only edit referrals there, so a move that changes the
+-- first stage has to be confirmed with _change_first_stage.
+CREATE OR REPLACE FUNCTION public.move_referral_stage(
+  _stage_id UUID,
+  _direction INTEGER,
+  _change_first_stage BOOLEAN DEFAULT false
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  _stage public.referral_stages%ROWTYPE;
+  _other public.referral_stages%ROWTYPE;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can reorder referral stages'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF _direction NOT IN (-1, 1) THEN
+    RAISE EXCEPTION 'Stages can only move one place up or down';
+  END IF;
+
+  -- Lock the stages so two admins reordering at once cannot interleave
+  PERFORM 1 FROM public.referral_stages FOR UPDATE;
+
+  SELECT * INTO _stage
+  FROM public.referral_stages
+  WHERE id = _stage_id;
+
+  IF _stage.id IS NULL THEN
+    RAISE EXCEPTION 'Stage not found';
+  END IF;
+
+  SELECT * INTO _other
+  FROM public.referral_stages
+  WHERE CASE WHEN _direction < 0 THEN position < _stage.position ELSE position > _stage.position END
+  ORDER BY CASE WHEN _direction < 0 THEN -position ELSE position END
+  LIMIT 1;
+
+  IF _other.id IS NULL THEN
+    RAISE EXCEPTION 'The stage is already at the % of the pipeline',
+      CASE WHEN _direction < 0 THEN 'start' ELSE 'end' END;
+  END IF;
+
+  IF public.initial_referral_stage() IN (_stage.key, _other.key) AND NOT _change_first_stage THEN
+    RAISE EXCEPTION 'This move changes the first stage, where new referrals start'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE public.referral_stages
+  SET position = CASE WHEN id = _stage.id THEN _other.position ELSE _stage.position END
+  WHERE id IN (_stage.id, _other.id);
+END;
+$$;
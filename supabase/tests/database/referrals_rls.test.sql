@@ -0,0 +1,329 @@
+-- RLS and column protection on public.referrals. Run with: supabase test db
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(41);
+
+-- Fixtures are created as the postgres user, which bypasses RLS and the referrer column guard
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'referrer@example.com', '{"name": "Referrer"}'),
+  ('22222222-2222-2222-2222-222222222222', 'other@example.com', '{"name": "Other Referrer"}'),
+  ('33333333-3333-3333-3333-333333333333', 'admin@example.com', '{"name": "Admin"}'),
+  ('44444444-4444-4444-4444-444444444444', 'rep@example.com', '{"name": "Sales Rep"}'),
+  ('55555555-5555-5555-5555-555555555555', 'finance@example.com', '{"name": "Finance"}'),
+  ('66666666-6666-6666-6666-666666666666', 'auditor@example.com', '{"name": "Auditor"}');
+
+INSERT INTO public.user_roles (user_id, role) VALUES
+  ('33333333-3333-3333-3333-333333333333', 'admin'),
+  ('44444444-4444-4444-4444-444444444444', 'sales_rep'),
+  ('55555555-5555-5555-5555-555555555555', 'finance'),
+  ('66666666-6666-6666-6666-666666666666', 'auditor')
+ON CONFLICT DO NOTHING;
+
+-- Assign the fixtures by hand rather than round robin
+UPDATE public.program_settings SET value = '"off"' WHERE key = 'referral_assignment';
+
+INSERT INTO public.referrals (id, user_id, client_name, stage) VALUES
+  ('aaaaaaaa-0000-0000-0000-000000000001', '11111111-1111-1111-1111-111111111111', 'Early Client', 'Referred Connection'),
+  ('aaaaaaaa-0000-0000-0000-000000000002', '11111111-1111-1111-1111-111111111111', 'Signed Client', 'Client Signed'),
+  ('aaaaaaaa-0000-0000-0000-000000000003', '22222222-2222-2222-2222-222222222222', 'Someone Else''s Client', 'Referred Connection');
+
+INSERT INTO public.referrals (id, user_id, client_name, stage, assigned_to) VALUES
+  ('aaaaaaaa-0000-0000-0000-000000000005', '22222222-2222-2222-2222-222222222222', 'Assigned Client', 'Client Signed', '44444444-4444-4444-4444-444444444444'),
+  ('aaaaaaaa-0000-0000-0000-000000000006', '22222222-2222-2222-2222-222222222222', 'Unassigned Client', 'Client Signed', NULL),
+  ('aaaaaaaa-0000-0000-0000-000000000007', '22222222-2222-2222-2222-222222222222', 'Batched Client', 'Client Signed', NULL),
+  ('aaaaaaaa-0000-0000-0000-000000000008', '55555555-5555-5555-5555-555555555555', 'Finance''s Own Client', 'Client Signed', NULL);
+
+-- A draft payout batch holding a bonus that no longer matches the rules
+INSERT INTO public.payout_batches (id, created_by) VALUES
+  ('bbbbbbbb-0000-0000-0000-000000000001', '33333333-3333-3333-3333-333333333333'),
+  ('bbbbbbbb-0000-0000-0000-000000000002', '33333333-3333-3333-3333-333333333333');
+
+UPDATE public.referrals
+SET payout_batch_id = 'bbbbbbbb-0000-0000-0000-000000000001', bonus_amount = 123
+WHERE id = 'aaaaaaaa-0000-0000-0000-000000000007';
+
+-- A batch paying a finance user who also refers customers
+UPDATE public.referrals
+SET payout_batch_id = 'bbbbbbbb-0000-0000-0000-000000000002', bonus_amount = 200
+WHERE id = 'aaaaaaaa-0000-0000-0000-000000000008';
+
+UPDATE public.profiles SET referral_code = 'OTHERREF'
+WHERE user_id = '22222222-2222-2222-2222-222222222222';
+
+-- Act as the referrer
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+
+SELECT results_eq(
+  'SELECT id FROM public.referrals ORDER BY id',
+  $$VALUES ('aaaaaaaa-0000-0000-0000-000000000001'::uuid), ('aaaaaaaa-0000-0000-0000-000000000002'::uuid)$$,
+  'Referrers only see their own referrals'
+);
+
+-- Contact details while still a referred connection
+SELECT lives_ok(
+  $$UPDATE public.referrals SET client_phone = '555-0100', client_email = 'client@example.com'
+    WHERE id = 'aaaaaaaa-0000-0000-0000-000000000001'$$,
+  'Referrers can correct client contact details on early referrals'
+);
+
+SELECT is(
+  (SELECT client_phone FROM public.referrals WHERE id = 'aaaaaaaa-0000-0000-0000-000000000001'),
+  '555-0100',
+  'The contact details change is saved'
+);
+
+-- Admin-only columns
+SELECT throws_ok(
+  $$UPDATE public.referrals SET stage = 'Solar Installed' WHERE id = 'aaaaaaaa-0000-0000-0000-000000000001'$$,
+  '42501', NULL,
+  'Referrers cannot change the stage'
+);
+
+SELECT throws_ok(
+  $$UPDATE public.referrals SET bonus_status = 'Paid' WHERE id = 'aaaaaaaa-0000-0000-0000-000000000001'$$,
+  '42501', NULL,
+  'Referrers cannot mark their bonus as paid'
+);
+
+SELECT throws_ok(
+  $$UPDATE public.referrals SET bonus_amount = 10000 WHERE id = 'aaaaaaaa-0000-0000-0000-000000000001'$$,
+  '42501', NULL,
+  'Referrers cannot change the bonus amount'
+);
+
+SELECT throws_ok(
+  $$UPDATE public.referrals SET notes = 'Approved' WHERE id = 'aaaaaaaa-0000-0000-0000-000000000001'$$,
+  '42501', NULL,
+  'Referrers cannot change admin notes'
+);
+
+SELECT throws_ok(
+  $$UPDATE public.referrals SET user_id = '22222222-2222-2222-2222-222222222222' WHERE id = 'aaaaaaaa-0000-0000-0000-000000000001'$$,
+  '42501', NULL,
+  'Referrers cannot hand a referral to another user'
+);
+
+-- Rows outside the referrer's reach are silently filtered by RLS
+SELECT is_empty(
+  $$UPDATE public.referrals SET client_phone = '555-0199' WHERE id = 'aaaaaaaa-0000-0000-0000-000000000002' RETURNING id$$,
+  'Referrers cannot edit referrals once the client has signed'
+);
+
+SELECT is_empty(
+  $$UPDATE public.referrals SET client_phone = '555-0199' WHERE id = 'aaaaaaaa-0000-0000-0000-000000000003' RETURNING id$$,
+  'Referrers cannot edit other referrers'' referrals'
+);
+
+-- Inserts
+SELECT throws_ok(
+  $$INSERT INTO public.referrals (user_id, client_name, stage)
+    VALUES ('11111111-1111-1111-1111-111111111111', 'Skip Ahead', 'Solar Installed')$$,
+  '42501', NULL,
+  'Referrers cannot create referrals past the first stage'
+);
+
+SELECT throws_ok(
+  $$INSERT INTO public.referrals (user_id, client_name, bonus_status)
+    VALUES ('11111111-1111-1111-1111-111111111111', 'Already Paid', 'Paid')$$,
+  '42501', NULL,
+  'Referrers cannot create referrals with a paid bonus'
+);
+
+SELECT throws_ok(
+  $$INSERT INTO public.referrals (user_id, client_name)
+    VALUES ('22222222-2222-2222-2222-222222222222', 'On Behalf Of')$$,
+  '42501', NULL,
+  'Referrers cannot create referrals for another user'
+);
+
+SELECT lives_ok(
+  $$INSERT INTO public.referrals (id, user_id, client_name, bonus_amount)
+    VALUES ('aaaaaaaa-0000-0000-0000-000000000004', '11111111-1111-1111-1111-111111111111', 'New Client', 10000)$$,
+  'Referrers can submit a new referral'
+);
+
+SELECT isnt(
+  (SELECT bonus_amount FROM public.referrals WHERE id = 'aaaaaaaa-0000-0000-0000-000000000004'),
+  10000::NUMERIC,
+  'A submitted bonus amount is replaced by the bonus rules'
+);
+
+-- Withdrawing
+SELECT is_empty(
+  $$DELETE FROM public.referrals WHERE id = 'aaaaaaaa-0000-0000-0000-000000000002' RETURNING id$$,
+  'Referrers cannot withdraw a referral once the client has signed'
+);
+
+SELECT isnt_empty(
+  $$DELETE FROM public.referrals WHERE id = 'aaaaaaaa-0000-0000-0000-000000000004' RETURNING id$$,
+  'Referrers can withdraw an early referral'
+);
+
+-- Act as the admin, signed in with a password only
+SELECT set_config('request.jwt.claims', '{"sub": "33333333-3333-3333-3333-333333333333", "role": "authenticated", "aal": "aal1"}', true);
+
+SELECT is_empty(
+  'SELECT id FROM public.referrals',
+  'Admins see no referrals until they verify with MFA'
+);
+
+SELECT throws_ok(
+  $$SELECT public.close_referral('aaaaaaaa-0000-0000-0000-000000000003', 'lost', 'other')$$,
+  '42501', NULL,
+  'Admins cannot make changes through functions until they verify with MFA'
+);
+
+-- Act as the admin after verifying with MFA
+SELECT set_config('request.jwt.claims', '{"sub": "33333333-3333-3333-3333-333333333333", "role": "authenticated", "aal": "aal2"}', true);
+
+SELECT results_eq(
+  'SELECT count(*) FROM public.referrals',
+  ARRAY[7::BIGINT],
+  'Admins see every referral'
+);
+
+SELECT lives_ok(
+  $$UPDATE public.referrals SET stage = 'Client Signed', notes = 'Contract received'
+    WHERE id = 'aaaaaaaa-0000-0000-0000-000000000003'$$,
+  'Admins can change stage and notes'
+);
+
+SELECT is(
+  (SELECT stage::TEXT FROM public.referrals WHERE id = 'aaaaaaaa-0000-0000-0000-000000000003'),
+  'Client Signed',
+  'The admin change is saved'
+);
+
+SELECT lives_ok(
+  'SELECT public.recalculate_pending_bonus_amounts()',
+  'Admins can recalculate pending bonuses while a draft payout batch exists'
+);
+
+SELECT is(
+  (SELECT bonus_amount FROM public.referrals WHERE id = 'aaaaaaaa-0000-0000-0000-000000000007'),
+  123::NUMERIC,
+  'Referrals in a draft payout batch keep their bonus amount'
+);
+
+SELECT throws_ok(
+  $$UPDATE public.referrals SET bonus_status = 'Paid' WHERE id = 'aaaaaaaa-0000-0000-0000-000000000006'$$,
+  '42501', NULL,
+  'Admins cannot mark bonuses as paid'
+);
+
+-- Staff roles are held to MFA like admins
+SELECT set_config('request.jwt.claims', '{"sub": "44444444-4444-4444-4444-444444444444", "role": "authenticated", "aal": "aal1"}', true);
+
+SELECT is_empty(
+  'SELECT id FROM public.referrals',
+  'Sales reps see no referrals until they verify with MFA'
+);
+
+SELECT is_empty(
+  'SELECT user_id FROM public.get_sales_reps()',
+  'Sales reps are not listed to staff until they verify with MFA'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "55555555-5555-5555-5555-555555555555", "role": "authenticated", "aal": "aal1"}', true);
+
+SELECT throws_ok(
+  $$UPDATE public.referrals SET bonus_status = 'Paid' WHERE id = 'aaaaaaaa-0000-0000-0000-000000000005'$$,
+  '42501', NULL,
+  'Finance cannot make changes until they verify with MFA'
+);
+
+-- Act as the sales rep after verifying with MFA
+SELECT set_config('request.jwt.claims', '{"sub": "44444444-4444-4444-4444-444444444444", "role": "authenticated", "aal": "aal2"}', true);
+
+SELECT results_eq(
+  'SELECT id FROM public.referrals',
+  $$VALUES ('aaaaaaaa-0000-0000-0000-000000000005'::uuid)$$,
+  'Sales reps only see the referrals assigned to them'
+);
+
+SELECT is_empty(
+  $$UPDATE public.referrals SET stage = 'Solar Installed' WHERE id = 'aaaaaaaa-0000-0000-0000-000000000006' RETURNING id$$,
+  'Sales reps cannot move unassigned referrals'
+);
+
+SELECT throws_ok(
+  $$UPDATE public.referrals SET stage = 'Referred Connection' WHERE id = 'aaaaaaaa-0000-0000-0000-000000000005'$$,
+  '42501', NULL,
+  'Sales reps cannot move a referral back a stage'
+);
+
+SELECT throws_ok(
+  $$UPDATE public.referrals SET notes = 'Called the client' WHERE id = 'aaaaaaaa-0000-0000-0000-000000000005'$$,
+  '42501', NULL,
+  'Sales reps cannot change anything but the stage'
+);
+
+SELECT lives_ok(
+  $$UPDATE public.referrals SET stage = 'Solar Installed' WHERE id = 'aaaaaaaa-0000-0000-0000-000000000005'$$,
+  'Sales reps can move their referrals forward'
+);
+
+-- Act as finance after verifying with MFA
+SELECT set_config('request.jwt.claims', '{"sub": "55555555-5555-5555-5555-555555555555", "role": "authenticated", "aal": "aal2"}', true);
+
+SELECT lives_ok(
+  $$UPDATE public.referrals SET bonus_status = 'Paid' WHERE id = 'aaaaaaaa-0000-0000-0000-000000000005'$$,
+  'Finance can mark bonuses as paid'
+);
+
+SELECT throws_ok(
+  $$UPDATE public.referrals SET stage = 'Client Signed' WHERE id = 'aaaaaaaa-0000-0000-0000-000000000006'$$,
+  '42501', NULL,
+  'Finance cannot change the stage'
+);
+
+SELECT lives_ok(
+  $$SELECT public.mark_payout_batch_sent('bbbbbbbb-0000-0000-0000-000000000002', 'ACH-1001')$$,
+  'Finance can send a payout batch that holds their own referral'
+);
+
+SELECT is(
+  (SELECT bonus_status::TEXT FROM public.referrals WHERE id = 'aaaaaaaa-0000-0000-0000-000000000008'),
+  'Paid',
+  'Their own referral in the batch is marked paid'
+);
+
+-- Act as the auditor after verifying with MFA
+SELECT set_config('request.jwt.claims', '{"sub": "66666666-6666-6666-6666-666666666666", "role": "authenticated", "aal": "aal2"}', true);
+
+SELECT is_empty(
+  $$UPDATE public.referrals SET notes = 'Looks fine' WHERE id = 'aaaaaaaa-0000-0000-0000-000000000006' RETURNING id$$,
+  'Auditors cannot change referrals'
+);
+
+-- A signed-in referrer submitting another referrer's link
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+
+SELECT lives_ok(
+  $$SELECT public.submit_link_referral(
+    'otherref', 'Link Client',
+    (SELECT version FROM public.consent_texts WHERE is_current),
+    'link-client@example.com'
+  )$$,
+  'Signed-in visitors can submit a referral through someone else''s link'
+);
+
+RESET ROLE;
+
+SELECT results_eq(
+  $$SELECT user_id, source, consented_at IS NOT NULL FROM public.referrals WHERE client_name = 'Link Client'$$,
+  $$VALUES ('22222222-2222-2222-2222-222222222222'::uuid, 'link'::TEXT, true)$$,
+  'The link referral belongs to the link''s owner and records consent'
+);
+
+SELECT results_eq(
+  $$SELECT stage::TEXT, bonus_status::TEXT, notes FROM public.referrals WHERE id IN ('aaaaaaaa-0000-0000-0000-000000000005', 'aaaaaaaa-0000-0000-0000-000000000006') ORDER BY id$$,
+  $$VALUES ('Solar Installed'::TEXT, 'Paid'::TEXT, NULL::TEXT), ('Client Signed'::TEXT, 'Pending'::TEXT, NULL::TEXT)$$,
+  'Only the sales rep''s and finance''s changes were saved'
+);
+
+SELECT * FROM finish();
+ROLLBACK;